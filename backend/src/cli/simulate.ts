@@ -0,0 +1,235 @@
+// ============================================================
+// Fractured Crowns — Headless Simulation CLI
+// Runs bot-only matches faster than real time and prints
+// balance statistics as JSON or CSV
+//
+//   npm run simulate -- --matches 20 --preset blitz --format csv
+// ============================================================
+
+import { readFileSync, writeFileSync } from 'fs';
+import { BotDifficulty, RulePreset, MatchRules, TeamMode, TEAM_LAYOUTS } from '../types/game';
+import { getPresetRules, withOverrides, validateRules } from '../game/MatchRules';
+import { BalanceSimulator, SimulationReport } from '../simulation/BalanceSimulator';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --matches <n>        Matches to run (default 10)
+  --seed <n>           Seed of the first match; match i uses seed + i (default 1)
+  --preset <name>      Rule preset: ${Object.values(RulePreset).join(', ')} (default standard)
+  --rules <file>       JSON file of rule overrides applied on top of the preset
+  --players <n>        Bots per match (default: the rules' player cap, or what the teams hold)
+  --teams <mode>       Team mode: ${Object.values(TeamMode).join(', ')} (default ffa)
+  --difficulty <name>  Bot difficulty: ${Object.values(BotDifficulty).join(', ')} (default normal)
+  --sample <seconds>   Income sample interval (default 60)
+  --format <json|csv>  Output format (default json)
+  --out <file>         Write to a file instead of stdout
+  --help               Show this message
+`;
+
+interface CliOptions {
+  matches: number;
+  seed: number;
+  preset: RulePreset;
+  rulesFile: string | null;
+  players: number | null;
+  teamMode: TeamMode;
+  difficulty: BotDifficulty;
+  sample: number;
+  format: 'json' | 'csv';
+  out: string | null;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    matches: 10,
+    seed: 1,
+    preset: RulePreset.Standard,
+    rulesFile: null,
+    players: null,
+    teamMode: TeamMode.FreeForAll,
+    difficulty: BotDifficulty.Normal,
+    sample: 60,
+    format: 'json',
+    out: null,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+
+    if (flag === '--help' || flag === '-h') {
+      process.stdout.write(USAGE);
+      process.exit(0);
+    }
+    if (value === undefined) fail(`Missing value for ${flag}`);
+    i++;
+
+    switch (flag) {
+      case '--matches':
+        options.matches = parseInteger(flag, value, 1);
+        break;
+      case '--seed':
+        options.seed = parseInteger(flag, value, 0);
+        break;
+      case '--preset':
+        if (!Object.values(RulePreset).includes(value as RulePreset)) fail(`Unknown preset "${value}"`);
+        options.preset = value as RulePreset;
+        break;
+      case '--rules':
+        options.rulesFile = value;
+        break;
+      case '--players':
+        options.players = parseInteger(flag, value, 2);
+        break;
+      case '--teams':
+        if (!Object.values(TeamMode).includes(value as TeamMode)) fail(`Unknown team mode "${value}"`);
+        options.teamMode = value as TeamMode;
+        break;
+      case '--difficulty':
+        if (!Object.values(BotDifficulty).includes(value as BotDifficulty)) fail(`Unknown difficulty "${value}"`);
+        options.difficulty = value as BotDifficulty;
+        break;
+      case '--sample':
+        options.sample = parseInteger(flag, value, 1);
+        break;
+      case '--format':
+        if (value !== 'json' && value !== 'csv') fail(`Unknown format "${value}"`);
+        options.format = value;
+        break;
+      case '--out':
+        options.out = value;
+        break;
+      default:
+        fail(`Unknown option ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+function parseInteger(flag: string, value: string, min: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) fail(`${flag} must be an integer of at least ${min}`);
+  return n;
+}
+
+function loadRules(options: CliOptions): MatchRules {
+  let rules = getPresetRules(options.preset);
+
+  if (options.rulesFile) {
+    try {
+      rules = withOverrides(rules, JSON.parse(readFileSync(options.rulesFile, 'utf8')));
+    } catch (err) {
+      fail(`Could not read rules from ${options.rulesFile}: ${(err as Error).message}`);
+    }
+  }
+
+  const problems = validateRules(rules);
+  if (problems.length > 0) fail(`Invalid rules:\n  ${problems.join('\n  ')}`);
+  return rules;
+}
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+// ============================================================
+// CSV
+// ============================================================
+
+/**
+ * One table per statistic, each introduced by a `# name` line.
+ */
+function toCsv(report: SimulationReport): string {
+  const sections: string[] = [];
+  const table = (name: string, header: string[], rows: Array<Array<string | number | null>>) => {
+    sections.push([`# ${name}`, header.join(','), ...rows.map(row => row.map(csvCell).join(','))].join('\n'));
+  };
+
+  table(
+    'matches',
+    ['seed', 'duration', 'ticks', 'winnerId', 'winnerSpawnRegion', 'eliminations', 'wallTimeMs'],
+    report.matches.map(m => [m.seed, m.duration, m.ticks, m.winnerId, m.winnerSpawnRegion, m.eliminations, m.wallTimeMs])
+  );
+
+  table(
+    'win_rate_by_spawn',
+    ['region', 'spawns', 'wins', 'winRate'],
+    Object.entries(report.winRateBySpawn)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([region, s]) => [region, s.spawns, s.wins, s.winRate])
+  );
+
+  table(
+    'income_curve',
+    ['time', 'matches', 'avgGoldPerSecond', 'avgWinnerGoldPerSecond', 'avgTerritory'],
+    report.incomeCurve.map(s => [s.time, s.matches, s.avgGoldPerSecond, s.avgWinnerGoldPerSecond, s.avgTerritory])
+  );
+
+  table(
+    'unit_usage',
+    ['unitType', 'fielded', 'share'],
+    Object.entries(report.unitUsage).map(([type, u]) => [type, u.fielded, u.share])
+  );
+
+  const e = report.eliminationTimes;
+  table('elimination_times', ['count', 'average', 'median', 'earliest', 'latest'], [
+    [e.count, e.average, e.median, e.earliest, e.latest],
+  ]);
+
+  const d = report.duration;
+  table('duration', ['average', 'min', 'max'], [[d.average, d.min, d.max]]);
+
+  return sections.join('\n\n') + '\n';
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ============================================================
+// Main
+// ============================================================
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const rules = loadRules(options);
+  const layout = TEAM_LAYOUTS[options.teamMode];
+  const capacity = layout ? Math.min(rules.maxPlayers, layout.teams * layout.teamSize) : rules.maxPlayers;
+  const players = options.players ?? capacity;
+  if (players > capacity) fail(`--players cannot exceed the cap of ${capacity}`);
+
+  process.stderr.write(
+    `[simulate] ${options.matches} ${options.preset} ${options.teamMode} matches, ${players} ${options.difficulty} bots, seeds ${options.seed}–${options.seed + options.matches - 1}\n`
+  );
+
+  const simulator = new BalanceSimulator({
+    matches: options.matches,
+    seed: options.seed,
+    players,
+    rules,
+    teamMode: options.teamMode,
+    botDifficulty: options.difficulty,
+    sampleInterval: options.sample,
+  });
+
+  const report = simulator.run((done, summary) => {
+    process.stderr.write(
+      `[simulate] ${done}/${options.matches} seed ${summary.seed}: ` +
+      `${Math.round(summary.duration)}s simulated in ${summary.wallTimeMs}ms\n`
+    );
+  });
+
+  const output = options.format === 'csv' ? toCsv(report) : JSON.stringify(report, null, 2) + '\n';
+  if (options.out) {
+    writeFileSync(options.out, output);
+    process.stderr.write(`[simulate] Wrote ${options.out}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main();
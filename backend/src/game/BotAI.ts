@@ -5,6 +5,7 @@
 
 import {
   PlayerId,
+  BotDifficulty,
   GameCommand,
   CommandType,
   UnitType,
@@ -12,26 +13,50 @@ import {
   TerrainType,
   Squad,
   Player,
-  Tile,
-  UNIT_STATS,
-  BUILDING_COSTS,
-  ECONOMY,
+  MatchRules,
+  TechId,
+  ResearchState,
+  DiplomaticStatus,
+  DiplomacyState,
+  SquadOrder,
+  SupplyStatus,
   MATCH_CONFIG,
   tileKey,
   distanceSq,
 } from '../types/game';
+import { SeededRandom } from './Random';
+import { TileGrid, structureCode } from './TileGrid';
 
 // Forward reference to Match — we use a lightweight interface to avoid circular deps
 interface MatchAccessor {
-  getMap(): { width: number; height: number; tiles: Tile[][] };
+  getMap(): TileGrid;
   getPlayer(playerId: PlayerId): Player | undefined;
   getPlayers(): Map<PlayerId, Player>;
   getSquads(): Map<string, Squad>;
   getSquadsByOwner(ownerId: PlayerId): Squad[];
   getTick(): number;
+  getRules(): MatchRules;
   getTrainingQueue(x: number, y: number): Array<{ unitType: UnitType; remainingTime: number }>;
+  getResearch(playerId: PlayerId): ResearchState;
+  getDiplomacy(playerId: PlayerId): DiplomacyState;
+  getRepairs(playerId: PlayerId): Array<{ x: number; y: number }>;
+  isHostile(a: PlayerId, b: PlayerId): boolean;
 }
 
+// ---- Difficulty Profiles ----
+
+interface BotProfile {
+  decisionInterval: number; // minimum seconds between decisions (plus up to 0.6s jitter)
+  attackArmySize: number; // units needed before launching an attack
+  attackCooldown: number; // seconds between attacks
+}
+
+const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  [BotDifficulty.Easy]: { decisionInterval: 1.6, attackArmySize: 20, attackCooldown: 60 },
+  [BotDifficulty.Normal]: { decisionInterval: 0.8, attackArmySize: 12, attackCooldown: 30 },
+  [BotDifficulty.Hard]: { decisionInterval: 0.4, attackArmySize: 9, attackCooldown: 18 },
+};
+
 // ---- Bot Behavior State ----
 
 enum BotState {
@@ -53,6 +78,7 @@ interface BotMemory {
   knownMines: Array<{ x: number; y: number }>;
   threatLevel: number;
   actionCooldown: number;
+  answeredProposals: Set<string>; // "fromId|pact" of offers already decided on
 }
 
 export class BotAI {
@@ -61,16 +87,27 @@ export class BotAI {
   private memory: BotMemory;
   private tickAccumulator: number = 0;
   private decisionInterval: number; // seconds between AI decisions
-
-  constructor(playerId: PlayerId, match: MatchAccessor) {
+  private rng: SeededRandom;
+  private profile: BotProfile;
+  private rules: MatchRules;
+
+  constructor(
+    playerId: PlayerId,
+    match: MatchAccessor,
+    rng: SeededRandom,
+    difficulty: BotDifficulty = BotDifficulty.Normal
+  ) {
     this.playerId = playerId;
     this.match = match;
+    this.rng = rng;
+    this.profile = BOT_PROFILES[difficulty];
+    this.rules = match.getRules();
 
     // Randomize decision interval slightly so bots don't all act in sync
-    this.decisionInterval = 0.8 + Math.random() * 0.6; // 0.8–1.4 seconds
+    this.decisionInterval = this.profile.decisionInterval + this.rng.next() * 0.6;
 
     // Pick a random expand direction
-    const angle = Math.random() * Math.PI * 2;
+    const angle = this.rng.next() * Math.PI * 2;
 
     this.memory = {
       state: BotState.Expanding,
@@ -86,6 +123,7 @@ export class BotAI {
       knownMines: [],
       threatLevel: 0,
       actionCooldown: 0,
+      answeredProposals: new Set(),
     };
   }
 
@@ -137,6 +175,18 @@ export class BotAI {
     // Always try to build if we have gold (regardless of state)
     this.opportunisticBuild(commands, player, map);
 
+    // Spend surplus gold on research
+    this.opportunisticResearch(commands, player);
+
+    // Patch up the castle and towers
+    this.repairDefenses(commands, player, map);
+
+    // Bring home squads that are wasting away out of supply
+    this.withdrawStarving(commands, mySquads);
+
+    // Answer pact offers
+    this.respondToProposals(commands, player);
+
     return commands;
   }
 
@@ -144,7 +194,7 @@ export class BotAI {
   // Environment Scanning
   // ============================================================
 
-  private scanEnvironment(player: Player, map: { width: number; height: number; tiles: Tile[][] }, mySquads: Squad[]): void {
+  private scanEnvironment(player: Player, map: TileGrid, mySquads: Squad[]): void {
     // Find nearby mines we don't own
     this.memory.knownMines = [];
     const scanRadius = 25;
@@ -153,10 +203,10 @@ export class BotAI {
       for (let dx = -scanRadius; dx <= scanRadius; dx++) {
         const x = player.capitalX + dx;
         const y = player.capitalY + dy;
-        if (x < 0 || y < 0 || x >= map.width || y >= map.height) continue;
+        if (!map.inBounds(x, y)) continue;
 
-        const tile = map.tiles[y][x];
-        if (tile.terrain === TerrainType.Mine && tile.ownerId !== this.playerId) {
+        const i = map.index(x, y);
+        if (map.isMine(i) && !map.isOwnedBy(i, this.playerId)) {
           this.memory.knownMines.push({ x, y });
         }
       }
@@ -173,7 +223,7 @@ export class BotAI {
     this.memory.threatLevel = 0;
     const allSquads = this.match.getSquads();
     for (const [, squad] of allSquads) {
-      if (squad.ownerId === this.playerId) continue;
+      if (!this.match.isHostile(this.playerId, squad.ownerId)) continue;
       const dist = Math.sqrt(distanceSq(squad.x, squad.y, player.capitalX, player.capitalY));
       if (dist < 15) {
         this.memory.threatLevel += squad.units.length * (15 - dist) / 15;
@@ -196,7 +246,11 @@ export class BotAI {
     }
 
     // Have enough units and gold → attack
-    if (totalUnits >= 12 && player.gold > 200 && tick - this.memory.lastAttackTick > MATCH_CONFIG.TICK_RATE * 30) {
+    if (
+      totalUnits >= this.profile.attackArmySize &&
+      player.gold > 200 &&
+      tick - this.memory.lastAttackTick > MATCH_CONFIG.TICK_RATE * this.profile.attackCooldown
+    ) {
       this.memory.state = BotState.Attacking;
       return;
     }
@@ -227,7 +281,7 @@ export class BotAI {
   // Behavior Execution
   // ============================================================
 
-  private executeDefend(commands: GameCommand[], player: Player, map: { width: number; height: number; tiles: Tile[][] }, mySquads: Squad[]): void {
+  private executeDefend(commands: GameCommand[], player: Player, map: TileGrid, mySquads: Squad[]): void {
     // Move all idle squads toward capital
     for (const squad of mySquads) {
       if (squad.path.length > 0) continue; // Already moving
@@ -236,20 +290,20 @@ export class BotAI {
       const dist = Math.sqrt(distanceSq(squad.x, squad.y, player.capitalX, player.capitalY));
       if (dist > 5) {
         commands.push({
-          type: CommandType.MoveSquad,
+          type: CommandType.AttackMove,
           squadId: squad.id,
-          targetX: player.capitalX + Math.round((Math.random() - 0.5) * 4),
-          targetY: player.capitalY + Math.round((Math.random() - 0.5) * 4),
+          targetX: player.capitalX + Math.round((this.rng.next() - 0.5) * 4),
+          targetY: player.capitalY + Math.round((this.rng.next() - 0.5) * 4),
         });
       }
     }
 
     // Build towers near capital if we can afford them
-    if (player.gold >= BUILDING_COSTS[StructureType.Tower].gold) {
+    if (player.gold >= this.rules.buildingCosts[StructureType.Tower].gold) {
       const positions = this.findBuildPositionsNear(map, player.capitalX, player.capitalY, 4);
       for (const pos of positions) {
-        const tile = map.tiles[pos.y][pos.x];
-        if (tile.ownerId === this.playerId && !tile.structureType && tile.connected) {
+        const i = map.index(pos.x, pos.y);
+        if (map.isOwnedBy(i, this.playerId) && !map.getStructure(i) && map.isConnected(i)) {
           commands.push({
             type: CommandType.BuildStructure,
             structureType: StructureType.Tower,
@@ -262,7 +316,7 @@ export class BotAI {
     }
   }
 
-  private executeAttack(commands: GameCommand[], player: Player, map: { width: number; height: number; tiles: Tile[][] }, mySquads: Squad[]): void {
+  private executeAttack(commands: GameCommand[], player: Player, map: TileGrid, mySquads: Squad[]): void {
     this.memory.lastAttackTick = this.match.getTick();
 
     // Find weakest enemy neighbor
@@ -279,51 +333,48 @@ export class BotAI {
       if (squad.units.length < 2) continue; // Don't send tiny squads
 
       commands.push({
-        type: CommandType.MoveSquad,
+        type: CommandType.AttackMove,
         squadId: squad.id,
-        targetX: target.capitalX + Math.round((Math.random() - 0.5) * 6),
-        targetY: target.capitalY + Math.round((Math.random() - 0.5) * 6),
+        targetX: target.capitalX + Math.round((this.rng.next() - 0.5) * 6),
+        targetY: target.capitalY + Math.round((this.rng.next() - 0.5) * 6),
       });
     }
   }
 
-  private executeBuild(commands: GameCommand[], player: Player, map: { width: number; height: number; tiles: Tile[][] }): void {
+  private executeBuild(commands: GameCommand[], player: Player, map: TileGrid): void {
     const tick = this.match.getTick();
     if (tick - this.memory.lastBuildTick < MATCH_CONFIG.TICK_RATE * 3) return;
     this.memory.lastBuildTick = tick;
 
     // Priority 1: Upgrade owned mines
-    if (player.gold >= BUILDING_COSTS[StructureType.MineUpgrade].gold) {
-      for (let y = 0; y < map.height; y++) {
-        for (let x = 0; x < map.width; x++) {
-          const tile = map.tiles[y][x];
-          if (
-            tile.terrain === TerrainType.Mine &&
-            tile.ownerId === this.playerId &&
-            tile.connected &&
-            tile.mineLevel < 2
-          ) {
-            commands.push({
-              type: CommandType.BuildStructure,
-              structureType: StructureType.MineUpgrade,
-              x,
-              y,
-            });
-            return;
-          }
+    if (player.gold >= this.rules.buildingCosts[StructureType.MineUpgrade].gold) {
+      for (const i of map.mines) {
+        if (
+          map.isOwnedBy(i, this.playerId) &&
+          map.isConnected(i) &&
+          map.isComplete(i) &&
+          map.mineLevel[i] < 2
+        ) {
+          commands.push({
+            type: CommandType.BuildStructure,
+            structureType: StructureType.MineUpgrade,
+            x: i % map.width,
+            y: Math.floor(i / map.width),
+          });
+          return;
         }
       }
     }
 
     // Priority 2: Build barracks near capital
-    if (player.gold >= BUILDING_COSTS[StructureType.Barracks].gold) {
+    if (player.gold >= this.rules.buildingCosts[StructureType.Barracks].gold) {
       const barracksCount = this.countStructures(map, StructureType.Barracks);
       if (barracksCount < 2) {
         const positions = this.findBuildPositionsNear(map, player.capitalX, player.capitalY, 5);
         for (const pos of positions) {
-          const tile = map.tiles[pos.y][pos.x];
-          if (tile.ownerId === this.playerId && !tile.structureType && tile.connected) {
-            if (tile.terrain === TerrainType.Plains) {
+          const i = map.index(pos.x, pos.y);
+          if (map.isOwnedBy(i, this.playerId) && !map.getStructure(i) && map.isConnected(i)) {
+            if (map.getTerrain(i) === TerrainType.Plains) {
               commands.push({
                 type: CommandType.BuildStructure,
                 structureType: StructureType.Barracks,
@@ -338,11 +389,11 @@ export class BotAI {
     }
 
     // Priority 3: Build walls on border tiles
-    if (player.gold >= BUILDING_COSTS[StructureType.Wall].gold * 3) {
+    if (player.gold >= this.rules.buildingCosts[StructureType.Wall].gold * 3) {
       const borderTiles = this.findBorderTiles(map, 3);
       for (const pos of borderTiles) {
-        const tile = map.tiles[pos.y][pos.x];
-        if (!tile.structureType && tile.connected && tile.terrain === TerrainType.Plains) {
+        const i = map.index(pos.x, pos.y);
+        if (!map.getStructure(i) && map.isConnected(i) && map.getTerrain(i) === TerrainType.Plains) {
           commands.push({
             type: CommandType.BuildStructure,
             structureType: StructureType.Wall,
@@ -355,7 +406,7 @@ export class BotAI {
     }
   }
 
-  private executeTrain(commands: GameCommand[], player: Player, map: { width: number; height: number; tiles: Tile[][] }): void {
+  private executeTrain(commands: GameCommand[], player: Player, map: TileGrid): void {
     const tick = this.match.getTick();
     if (tick - this.memory.lastTrainTick < MATCH_CONFIG.TICK_RATE * 2) return;
     this.memory.lastTrainTick = tick;
@@ -363,7 +414,7 @@ export class BotAI {
     this.trainUnitsAtBuildings(commands, player, map);
   }
 
-  private executeExpand(commands: GameCommand[], player: Player, map: { width: number; height: number; tiles: Tile[][] }, mySquads: Squad[]): void {
+  private executeExpand(commands: GameCommand[], player: Player, map: TileGrid, mySquads: Squad[]): void {
     // Send idle squads toward nearest uncaptured mine
     if (this.memory.knownMines.length > 0) {
       const targetMine = this.memory.knownMines[0];
@@ -373,7 +424,7 @@ export class BotAI {
         if (squad.units.length === 0) continue;
 
         commands.push({
-          type: CommandType.MoveSquad,
+          type: CommandType.AttackMove,
           squadId: squad.id,
           targetX: targetMine.x,
           targetY: targetMine.y,
@@ -383,10 +434,10 @@ export class BotAI {
     } else {
       // No known mines — expand in a random direction
       const expandX = Math.round(
-        player.capitalX + this.memory.expandDirection.dx * (10 + Math.random() * 15)
+        player.capitalX + this.memory.expandDirection.dx * (10 + this.rng.next() * 15)
       );
       const expandY = Math.round(
-        player.capitalY + this.memory.expandDirection.dy * (10 + Math.random() * 15)
+        player.capitalY + this.memory.expandDirection.dy * (10 + this.rng.next() * 15)
       );
 
       const clampedX = Math.max(5, Math.min(map.width - 5, expandX));
@@ -397,7 +448,7 @@ export class BotAI {
         if (squad.units.length === 0) continue;
 
         commands.push({
-          type: CommandType.MoveSquad,
+          type: CommandType.AttackMove,
           squadId: squad.id,
           targetX: clampedX,
           targetY: clampedY,
@@ -406,7 +457,7 @@ export class BotAI {
       }
 
       // Rotate expand direction slightly
-      const rotAngle = (Math.random() - 0.5) * 0.8;
+      const rotAngle = (this.rng.next() - 0.5) * 0.8;
       const cos = Math.cos(rotAngle);
       const sin = Math.sin(rotAngle);
       const ndx = this.memory.expandDirection.dx * cos - this.memory.expandDirection.dy * sin;
@@ -420,26 +471,40 @@ export class BotAI {
   // Opportunistic Actions (always run)
   // ============================================================
 
-  private opportunisticTrain(commands: GameCommand[], player: Player, map: { width: number; height: number; tiles: Tile[][] }): void {
+  private opportunisticTrain(commands: GameCommand[], player: Player, map: TileGrid): void {
     // Only train if we have enough gold
-    const cheapestUnit = UNIT_STATS[UnitType.Militia].cost;
+    const cheapestUnit = this.rules.units[UnitType.Militia].cost;
     if (player.gold < cheapestUnit) return;
 
     this.trainUnitsAtBuildings(commands, player, map);
   }
 
-  private opportunisticBuild(commands: GameCommand[], player: Player, map: { width: number; height: number; tiles: Tile[][] }): void {
+  private opportunisticBuild(commands: GameCommand[], player: Player, map: TileGrid): void {
+    // Anchor a distant mine with a depot, keeping some gold in reserve
+    if (player.gold >= this.rules.buildingCosts[StructureType.Depot].gold * 2) {
+      const site = this.findDepotSite(player, map);
+      if (site) {
+        commands.push({
+          type: CommandType.BuildStructure,
+          structureType: StructureType.Depot,
+          x: site.x,
+          y: site.y,
+        });
+        return;
+      }
+    }
+
     // Build roads between capital and mines if we have spare gold
-    if (player.gold > 500 && Math.random() < 0.3) {
+    if (player.gold > 500 && this.rng.next() < 0.3) {
       // Find a random owned tile without a road near capital
       const positions = this.findBuildPositionsNear(map, player.capitalX, player.capitalY, 8);
       for (const pos of positions) {
-        const tile = map.tiles[pos.y][pos.x];
+        const i = map.index(pos.x, pos.y);
         if (
-          tile.ownerId === this.playerId &&
-          !tile.structureType &&
-          tile.connected &&
-          tile.terrain === TerrainType.Plains
+          map.isOwnedBy(i, this.playerId) &&
+          !map.getStructure(i) &&
+          map.isConnected(i) &&
+          map.getTerrain(i) === TerrainType.Plains
         ) {
           commands.push({
             type: CommandType.BuildStructure,
@@ -453,23 +518,133 @@ export class BotAI {
     }
   }
 
+  private opportunisticResearch(commands: GameCommand[], player: Player): void {
+    if (player.gold < 400) return;
+
+    const research = this.match.getResearch(this.playerId);
+    if (research.current) return;
+
+    const available = Object.values(TechId).filter(id => {
+      const tech = this.rules.techs[id];
+      return (
+        !research.completed.includes(id) &&
+        tech.requires.every(req => research.completed.includes(req)) &&
+        tech.cost <= player.gold - 200 // keep enough back to train
+      );
+    });
+    if (available.length === 0) return;
+
+    commands.push({
+      type: CommandType.Research,
+      techId: available[this.rng.int(available.length)],
+    });
+  }
+
+  /**
+   * Repair the most damaged of our castle and towers, one at a time.
+   * Repeating the order would stop it, so structures already under
+   * repair are left alone.
+   */
+  private repairDefenses(commands: GameCommand[], player: Player, map: TileGrid): void {
+    if (player.gold < 150) return;
+    if (this.match.getRepairs(this.playerId).length > 0) return;
+
+    let worst = -1;
+    let worstCondition = 0.8; // ignore scratches
+    for (const i of [map.index(player.capitalX, player.capitalY), ...map.towers]) {
+      const structureType = map.getStructure(i);
+      if (!structureType || !map.isOwnedBy(i, this.playerId)) continue;
+      if (!map.isComplete(i) || !map.isConnected(i)) continue;
+
+      const condition = map.structureHp[i] / this.rules.buildingHp[structureType];
+      if (condition < worstCondition) {
+        worst = i;
+        worstCondition = condition;
+      }
+    }
+    if (worst < 0) return;
+
+    const x = worst % map.width;
+    commands.push({
+      type: CommandType.RepairStructure,
+      x,
+      y: (worst - x) / map.width,
+    });
+  }
+
+  /**
+   * Retreat squads suffering attrition once they are down to half strength.
+   */
+  private withdrawStarving(commands: GameCommand[], mySquads: Squad[]): void {
+    for (const squad of mySquads) {
+      if (squad.order === SquadOrder.Retreat) continue;
+      if (squad.supply !== SupplyStatus.Unsupplied || squad.unsuppliedFor <= this.rules.supply.attritionGrace) continue;
+
+      let hp = 0;
+      let maxHp = 0;
+      for (const unit of squad.units) {
+        hp += unit.hp;
+        maxHp += unit.maxHp;
+      }
+      if (hp > maxHp / 2) continue;
+
+      commands.push({
+        type: CommandType.Retreat,
+        squadId: squad.id,
+      });
+    }
+  }
+
+  /**
+   * Decide once on each pact offered to us. Bots make peace with players
+   * at least nearly their size, sometimes with smaller ones, and only ally
+   * with players they already trust or who outgrow them. They never make
+   * peace with the player they are attacking.
+   */
+  private respondToProposals(commands: GameCommand[], player: Player): void {
+    const offers = this.match.getDiplomacy(this.playerId).proposals.filter(p => p.toId === this.playerId);
+    const open = new Set(offers.map(p => `${p.fromId}|${p.pact}`));
+    for (const key of this.memory.answeredProposals) {
+      if (!open.has(key)) this.memory.answeredProposals.delete(key);
+    }
+
+    for (const offer of offers) {
+      const key = `${offer.fromId}|${offer.pact}`;
+      if (this.memory.answeredProposals.has(key)) continue;
+      this.memory.answeredProposals.add(key);
+
+      const proposer = this.match.getPlayer(offer.fromId);
+      if (!proposer || offer.fromId === this.memory.targetPlayerId) continue;
+
+      let accept: boolean;
+      if (offer.pact === DiplomaticStatus.Alliance) {
+        const trusted = !this.match.isHostile(this.playerId, offer.fromId);
+        accept = trusted || proposer.territoryCount > player.territoryCount;
+      } else {
+        accept = proposer.territoryCount >= player.territoryCount * 0.75 || this.rng.next() < 0.5;
+      }
+
+      if (accept) {
+        commands.push({
+          type: CommandType.AcceptPact,
+          fromPlayerId: offer.fromId,
+        });
+      }
+    }
+  }
+
   // ============================================================
   // Helper Methods
   // ============================================================
 
-  private trainUnitsAtBuildings(commands: GameCommand[], player: Player, map: { width: number; height: number; tiles: Tile[][] }): void {
+  private trainUnitsAtBuildings(commands: GameCommand[], player: Player, map: TileGrid): void {
     // Find production buildings
     const buildings: Array<{ x: number; y: number; type: StructureType }> = [];
 
-    for (let y = 0; y < map.height; y++) {
-      for (let x = 0; x < map.width; x++) {
-        const tile = map.tiles[y][x];
-        if (tile.ownerId !== this.playerId) continue;
-        if (!tile.connected) continue;
-        if (tile.structureType === StructureType.Castle || tile.structureType === StructureType.Barracks) {
-          buildings.push({ x, y, type: tile.structureType });
-        }
-      }
+    for (const i of map.productionBuildings) {
+      if (!map.isOwnedBy(i, this.playerId)) continue;
+      if (!map.isConnected(i) || !map.isComplete(i)) continue;
+      buildings.push({ x: i % map.width, y: Math.floor(i / map.width), type: map.getStructure(i)! });
     }
 
     for (const building of buildings) {
@@ -480,23 +655,23 @@ export class BotAI {
       let unitType = UnitType.Militia;
       const gold = player.gold;
 
-      if (gold > 200 && Math.random() < 0.4) {
+      if (gold > 200 && this.rng.next() < 0.4) {
         unitType = UnitType.Soldier;
       }
-      if (gold > 300 && Math.random() < 0.25) {
+      if (gold > 300 && this.rng.next() < 0.25) {
         unitType = UnitType.Archer;
       }
-      if (gold > 400 && Math.random() < 0.15) {
+      if (gold > 400 && this.rng.next() < 0.15) {
         unitType = UnitType.Knight;
       }
-      if (gold > 500 && this.memory.state === BotState.Attacking && Math.random() < 0.1) {
+      if (gold > 500 && this.memory.state === BotState.Attacking && this.rng.next() < 0.1) {
         unitType = UnitType.SiegeRam;
       }
 
-      const cost = UNIT_STATS[unitType].cost;
+      const cost = this.rules.units[unitType].cost;
       if (player.gold < cost) {
         unitType = UnitType.Militia;
-        if (player.gold < UNIT_STATS[UnitType.Militia].cost) continue;
+        if (player.gold < this.rules.units[UnitType.Militia].cost) continue;
       }
 
       commands.push({
@@ -511,14 +686,14 @@ export class BotAI {
     }
   }
 
-  private findWeakestNeighbor(player: Player, map: { width: number; height: number; tiles: Tile[][] }): Player | null {
+  private findWeakestNeighbor(player: Player, map: TileGrid): Player | null {
     const players = this.match.getPlayers();
     let weakest: Player | null = null;
     let weakestScore = Infinity;
 
     for (const [pid, p] of players) {
-      if (pid === this.playerId) continue;
       if (!p.alive) continue;
+      if (!this.match.isHostile(this.playerId, pid)) continue; // ourselves and pact partners
 
       // Check if this player is a neighbor (shares border)
       const dist = Math.sqrt(distanceSq(player.capitalX, player.capitalY, p.capitalX, p.capitalY));
@@ -535,8 +710,47 @@ export class BotAI {
     return weakest;
   }
 
+  /**
+   * A free tile beside an owned mine that lies well beyond the capital's
+   * surroundings and isn't covered by one of our depots yet.
+   */
+  private findDepotSite(player: Player, map: TileGrid): { x: number; y: number } | null {
+    const { depotRadius } = this.rules.supply;
+    const radiusSq = depotRadius * depotRadius;
+
+    for (const i of map.mines) {
+      if (!map.isOwnedBy(i, this.playerId) || !map.isConnected(i)) continue;
+      const mx = i % map.width;
+      const my = Math.floor(i / map.width);
+      if (distanceSq(mx, my, player.capitalX, player.capitalY) < radiusSq * 4) continue;
+
+      let covered = false;
+      for (const d of map.depots) {
+        if (!map.isOwnedBy(d, this.playerId)) continue;
+        if (distanceSq(mx, my, d % map.width, Math.floor(d / map.width)) <= radiusSq) {
+          covered = true;
+          break;
+        }
+      }
+      if (covered) continue;
+
+      for (const pos of this.findBuildPositionsNear(map, mx, my, 2)) {
+        const j = map.index(pos.x, pos.y);
+        if (
+          map.isOwnedBy(j, this.playerId) &&
+          !map.getStructure(j) &&
+          map.isConnected(j) &&
+          map.getTerrain(j) === TerrainType.Plains
+        ) {
+          return pos;
+        }
+      }
+    }
+    return null;
+  }
+
   private findBuildPositionsNear(
-    map: { width: number; height: number; tiles: Tile[][] },
+    map: TileGrid,
     cx: number,
     cy: number,
     radius: number
@@ -547,7 +761,7 @@ export class BotAI {
       for (let dx = -radius; dx <= radius; dx++) {
         const x = cx + dx;
         const y = cy + dy;
-        if (x < 0 || y < 0 || x >= map.width || y >= map.height) continue;
+        if (!map.inBounds(x, y)) continue;
 
         const dist = dx * dx + dy * dy;
         if (dist > radius * radius) continue;
@@ -561,7 +775,7 @@ export class BotAI {
     return positions.map(p => ({ x: p.x, y: p.y }));
   }
 
-  private findBorderTiles(map: { width: number; height: number; tiles: Tile[][] }, maxCount: number): Array<{ x: number; y: number }> {
+  private findBorderTiles(map: TileGrid, maxCount: number): Array<{ x: number; y: number }> {
     const borders: Array<{ x: number; y: number }> = [];
     const directions = [
       { dx: -1, dy: 0 },
@@ -572,16 +786,15 @@ export class BotAI {
 
     for (let y = 0; y < map.height && borders.length < maxCount * 3; y++) {
       for (let x = 0; x < map.width && borders.length < maxCount * 3; x++) {
-        const tile = map.tiles[y][x];
-        if (tile.ownerId !== this.playerId) continue;
+        if (!map.isOwnedBy(map.index(x, y), this.playerId)) continue;
 
         // Check if it's a border tile (adjacent to non-owned tile)
         let isBorder = false;
         for (const dir of directions) {
           const nx = x + dir.dx;
           const ny = y + dir.dy;
-          if (nx < 0 || ny < 0 || nx >= map.width || ny >= map.height) continue;
-          if (map.tiles[ny][nx].ownerId !== this.playerId) {
+          if (!map.inBounds(nx, ny)) continue;
+          if (!map.isOwnedBy(map.index(nx, ny), this.playerId)) {
             isBorder = true;
             break;
           }
@@ -595,22 +808,19 @@ export class BotAI {
 
     // Shuffle and take maxCount
     for (let i = borders.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = this.rng.int(i + 1);
       [borders[i], borders[j]] = [borders[j], borders[i]];
     }
 
     return borders.slice(0, maxCount);
   }
 
-  private countStructures(map: { width: number; height: number; tiles: Tile[][] }, structureType: StructureType): number {
+  private countStructures(map: TileGrid, structureType: StructureType): number {
+    const code = structureCode(structureType);
+    const slot = map.slotOf(this.playerId);
     let count = 0;
-    for (let y = 0; y < map.height; y++) {
-      for (let x = 0; x < map.width; x++) {
-        const tile = map.tiles[y][x];
-        if (tile.ownerId === this.playerId && tile.structureType === structureType) {
-          count++;
-        }
-      }
+    for (let i = 0; i < map.size; i++) {
+      if (map.structure[i] === code && map.owner[i] === slot) count++;
     }
     return count;
   }
@@ -0,0 +1,41 @@
+// ============================================================
+// Fractured Crowns — Simulation Clock
+// Injectable time source so matches can run on wall-clock time
+// or be stepped manually (tests, replays, headless simulation)
+// ============================================================
+
+export interface Clock {
+  /** Current time in milliseconds. */
+  now(): number;
+}
+
+/**
+ * Wall-clock time. Used by live matches.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * A clock that only moves when told to. Pair it with a match created with
+ * `autoTick: false` and call `advance()` before each `Match.step()`.
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+
+  set(time: number): void {
+    this.time = time;
+  }
+}
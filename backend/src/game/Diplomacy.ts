@@ -0,0 +1,197 @@
+// ============================================================
+// Fractured Crowns — Diplomacy
+// Pacts between pairs of players: proposals, acceptance and
+// betrayal. Every pair is at war until both sides agree otherwise.
+// Also paces gold transfers between players
+// ============================================================
+
+import { PlayerId, DiplomaticStatus, DiplomacyState, MatchRules, MATCH_CONFIG } from '../types/game';
+import { DEFAULT_RULES } from './MatchRules';
+
+interface PendingProposal {
+  pact: DiplomaticStatus;
+  expiresAt: number; // tick
+}
+
+export type ProposalResult = 'proposed' | 'formed';
+
+export class Diplomacy {
+  // Symmetric: a pact is stored under both players; war is never stored
+  private relations: Map<PlayerId, Map<PlayerId, DiplomaticStatus>> = new Map();
+  private proposals: Map<PlayerId, Map<PlayerId, PendingProposal>> = new Map(); // from -> to
+  private cooldowns: Map<PlayerId, Map<PlayerId, number>> = new Map(); // breaker -> other -> tick it ends
+  private nextTribute: Map<PlayerId, number> = new Map(); // sender -> tick it may send again
+
+  constructor(private rules: MatchRules = DEFAULT_RULES) {}
+
+  relation(a: PlayerId, b: PlayerId): DiplomaticStatus {
+    if (a === b) return DiplomaticStatus.Alliance;
+    return this.relations.get(a)?.get(b) ?? DiplomaticStatus.War;
+  }
+
+  isHostile(a: PlayerId, b: PlayerId): boolean {
+    return this.relation(a, b) === DiplomaticStatus.War;
+  }
+
+  isAllied(a: PlayerId, b: PlayerId): boolean {
+    return this.relation(a, b) === DiplomaticStatus.Alliance;
+  }
+
+  /**
+   * Players `playerId` has the given pact with.
+   */
+  partners(playerId: PlayerId, pact: DiplomaticStatus): PlayerId[] {
+    const partners: PlayerId[] = [];
+    for (const [other, status] of this.relations.get(playerId) ?? []) {
+      if (status === pact) partners.push(other);
+    }
+    return partners;
+  }
+
+  /**
+   * Offer a pact, replacing any earlier offer to the same player. If the
+   * other side already offered the same pact, it is formed at once.
+   * Returns null when the offer isn't allowed.
+   */
+  propose(fromId: PlayerId, toId: PlayerId, pact: DiplomaticStatus, tick: number): ProposalResult | null {
+    if (fromId === toId || pact === DiplomaticStatus.War) return null;
+    if (this.relation(fromId, toId) === pact) return null;
+    if (this.cooldownRemaining(fromId, toId, tick) > 0) return null;
+
+    const counter = this.proposals.get(toId)?.get(fromId);
+    if (counter && counter.pact === pact && counter.expiresAt > tick) {
+      this.seal(fromId, toId, pact);
+      return 'formed';
+    }
+
+    nested(this.proposals, fromId).set(toId, {
+      pact,
+      expiresAt: tick + this.rules.pactProposalTimeout * MATCH_CONFIG.TICK_RATE,
+    });
+    return 'proposed';
+  }
+
+  /**
+   * Accept the open offer from `fromId`. Returns the pact formed, or null
+   * if there was no such offer.
+   */
+  accept(toId: PlayerId, fromId: PlayerId, tick: number): DiplomaticStatus | null {
+    const proposal = this.proposals.get(fromId)?.get(toId);
+    if (!proposal || proposal.expiresAt <= tick) return null;
+
+    this.seal(fromId, toId, proposal.pact);
+    return proposal.pact;
+  }
+
+  /**
+   * End the pact between two players, returning to war. The breaker can't
+   * propose to the other player until betrayalCooldown has passed.
+   */
+  breakPact(breakerId: PlayerId, otherId: PlayerId, tick: number): DiplomaticStatus | null {
+    const status = this.relations.get(breakerId)?.get(otherId);
+    if (!status) return null;
+
+    this.relations.get(breakerId)!.delete(otherId);
+    this.relations.get(otherId)?.delete(breakerId);
+    this.clearProposals(breakerId, otherId);
+    nested(this.cooldowns, breakerId).set(otherId, tick + this.rules.betrayalCooldown * MATCH_CONFIG.TICK_RATE);
+    return status;
+  }
+
+  /**
+   * Ally two players outright, as teammates are.
+   */
+  formAlliance(a: PlayerId, b: PlayerId): void {
+    this.seal(a, b, DiplomaticStatus.Alliance);
+  }
+
+  cooldownRemaining(breakerId: PlayerId, otherId: PlayerId, tick: number): number {
+    const until = this.cooldowns.get(breakerId)?.get(otherId) ?? 0;
+    return Math.max(0, (until - tick) / MATCH_CONFIG.TICK_RATE);
+  }
+
+  tributeCooldown(playerId: PlayerId, tick: number): number {
+    const until = this.nextTribute.get(playerId) ?? 0;
+    return Math.max(0, (until - tick) / MATCH_CONFIG.TICK_RATE);
+  }
+
+  /**
+   * Note a gold transfer; the sender can't send again until
+   * economy.tributeInterval has passed.
+   */
+  recordTribute(playerId: PlayerId, tick: number): void {
+    this.nextTribute.set(playerId, tick + this.rules.economy.tributeInterval * MATCH_CONFIG.TICK_RATE);
+  }
+
+  /**
+   * Drop expired proposals and cooldowns.
+   */
+  expire(tick: number): void {
+    for (const offers of this.proposals.values()) {
+      for (const [toId, proposal] of offers) {
+        if (proposal.expiresAt <= tick) offers.delete(toId);
+      }
+    }
+    for (const ends of this.cooldowns.values()) {
+      for (const [otherId, until] of ends) {
+        if (until <= tick) ends.delete(otherId);
+      }
+    }
+    for (const [playerId, until] of this.nextTribute) {
+      if (until <= tick) this.nextTribute.delete(playerId);
+    }
+  }
+
+  /**
+   * Forget an eliminated player.
+   */
+  removePlayer(playerId: PlayerId): void {
+    for (const map of [this.relations, this.proposals, this.cooldowns]) {
+      map.delete(playerId);
+      for (const inner of map.values()) inner.delete(playerId);
+    }
+    this.nextTribute.delete(playerId);
+  }
+
+  stateFor(playerId: PlayerId, tick: number): DiplomacyState {
+    const state: DiplomacyState = {
+      proposals: [],
+      cooldowns: [],
+      tributeCooldown: Math.ceil(this.tributeCooldown(playerId, tick)),
+    };
+    const expiresIn = (proposal: PendingProposal) => Math.ceil((proposal.expiresAt - tick) / MATCH_CONFIG.TICK_RATE);
+
+    for (const [fromId, offers] of this.proposals) {
+      for (const [toId, proposal] of offers) {
+        if (fromId !== playerId && toId !== playerId) continue;
+        if (proposal.expiresAt <= tick) continue;
+        state.proposals.push({ fromId, toId, pact: proposal.pact, expiresIn: expiresIn(proposal) });
+      }
+    }
+    for (const otherId of this.cooldowns.get(playerId)?.keys() ?? []) {
+      const remaining = Math.ceil(this.cooldownRemaining(playerId, otherId, tick));
+      if (remaining > 0) state.cooldowns.push({ playerId: otherId, remaining });
+    }
+    return state;
+  }
+
+  private seal(a: PlayerId, b: PlayerId, pact: DiplomaticStatus): void {
+    nested(this.relations, a).set(b, pact);
+    nested(this.relations, b).set(a, pact);
+    this.clearProposals(a, b);
+  }
+
+  private clearProposals(a: PlayerId, b: PlayerId): void {
+    this.proposals.get(a)?.delete(b);
+    this.proposals.get(b)?.delete(a);
+  }
+}
+
+function nested<V>(map: Map<PlayerId, Map<PlayerId, V>>, key: PlayerId): Map<PlayerId, V> {
+  let inner = map.get(key);
+  if (!inner) {
+    inner = new Map();
+    map.set(key, inner);
+  }
+  return inner;
+}
@@ -10,9 +10,9 @@ import {
   MatchPhase,
   GameStateSnapshot,
   MatchResult,
-  MATCH_CONFIG,
 } from '../types/game';
-import { Match, MatchCallbacks } from './Match';
+import { Match, MatchCallbacks, MatchOptions } from './Match';
+import { ReplayStore } from '../replay/ReplayStore';
 
 export interface GameManagerCallbacks {
   onStateUpdate: (playerId: PlayerId, snapshot: GameStateSnapshot) => void;
@@ -29,6 +29,7 @@ export class GameManager {
   private matches: Map<MatchId, Match> = new Map();
   private playerToMatch: Map<PlayerId, PlayerMatchMapping> = new Map();
   private callbacks: GameManagerCallbacks;
+  private replayStore: ReplayStore = new ReplayStore();
 
   // Stats
   private totalMatchesCreated: number = 0;
@@ -36,6 +37,7 @@ export class GameManager {
 
   constructor(callbacks: GameManagerCallbacks) {
     this.callbacks = callbacks;
+    this.replayStore.init();
 
     // Periodic cleanup of stale matches
     setInterval(() => this.cleanupStaleMatches(), 60_000);
@@ -50,9 +52,10 @@ export class GameManager {
    * Missing slots are filled with bots.
    */
   createMatch(
-    players: Array<{ id: PlayerId; username: string }>,
+    players: Array<{ id: PlayerId; username: string; team?: number | null }>,
     fillBots: boolean = true,
-    targetPlayerCount: number = MATCH_CONFIG.MAX_PLAYERS
+    targetPlayerCount?: number, // defaults to the rules' player cap
+    options: MatchOptions = {}
   ): MatchId {
     const matchId = uuidv4();
 
@@ -68,11 +71,11 @@ export class GameManager {
       },
     };
 
-    const match = new Match(matchId, matchCallbacks);
+    const match = new Match(matchId, matchCallbacks, options);
 
     // Add human players
     for (const player of players) {
-      match.addPlayer(player.id, player.username);
+      match.addPlayer(player.id, player.username, player.team);
       this.playerToMatch.set(player.id, { matchId, playerId: player.id });
     }
 
@@ -86,7 +89,7 @@ export class GameManager {
 
     console.log(
       `[GameManager] Match ${matchId} created with ${players.length} humans, ` +
-      `${targetPlayerCount - players.length} bots. Total active: ${this.matches.size}`
+      `${match.getPlayers().size - players.length} bots (seed ${match.getSeed()}). Total active: ${this.matches.size}`
     );
 
     return matchId;
@@ -196,6 +199,13 @@ export class GameManager {
     this.callbacks.onMatchEnd(matchId, result);
     this.totalMatchesCompleted++;
 
+    const replay = this.matches.get(matchId)?.getReplay();
+    if (replay) {
+      this.replayStore.save(replay).catch(err => {
+        console.error(`[GameManager] Failed to save replay for match ${matchId}:`, err);
+      });
+    }
+
     // Schedule cleanup after a delay so clients can see the scoreboard
     setTimeout(() => {
       this.destroyMatch(matchId);
@@ -277,6 +287,13 @@ export class GameManager {
     return this.matches.get(matchId) ?? null;
   }
 
+  /**
+   * Recorded replays of finished matches.
+   */
+  getReplayStore(): ReplayStore {
+    return this.replayStore;
+  }
+
   /**
    * Check if a player is in an active match.
    */
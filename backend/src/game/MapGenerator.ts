@@ -3,23 +3,12 @@
 // ============================================================
 
 import {
-  GameMap,
-  Tile,
   TerrainType,
-  MATCH_CONFIG,
-  tileKey,
+  MatchRules,
 } from '../types/game';
-
-// Simple seeded PRNG (mulberry32)
-function mulberry32(seed: number): () => number {
-  return () => {
-    seed |= 0;
-    seed = (seed + 0x6d2b79f5) | 0;
-    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
+import { mulberry32, createSeed } from './Random';
+import { DEFAULT_RULES } from './MatchRules';
+import { TileGrid } from './TileGrid';
 
 // 2D value noise for terrain generation
 class ValueNoise {
@@ -98,20 +87,22 @@ class ValueNoise {
 export class MapGenerator {
   private rng: () => number;
 
-  constructor(private seed: number = Date.now()) {
+  constructor(
+    private seed: number = createSeed(),
+    private rules: MatchRules = DEFAULT_RULES
+  ) {
     this.rng = mulberry32(seed);
   }
 
-  generate(width: number = MATCH_CONFIG.MAP_WIDTH, height: number = MATCH_CONFIG.MAP_HEIGHT): GameMap {
+  generate(width: number = this.rules.mapWidth, height: number = this.rules.mapHeight): TileGrid {
     const terrainNoise = new ValueNoise(this.seed);
     const forestNoise = new ValueNoise(this.seed + 1337);
     const waterNoise = new ValueNoise(this.seed + 42069);
 
     // Initialize tiles
-    const tiles: Tile[][] = [];
+    const map = new TileGrid(width, height);
 
     for (let y = 0; y < height; y++) {
-      tiles[y] = [];
       for (let x = 0; x < width; x++) {
         const elevation = terrainNoise.fbm(x / 30, y / 30, 5, 2.0, 0.5);
         const forestValue = forestNoise.fbm(x / 20, y / 20, 3, 2.0, 0.6);
@@ -140,31 +131,21 @@ export class MapGenerator {
           terrain = TerrainType.Mountain;
         }
 
-        tiles[y][x] = {
-          x,
-          y,
-          terrain,
-          ownerId: null,
-          structureType: null,
-          structureHp: 0,
-          captureProgress: 0,
-          capturingPlayerId: null,
-          connected: false,
-          mineLevel: 0,
-        };
+        map.setTerrain(map.index(x, y), terrain);
       }
     }
 
     // Place mines strategically
-    this.placeMines(tiles, width, height);
+    this.placeMines(map);
 
     // Ensure connectivity by clearing isolated mountain clusters
-    this.ensureConnectivity(tiles, width, height);
+    this.ensureConnectivity(map);
 
-    return { width, height, tiles };
+    return map;
   }
 
-  private placeMines(tiles: Tile[][], width: number, height: number): void {
+  private placeMines(map: TileGrid): void {
+    const { width, height } = map;
     const mineCount = Math.floor((width * height) / 300); // ~48 mines for 120x120
     const mines: Array<{ x: number; y: number }> = [];
     const minMineDistance = 8;
@@ -180,7 +161,8 @@ export class MapGenerator {
       const y = borderPadding + Math.floor(this.rng() * (height - borderPadding * 2));
 
       // Must be on passable terrain
-      if (tiles[y][x].terrain === TerrainType.Mountain || tiles[y][x].terrain === TerrainType.Water) {
+      const terrain = map.getTerrain(map.index(x, y));
+      if (terrain === TerrainType.Mountain || terrain === TerrainType.Water) {
         continue;
       }
 
@@ -204,7 +186,8 @@ export class MapGenerator {
           const nx = x + dx;
           const ny = y + dy;
           if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-            if (tiles[ny][nx].terrain !== TerrainType.Mountain && tiles[ny][nx].terrain !== TerrainType.Water) {
+            const t = map.getTerrain(map.index(nx, ny));
+            if (t !== TerrainType.Mountain && t !== TerrainType.Water) {
               passableNeighbors++;
             }
           }
@@ -213,18 +196,18 @@ export class MapGenerator {
 
       if (passableNeighbors < 12) continue;
 
-      tiles[y][x].terrain = TerrainType.Mine;
-      tiles[y][x].mineLevel = 0;
+      map.setTerrain(map.index(x, y), TerrainType.Mine);
       mines.push({ x, y });
     }
   }
 
-  private ensureConnectivity(tiles: Tile[][], width: number, height: number): void {
+  private ensureConnectivity(map: TileGrid): void {
+    const { width, height } = map;
     // Break up large impassable clusters to ensure map is navigable
     // Use a pass to remove mountain tiles that create 3x3+ solid blocks
     for (let y = 1; y < height - 1; y++) {
       for (let x = 1; x < width - 1; x++) {
-        if (tiles[y][x].terrain !== TerrainType.Mountain) continue;
+        if (map.getTerrain(map.index(x, y)) !== TerrainType.Mountain) continue;
 
         // Don't modify border mountains
         const borderDist = Math.min(x, y, width - 1 - x, height - 1 - y);
@@ -241,7 +224,7 @@ export class MapGenerator {
           const nx = x + dx;
           const ny = y + dy;
           if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-            if (tiles[ny][nx].terrain === TerrainType.Mountain) {
+            if (map.getTerrain(map.index(nx, ny)) === TerrainType.Mountain) {
               mountainNeighbors++;
             }
           }
@@ -249,7 +232,7 @@ export class MapGenerator {
 
         // If fully surrounded by mountains, randomly clear some to create passes
         if (mountainNeighbors >= 7 && this.rng() < 0.3) {
-          tiles[y][x].terrain = TerrainType.Plains;
+          map.setTerrain(map.index(x, y), TerrainType.Plains);
         }
       }
     }
@@ -263,20 +246,16 @@ export class MapGenerator {
    * - Near at least one mine
    * - Have enough open space for initial expansion
    */
-  findSpawnLocations(map: GameMap, count: number): Array<{ x: number; y: number }> {
+  findSpawnLocations(map: TileGrid, count: number): Array<{ x: number; y: number }> {
     const spawns: Array<{ x: number; y: number }> = [];
-    const minDist = MATCH_CONFIG.MIN_SPAWN_DISTANCE;
+    const minDist = this.rules.minSpawnDistance;
     const padding = 12;
     const maxMineDistance = 15;
 
     // Collect mine positions for proximity checks
     const mines: Array<{ x: number; y: number }> = [];
-    for (let y = 0; y < map.height; y++) {
-      for (let x = 0; x < map.width; x++) {
-        if (map.tiles[y][x].terrain === TerrainType.Mine) {
-          mines.push({ x, y });
-        }
-      }
+    for (const i of map.mines) {
+      mines.push({ x: i % map.width, y: Math.floor(i / map.width) });
     }
 
     // Generate candidate positions scored by quality
@@ -284,8 +263,7 @@ export class MapGenerator {
 
     for (let y = padding; y < map.height - padding; y += 3) {
       for (let x = padding; x < map.width - padding; x += 3) {
-        const tile = map.tiles[y][x];
-        if (tile.terrain !== TerrainType.Plains) continue;
+        if (map.getTerrain(map.index(x, y)) !== TerrainType.Plains) continue;
 
         // Check open space around
         let openSpace = 0;
@@ -294,7 +272,7 @@ export class MapGenerator {
             const nx = x + dx;
             const ny = y + dy;
             if (nx >= 0 && nx < map.width && ny >= 0 && ny < map.height) {
-              const t = map.tiles[ny][nx].terrain;
+              const t = map.getTerrain(map.index(nx, ny));
               if (t === TerrainType.Plains || t === TerrainType.Forest) {
                 openSpace++;
               }
@@ -372,21 +350,21 @@ export class MapGenerator {
    * Check if a specific tile is a valid spawn location.
    */
   isValidSpawn(
-    map: GameMap,
+    map: TileGrid,
     x: number,
     y: number,
     existingSpawns: Array<{ x: number; y: number }>
   ): boolean {
     if (x < 5 || y < 5 || x >= map.width - 5 || y >= map.height - 5) return false;
 
-    const tile = map.tiles[y][x];
-    if (tile.terrain === TerrainType.Mountain || tile.terrain === TerrainType.Water) return false;
+    const terrain = map.getTerrain(map.index(x, y));
+    if (terrain === TerrainType.Mountain || terrain === TerrainType.Water) return false;
 
     // Check minimum distance from existing spawns
     for (const spawn of existingSpawns) {
       const dx = spawn.x - x;
       const dy = spawn.y - y;
-      if (dx * dx + dy * dy < MATCH_CONFIG.MIN_SPAWN_DISTANCE * MATCH_CONFIG.MIN_SPAWN_DISTANCE) {
+      if (dx * dx + dy * dy < this.rules.minSpawnDistance * this.rules.minSpawnDistance) {
         return false;
       }
     }
@@ -398,7 +376,7 @@ export class MapGenerator {
         const nx = x + dx;
         const ny = y + dy;
         if (nx >= 0 && nx < map.width && ny >= 0 && ny < map.height) {
-          const t = map.tiles[ny][nx].terrain;
+          const t = map.getTerrain(map.index(nx, ny));
           if (t !== TerrainType.Mountain && t !== TerrainType.Water) {
             openSpace++;
           }
@@ -408,176 +386,4 @@ export class MapGenerator {
 
     return openSpace >= 18;
   }
-
-  /**
-   * Get all passable neighbors of a tile (for pathfinding).
-   */
-  static getPassableNeighbors(map: GameMap, x: number, y: number): Array<{ x: number; y: number; cost: number }> {
-    const neighbors: Array<{ x: number; y: number; cost: number }> = [];
-    const directions = [
-      { dx: -1, dy: 0 },
-      { dx: 1, dy: 0 },
-      { dx: 0, dy: -1 },
-      { dx: 0, dy: 1 },
-    ];
-
-    for (const { dx, dy } of directions) {
-      const nx = x + dx;
-      const ny = y + dy;
-
-      if (nx < 0 || ny < 0 || nx >= map.width || ny >= map.height) continue;
-
-      const tile = map.tiles[ny][nx];
-      if (tile.terrain === TerrainType.Mountain) continue;
-
-      let cost = 1.0;
-      if (tile.terrain === TerrainType.Forest) cost = 1.5;
-      if (tile.terrain === TerrainType.Water) cost = 2.5;
-      if (tile.structureType === 'road' as any) cost = 0.6;
-
-      neighbors.push({ x: nx, y: ny, cost });
-    }
-
-    return neighbors;
-  }
-
-  /**
-   * A* pathfinding on the game map.
-   */
-  static findPath(
-    map: GameMap,
-    startX: number,
-    startY: number,
-    endX: number,
-    endY: number,
-    maxSteps: number = 500
-  ): Array<{ x: number; y: number }> | null {
-    if (startX === endX && startY === endY) return [];
-
-    const endTile = map.tiles[endY]?.[endX];
-    if (!endTile || endTile.terrain === TerrainType.Mountain) return null;
-
-    const openSet = new MinHeap<{ x: number; y: number; f: number; g: number }>(
-      (a, b) => a.f - b.f
-    );
-    const cameFrom = new Map<string, string>();
-    const gScore = new Map<string, number>();
-
-    const startKey = tileKey(startX, startY);
-    const endKey = tileKey(endX, endY);
-
-    gScore.set(startKey, 0);
-    const h = Math.abs(endX - startX) + Math.abs(endY - startY);
-    openSet.push({ x: startX, y: startY, f: h, g: 0 });
-
-    const visited = new Set<string>();
-    let steps = 0;
-
-    while (openSet.size > 0 && steps < maxSteps) {
-      steps++;
-      const current = openSet.pop()!;
-      const currentKey = tileKey(current.x, current.y);
-
-      if (currentKey === endKey) {
-        // Reconstruct path
-        const path: Array<{ x: number; y: number }> = [];
-        let key = endKey;
-        while (key !== startKey) {
-          const { x, y } = parseTileKeyLocal(key);
-          path.unshift({ x, y });
-          key = cameFrom.get(key)!;
-        }
-        return path;
-      }
-
-      if (visited.has(currentKey)) continue;
-      visited.add(currentKey);
-
-      const neighbors = MapGenerator.getPassableNeighbors(map, current.x, current.y);
-      for (const neighbor of neighbors) {
-        const neighborKey = tileKey(neighbor.x, neighbor.y);
-        if (visited.has(neighborKey)) continue;
-
-        const tentativeG = current.g + neighbor.cost;
-        const existingG = gScore.get(neighborKey) ?? Infinity;
-
-        if (tentativeG < existingG) {
-          cameFrom.set(neighborKey, currentKey);
-          gScore.set(neighborKey, tentativeG);
-          const fScore = tentativeG + Math.abs(endX - neighbor.x) + Math.abs(endY - neighbor.y);
-          openSet.push({ x: neighbor.x, y: neighbor.y, f: fScore, g: tentativeG });
-        }
-      }
-    }
-
-    return null; // No path found
-  }
-}
-
-// Local helper
-function parseTileKeyLocal(key: string): { x: number; y: number } {
-  const [x, y] = key.split(',').map(Number);
-  return { x, y };
-}
-
-// Min-heap implementation for A*
-class MinHeap<T> {
-  private data: T[] = [];
-
-  constructor(private comparator: (a: T, b: T) => number) {}
-
-  get size(): number {
-    return this.data.length;
-  }
-
-  push(item: T): void {
-    this.data.push(item);
-    this.bubbleUp(this.data.length - 1);
-  }
-
-  pop(): T | undefined {
-    if (this.data.length === 0) return undefined;
-    const top = this.data[0];
-    const last = this.data.pop()!;
-    if (this.data.length > 0) {
-      this.data[0] = last;
-      this.sinkDown(0);
-    }
-    return top;
-  }
-
-  private bubbleUp(i: number): void {
-    while (i > 0) {
-      const parent = (i - 1) >> 1;
-      if (this.comparator(this.data[i], this.data[parent]) < 0) {
-        [this.data[i], this.data[parent]] = [this.data[parent], this.data[i]];
-        i = parent;
-      } else {
-        break;
-      }
-    }
-  }
-
-  private sinkDown(i: number): void {
-    const length = this.data.length;
-    while (true) {
-      let smallest = i;
-      const left = 2 * i + 1;
-      const right = 2 * i + 2;
-
-      if (left < length && this.comparator(this.data[left], this.data[smallest]) < 0) {
-        smallest = left;
-      }
-      if (right < length && this.comparator(this.data[right], this.data[smallest]) < 0) {
-        smallest = right;
-      }
-
-      if (smallest !== i) {
-        [this.data[i], this.data[smallest]] = [this.data[smallest], this.data[i]];
-        i = smallest;
-      } else {
-        break;
-      }
-    }
-  }
 }
@@ -3,7 +3,6 @@
 // Core authoritative game simulation
 // ============================================================
 
-import { v4 as uuidv4 } from 'uuid';
 import {
   MatchId,
   PlayerId,
@@ -11,12 +10,14 @@ import {
   Player,
   Squad,
   Unit,
-  Tile,
-  GameMap,
   MatchPhase,
+  BotDifficulty,
   TerrainType,
   StructureType,
   UnitType,
+  SquadStance,
+  SquadOrder,
+  SupplyStatus,
   CommandType,
   GameCommand,
   SelectSpawnCommand,
@@ -24,36 +25,94 @@ import {
   BuildStructureCommand,
   TrainUnitCommand,
   RallyPointCommand,
+  CancelConstructionCommand,
+  RepairStructureCommand,
+  DemolishStructureCommand,
+  SplitSquadCommand,
+  MergeSquadsCommand,
+  TransferUnitsCommand,
+  SetStanceCommand,
+  AttackMoveCommand,
+  PatrolCommand,
+  FollowSquadCommand,
+  RetreatCommand,
+  CaptureAreaCommand,
+  ResearchCommand,
+  ProposePactCommand,
+  AcceptPactCommand,
+  BreakPactCommand,
+  SendGoldCommand,
+  DiplomaticStatus,
+  DiplomacyState,
+  SquadWaypoint,
+  UnitCounts,
   TrainingOrder,
+  ConstructionSite,
   RallyPoint,
+  DepotInfo,
+  TrainingQueueInfo,
   GameStateSnapshot,
   VisibleTile,
   SquadSnapshot,
   PlayerPublicInfo,
   GameEvent,
   ScoreEntry,
+  TeamScore,
   MatchResult,
-  UNIT_STATS,
-  BUILDING_COSTS,
-  BUILDING_HP,
-  TOWER_STATS,
-  ECONOMY,
+  ReplayData,
+  MatchRules,
+  VeterancyRank,
+  TechId,
+  TechEffects,
+  TeamMode,
+  TEAM_LAYOUTS,
+  ResearchState,
   MATCH_CONFIG,
+  SPATIAL_HASH_CELL_SIZE,
   PLAYER_COLORS,
-  tileKey,
   distanceSq,
   clamp,
 } from '../types/game';
 import { MapGenerator } from './MapGenerator';
+import { Pathfinder } from './Pathfinder';
+import { TileGrid, NO_PLAYER, structureCode } from './TileGrid';
+import { DEFAULT_RULES, validateRules } from './MatchRules';
 import { SpatialHash } from './SpatialHash';
+import { Diplomacy } from './Diplomacy';
 import { BotAI } from './BotAI';
+import { Clock, systemClock } from './Clock';
+import { SeededRandom, createSeed } from './Random';
+import { ReplayRecorder } from '../replay/ReplayRecorder';
 
 // ---- Internal types ----
 
+// Damage one unit takes from one attacker this tick
+interface Hit {
+  unit: Unit;
+  damage: number;
+  attacker: Unit;
+}
+
+// A player's research; `effects` sums every finished tech
+interface PlayerResearch {
+  completed: Set<TechId>;
+  current: TechId | null;
+  elapsed: number; // seconds spent on the current tech
+  effects: TechEffects;
+}
+
+// A finished depot; `heldFor` restarts when the depot changes hands
+interface SupplyDepot {
+  playerId: PlayerId;
+  heldFor: number; // seconds supplied, capped at the establish time
+  active: boolean; // supplying the land around it as of the last supply pass
+}
+
 interface PendingCommand {
   playerId: PlayerId;
   command: GameCommand;
   tick: number;
+  fromBot: boolean;
 }
 
 interface PlayerStats {
@@ -61,6 +120,8 @@ interface PlayerStats {
   unitsKilled: number;
   unitsLost: number;
   goldEarned: number;
+  goldSent: number;
+  goldReceived: number;
   eliminationOrder: number;
 }
 
@@ -70,6 +131,82 @@ interface TowerCooldown {
   lastFired: number;
 }
 
+export interface MatchOptions {
+  /** Seed for map generation and all in-match randomness. Random if omitted. */
+  seed?: number;
+  /** Time source for tick deltas and phase timers. Defaults to wall-clock time. */
+  clock?: Clock;
+  /** Drive ticks from an interval timer. Disable to advance manually with step(). */
+  autoTick?: boolean;
+  /** Skip per-tick state broadcasts (replays, offline simulation). */
+  headless?: boolean;
+  /** How well bots (and stand-ins for disconnected players) play. */
+  botDifficulty?: BotDifficulty;
+  /** Map size, timings, economy and unit/building stats. Defaults to Standard. */
+  rules?: MatchRules;
+  /** Free-for-all or fixed teams. Defaults to free-for-all. */
+  teamMode?: TeamMode;
+}
+
+// Share of max HP a freshly placed scaffold starts with
+const SCAFFOLD_HP_RATIO = 0.1;
+
+// Reach beyond a unit's range still counted as in range, in tiles
+const RANGE_TOLERANCE = 0.5;
+
+// Seconds between `ranged_attack` events per squad; damage itself is continuous
+const VOLLEY_INTERVAL = 1;
+
+// Idle aggressive and defensive squads chase enemies this close, in tiles
+const AGGRO_RADIUS = 5;
+
+// Defensive squads ignore enemies further than this from their post
+const DEFENSIVE_LEASH = 6;
+
+// Followers close the gap once their leader is further away than this
+const FOLLOW_DISTANCE = 2;
+
+const RETREAT_SPEED_MULTIPLIER = 1.3;
+
+const MAX_PATROL_POINTS = 8;
+
+const MAX_QUEUED_ORDERS = 16;
+
+// Tiles within this distance of a capture-area order's centre are taken
+const CAPTURE_AREA_RADIUS = 2;
+
+// Orders that end when the squad reaches its destination
+const DESTINATION_ORDERS: ReadonlySet<SquadOrder> = new Set([
+  SquadOrder.Move,
+  SquadOrder.AttackMove,
+  SquadOrder.Retreat,
+]);
+
+// Seconds a squad must be out of combat before supply heals it
+const HEAL_DELAY = 5;
+
+// Structures that carry a depot's road link
+const ROAD = structureCode(StructureType.Road);
+const DEPOT = structureCode(StructureType.Depot);
+
+// Seconds between re-planning patrols, follows and stance chases
+const ORDER_UPDATE_INTERVAL = 0.5;
+
+// Bonuses of a unit that has not been promoted yet
+const RECRUIT: VeterancyRank = { xp: 0, hpBonus: 0, damageBonus: 0, speedBonus: 0 };
+
+// Effects of a player who has researched nothing
+const NO_RESEARCH: TechEffects = {
+  unitHp: 0,
+  unitDamage: 0,
+  unitSpeed: 0,
+  towerDamage: 0,
+  towerRange: 0,
+  captureRate: 0,
+  visionRadius: 0,
+  expansionRelief: 0,
+};
+
 export interface MatchCallbacks {
   onStateUpdate: (playerId: PlayerId, snapshot: GameStateSnapshot) => void;
   onMatchEnd: (result: MatchResult) => void;
@@ -88,24 +225,46 @@ export class Match {
   private lastTickTime: number = 0;
 
   // Map
-  private map!: GameMap;
+  private map!: TileGrid;
   private mapGenerator: MapGenerator;
+  private pathfinder!: Pathfinder;
+  private supplyQueue!: Int32Array; // BFS scratch space for updateSupplyLines
+  private supplyMarks!: Uint32Array; // visited stamps for the depot searches
+  private supplyStamp: number = 0;
   private spawnLocations: Array<{ x: number; y: number }> = [];
+  private humanSpawnLocations: Array<{ x: number; y: number }> = [];
 
   // Players
   private players: Map<PlayerId, Player> = new Map();
   private playerOrder: PlayerId[] = [];
 
+  // Diplomacy
+  private diplomacy: Diplomacy;
+
   // Squads & Units
   private squads: Map<SquadId, Squad> = new Map();
-  private spatialHash: SpatialHash = new SpatialHash();
+  private spatialHash: SpatialHash = new SpatialHash(SPATIAL_HASH_CELL_SIZE, (a, b) => this.diplomacy.isHostile(a, b));
 
   // Economy & Training
-  private trainingQueues: Map<string, TrainingOrder[]> = new Map(); // key: "x,y"
-  private rallyPoints: Map<string, RallyPoint> = new Map(); // key: "x,y"
+  private trainingQueues: Map<number, TrainingOrder[]> = new Map(); // key: tile index
+  private rallyPoints: Map<number, RallyPoint> = new Map(); // key: tile index
+  private constructionSites: Map<number, ConstructionSite> = new Map(); // key: tile index
+  private repairs: Map<number, PlayerId> = new Map(); // key: tile index, value: the player paying for it
+  private depots: Map<number, SupplyDepot> = new Map(); // key: tile index, finished depots only
+  private research: Map<PlayerId, PlayerResearch> = new Map();
+
+  // Walls finished or removed since squads last planned their routes
+  private changedWalls: Set<number> = new Set(); // tile indices
 
   // Tower tracking
-  private towerCooldowns: Map<string, number> = new Map(); // key: "x,y" -> last fired tick
+  private towerCooldowns: Map<number, number> = new Map(); // tile index -> last fired tick
+
+  // Ranged volley events
+  private lastVolley: Map<SquadId, number> = new Map(); // squad -> tick of last ranged_attack event
+  private lastCombat: Map<SquadId, number> = new Map(); // squad -> last tick it dealt or took damage
+
+  // Squads that stood to fight last combat pass; they hold still this tick
+  private engagedSquads: Set<SquadId> = new Set();
 
   // Commands
   private pendingCommands: PendingCommand[] = [];
@@ -131,10 +290,41 @@ export class Match {
   // Events for current tick
   private tickEvents: GameEvent[] = [];
 
-  constructor(id: MatchId, callbacks: MatchCallbacks) {
+  // Determinism
+  private readonly seed: number;
+  private readonly clock: Clock;
+  private readonly autoTick: boolean;
+  private readonly headless: boolean;
+  private readonly botDifficulty: BotDifficulty;
+  private readonly rules: MatchRules;
+  private readonly teamMode: TeamMode;
+  private rng: SeededRandom;
+  private nextEntityId: number = 0;
+
+  // Replay
+  private recorder: ReplayRecorder;
+  private replay: ReplayData | null = null;
+
+  constructor(id: MatchId, callbacks: MatchCallbacks, options: MatchOptions = {}) {
     this.id = id;
     this.callbacks = callbacks;
-    this.mapGenerator = new MapGenerator(Date.now() + Math.floor(Math.random() * 100000));
+    this.seed = options.seed ?? createSeed();
+    this.clock = options.clock ?? systemClock;
+    this.autoTick = options.autoTick ?? true;
+    this.headless = options.headless ?? false;
+    this.botDifficulty = options.botDifficulty ?? BotDifficulty.Normal;
+    this.rules = options.rules ?? DEFAULT_RULES;
+    this.teamMode = options.teamMode ?? TeamMode.FreeForAll;
+
+    const problems = validateRules(this.rules);
+    if (problems.length > 0) {
+      throw new Error(`Invalid match rules: ${problems.join('; ')}`);
+    }
+
+    this.rng = new SeededRandom(this.seed);
+    this.mapGenerator = new MapGenerator(this.seed, this.rules);
+    this.diplomacy = new Diplomacy(this.rules);
+    this.recorder = new ReplayRecorder(id, this.seed, this.botDifficulty, this.rules, this.teamMode);
   }
 
   // ============================================================
@@ -142,10 +332,11 @@ export class Match {
   // ============================================================
 
   /**
-   * Add a human player to the match.
+   * Add a human player to the match. In team modes they join `team` if
+   * it has room, otherwise the smallest team.
    */
-  addPlayer(playerId: PlayerId, username: string): boolean {
-    if (this.players.size >= MATCH_CONFIG.MAX_PLAYERS) return false;
+  addPlayer(playerId: PlayerId, username: string, team?: number | null): boolean {
+    if (this.players.size >= this.getCapacity()) return false;
     if (this.players.has(playerId)) return false;
 
     const colorIndex = this.players.size;
@@ -153,7 +344,7 @@ export class Match {
       id: playerId,
       username,
       isBot: false,
-      gold: ECONOMY.STARTING_GOLD,
+      gold: this.rules.economy.startingGold,
       goldPerSecond: 0,
       territoryCount: 0,
       capitalX: -1,
@@ -163,6 +354,7 @@ export class Match {
       score: 0,
       connected: true,
       spawnSelected: false,
+      team: this.pickTeam(team),
     };
 
     this.players.set(playerId, player);
@@ -172,6 +364,8 @@ export class Match {
       unitsKilled: 0,
       unitsLost: 0,
       goldEarned: 0,
+      goldSent: 0,
+      goldReceived: 0,
       eliminationOrder: 0,
     });
 
@@ -181,7 +375,7 @@ export class Match {
   /**
    * Fill empty slots with bots.
    */
-  fillWithBots(targetCount: number = MATCH_CONFIG.MAX_PLAYERS): void {
+  fillWithBots(targetCount: number = this.getCapacity()): void {
     const botNames = [
       'Lord Ironhelm', 'Queen Ashfire', 'Duke Stormwall', 'Lady Thornvale',
       'Baron Blackthorn', 'Empress Goldcrest', 'Count Redfang', 'Princess Frostbloom',
@@ -191,8 +385,8 @@ export class Match {
     ];
 
     let botIndex = 0;
-    while (this.players.size < targetCount) {
-      const botId = `bot_${uuidv4().substring(0, 8)}`;
+    while (this.players.size < Math.min(targetCount, this.getCapacity())) {
+      const botId = this.nextId('bot');
       const colorIndex = this.players.size;
       const botName = botNames[botIndex % botNames.length];
       botIndex++;
@@ -201,7 +395,7 @@ export class Match {
         id: botId,
         username: botName,
         isBot: true,
-        gold: ECONOMY.STARTING_GOLD,
+        gold: this.rules.economy.startingGold,
         goldPerSecond: 0,
         territoryCount: 0,
         capitalX: -1,
@@ -211,6 +405,7 @@ export class Match {
         score: 0,
         connected: true,
         spawnSelected: false,
+        team: this.pickTeam(null),
       };
 
       this.players.set(botId, bot);
@@ -220,55 +415,144 @@ export class Match {
         unitsKilled: 0,
         unitsLost: 0,
         goldEarned: 0,
+        goldSent: 0,
+        goldReceived: 0,
         eliminationOrder: 0,
       });
     }
   }
 
+  /**
+   * Players the match holds: the rules' cap, or fewer if the teams fill up first.
+   */
+  getCapacity(): number {
+    const layout = TEAM_LAYOUTS[this.teamMode];
+    return layout ? Math.min(this.rules.maxPlayers, layout.teams * layout.teamSize) : this.rules.maxPlayers;
+  }
+
+  /**
+   * Team for a new player: the requested one if it has room, else the
+   * smallest (lowest-numbered on ties). Null in free-for-all.
+   */
+  private pickTeam(requested: number | null | undefined): number | null {
+    const layout = TEAM_LAYOUTS[this.teamMode];
+    if (!layout) return null;
+
+    const sizes = new Array<number>(layout.teams).fill(0);
+    for (const player of this.players.values()) {
+      if (player.team !== null) sizes[player.team]++;
+    }
+
+    if (typeof requested === 'number' && requested >= 0 && requested < layout.teams && sizes[requested] < layout.teamSize) {
+      return requested;
+    }
+    return sizes.indexOf(Math.min(...sizes));
+  }
+
   /**
    * Initialize the match: generate map, enter spawn selection.
    */
   startMatch(): void {
     // Generate the map
     this.map = this.mapGenerator.generate();
+    this.pathfinder = new Pathfinder(this.map, (a, b) => this.diplomacy.isAllied(a, b), () => this.tick);
+    this.supplyQueue = new Int32Array(this.map.size);
+    this.supplyMarks = new Uint32Array(this.map.size);
 
     // Find spawn locations
     this.spawnLocations = this.mapGenerator.findSpawnLocations(this.map, this.players.size);
 
-    // Initialize bot AIs and auto-select spawns for bots
+    // Auto-select spawns for bots; in team modes everyone is placed with their team
     let spawnIdx = 0;
-    for (const [pid, player] of this.players) {
-      if (player.isBot) {
-        const spawn = this.spawnLocations[spawnIdx];
-        if (spawn) {
-          this.executeSpawnSelection(pid, spawn.x, spawn.y);
-          spawnIdx++;
+    if (TEAM_LAYOUTS[this.teamMode]) {
+      this.placeTeams();
+      spawnIdx = this.spawnLocations.length;
+    } else {
+      for (const [pid, player] of this.players) {
+        if (player.isBot) {
+          const spawn = this.spawnLocations[spawnIdx];
+          if (spawn) {
+            this.executeSpawnSelection(pid, spawn.x, spawn.y);
+            spawnIdx++;
+          }
+          // Bot AI will be initialized after all spawns are done
         }
-        // Bot AI will be initialized after all spawns are done
       }
     }
 
     // Enter spawn selection phase
     this.phase = MatchPhase.SpawnSelection;
-    this.matchStartTime = Date.now();
-    this.spawnPhaseEndTime = Date.now() + MATCH_CONFIG.SPAWN_PHASE_DURATION * 1000;
+    this.matchStartTime = this.clock.now();
+    this.spawnPhaseEndTime = this.matchStartTime + this.rules.spawnPhaseDuration * 1000;
+    this.recorder.begin(this.playerOrder.map(pid => this.players.get(pid)!), this.matchStartTime);
 
+    this.humanSpawnLocations = this.spawnLocations.slice(spawnIdx); // remaining locations for humans
     this.callbacks.onPhaseChange(this.id, this.phase, {
-      spawnLocations: this.spawnLocations.slice(spawnIdx), // remaining locations for humans
-      duration: MATCH_CONFIG.SPAWN_PHASE_DURATION,
+      spawnLocations: this.humanSpawnLocations,
+      duration: this.rules.spawnPhaseDuration,
+      rules: this.rules,
     });
 
     // Start the tick loop
     this.startTickLoop();
   }
 
+  /**
+   * Ally teammates and spawn each team together. Spawn locations are taken
+   * in order of their angle around the map centre, so every team gets a
+   * neighbouring run of them; of the possible starting points, the one
+   * that keeps teammates closest together wins.
+   */
+  private placeTeams(): void {
+    const cx = this.map.width / 2;
+    const cy = this.map.height / 2;
+    const ring = [...this.spawnLocations].sort(
+      (a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx)
+    );
+
+    const layout = TEAM_LAYOUTS[this.teamMode]!;
+    const teams: PlayerId[][] = [];
+    for (let team = 0; team < layout.teams; team++) {
+      teams.push(this.playerOrder.filter(pid => this.players.get(pid)!.team === team));
+    }
+
+    // Spread of each run of spawns as teams would get them, starting at `offset`
+    const spread = (offset: number): number => {
+      let total = 0;
+      let next = offset;
+      for (const members of teams) {
+        const run = members.map(() => ring[next++ % ring.length]);
+        for (let i = 1; i < run.length; i++) total += distanceSq(run[i - 1].x, run[i - 1].y, run[i].x, run[i].y);
+      }
+      return total;
+    };
+    let best = 0;
+    for (let offset = 1; offset < ring.length; offset++) {
+      if (spread(offset) < spread(best)) best = offset;
+    }
+
+    let next = best;
+    let placed = 0;
+    for (const members of teams) {
+      for (const [i, pid] of members.entries()) {
+        for (const other of members.slice(i + 1)) this.diplomacy.formAlliance(pid, other);
+
+        // Players beyond the spawns found are left out, as in free-for-all
+        if (placed++ >= ring.length) continue;
+        const spawn = ring[next++ % ring.length];
+        this.executeSpawnSelection(pid, spawn.x, spawn.y);
+      }
+    }
+  }
+
   // ============================================================
   // Tick Loop
   // ============================================================
 
   private startTickLoop(): void {
     const tickMs = 1000 / MATCH_CONFIG.TICK_RATE;
-    this.lastTickTime = Date.now();
+    this.lastTickTime = this.matchStartTime;
+    if (!this.autoTick) return;
 
     this.tickInterval = setInterval(() => {
       try {
@@ -286,9 +570,19 @@ export class Match {
     }
   }
 
+  /**
+   * Advance the simulation by one tick. Only needed for matches created
+   * with `autoTick: false`; advance the injected clock before calling.
+   */
+  step(): void {
+    if (this.phase !== MatchPhase.SpawnSelection && this.phase !== MatchPhase.Playing) return;
+    this.runTick();
+  }
+
   private runTick(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const dt = (now - this.lastTickTime) / 1000; // delta in seconds
+    this.recorder.recordTick(now - this.lastTickTime);
     this.lastTickTime = now;
     this.tick++;
     this.tickEvents = [];
@@ -344,15 +638,16 @@ export class Match {
     // Initialize bot AIs now that all spawns are finalized
     for (const [pid, player] of this.players) {
       if (player.isBot && player.alive) {
-        this.botAIs.set(pid, new BotAI(pid, this));
+        this.botAIs.set(pid, new BotAI(pid, this, this.rng.fork(), this.botDifficulty));
       }
     }
 
     // Transition to playing phase
     this.phase = MatchPhase.Playing;
-    this.matchEndTime = Date.now() + MATCH_CONFIG.MATCH_DURATION * 1000;
+    this.matchEndTime = this.clock.now() + this.rules.matchDuration * 1000;
     this.callbacks.onPhaseChange(this.id, this.phase, {
-      duration: MATCH_CONFIG.MATCH_DURATION,
+      duration: this.rules.matchDuration,
+      rules: this.rules,
     });
   }
 
@@ -364,41 +659,54 @@ export class Match {
   }
 
   private tickGameplay(dt: number, now: number): void {
-    // 1. Process player commands
+    // 1. Process player commands and drop stale pact offers
     this.processCommands();
+    this.diplomacy.expire(this.tick);
 
     // 2. Run bot AI
     this.runBots(dt);
 
-    // 3. Process training queues
+    // 3. Advance construction sites and repairs
+    this.updateConstruction(dt);
+    this.updateRepairs(dt);
+
+    // 4. Process training queues
     this.updateTraining(dt);
 
-    // 4. Update unit movement
+    // 5. Advance research
+    this.updateResearch(dt);
+
+    // 6. Re-plan patrols, follows and stance reactions (throttled)
+    this.updateSquadOrders();
+
+    // 7. Update unit movement
     this.updateUnitMovement(dt);
 
-    // 5. Resolve combat
+    // 8. Resolve combat
     this.resolveCombat(dt);
 
-    // 6. Update tower attacks
+    // 9. Update tower attacks
     this.updateTowers(dt);
 
-    // 7. Update territory capture
+    // 10. Update territory capture
     this.updateTerritory(dt);
 
-    // 8. Update supply lines (throttled)
+    // 11. Age depots, update supply lines (throttled), then heal or wear down squads by supply
+    this.updateDepots(dt);
     this.supplyCheckCounter++;
-    if (this.supplyCheckCounter >= MATCH_CONFIG.SUPPLY_CHECK_INTERVAL) {
+    if (this.supplyCheckCounter >= this.rules.supplyCheckInterval) {
       this.supplyCheckCounter = 0;
       this.updateSupplyLines();
     }
+    this.updateSquadSupply(dt);
 
-    // 9. Calculate economy
+    // 12. Calculate economy
     this.calculateEconomy(dt);
 
-    // 10. Update scores
+    // 13. Update scores
     this.updateScores();
 
-    // 11. Check win/loss conditions
+    // 14. Check win/loss conditions
     this.checkEndConditions(now);
   }
 
@@ -410,6 +718,10 @@ export class Match {
    * Queue a command from a player.
    */
   queueCommand(playerId: PlayerId, command: GameCommand): void {
+    this.enqueueCommand(playerId, command, false);
+  }
+
+  private enqueueCommand(playerId: PlayerId, command: GameCommand, fromBot: boolean): void {
     const player = this.players.get(playerId);
     if (!player || !player.alive) return;
 
@@ -417,13 +729,19 @@ export class Match {
       playerId,
       command,
       tick: this.tick,
+      fromBot,
     });
   }
 
   private processCommands(): void {
     const commands = this.pendingCommands.splice(0);
 
-    for (const { playerId, command } of commands) {
+    for (const { playerId, command, tick, fromBot } of commands) {
+      // Bot commands are re-derived on replay; only player input is recorded
+      if (!fromBot) {
+        this.recorder.recordCommand(tick, playerId, command);
+      }
+
       try {
         switch (command.type) {
           case CommandType.SelectSpawn:
@@ -441,6 +759,57 @@ export class Match {
           case CommandType.RallyPoint:
             this.handleRallyPoint(playerId, command as RallyPointCommand);
             break;
+          case CommandType.CancelConstruction:
+            this.handleCancelConstruction(playerId, command as CancelConstructionCommand);
+            break;
+          case CommandType.RepairStructure:
+            this.handleRepairStructure(playerId, command as RepairStructureCommand);
+            break;
+          case CommandType.DemolishStructure:
+            this.handleDemolishStructure(playerId, command as DemolishStructureCommand);
+            break;
+          case CommandType.SplitSquad:
+            this.handleSplitSquad(playerId, command as SplitSquadCommand);
+            break;
+          case CommandType.MergeSquads:
+            this.handleMergeSquads(playerId, command as MergeSquadsCommand);
+            break;
+          case CommandType.TransferUnits:
+            this.handleTransferUnits(playerId, command as TransferUnitsCommand);
+            break;
+          case CommandType.SetStance:
+            this.handleSetStance(playerId, command as SetStanceCommand);
+            break;
+          case CommandType.AttackMove:
+            this.handleAttackMove(playerId, command as AttackMoveCommand);
+            break;
+          case CommandType.Patrol:
+            this.handlePatrol(playerId, command as PatrolCommand);
+            break;
+          case CommandType.FollowSquad:
+            this.handleFollowSquad(playerId, command as FollowSquadCommand);
+            break;
+          case CommandType.Retreat:
+            this.handleRetreat(playerId, command as RetreatCommand);
+            break;
+          case CommandType.CaptureArea:
+            this.handleCaptureArea(playerId, command as CaptureAreaCommand);
+            break;
+          case CommandType.Research:
+            this.handleResearch(playerId, command as ResearchCommand);
+            break;
+          case CommandType.ProposePact:
+            this.handleProposePact(playerId, command as ProposePactCommand);
+            break;
+          case CommandType.AcceptPact:
+            this.handleAcceptPact(playerId, command as AcceptPactCommand);
+            break;
+          case CommandType.BreakPact:
+            this.handleBreakPact(playerId, command as BreakPactCommand);
+            break;
+          case CommandType.SendGold:
+            this.handleSendGold(playerId, command as SendGoldCommand);
+            break;
         }
       } catch (err) {
         console.error(`[Match ${this.id}] Command error for ${playerId}:`, err);
@@ -480,22 +849,22 @@ export class Match {
       for (let dx = -2; dx <= 2; dx++) {
         const tx = x + dx;
         const ty = y + dy;
-        if (tx < 0 || ty < 0 || tx >= this.map.width || ty >= this.map.height) continue;
+        if (!this.map.inBounds(tx, ty)) continue;
 
-        const tile = this.map.tiles[ty][tx];
-        if (tile.terrain === TerrainType.Mountain) continue;
+        const i = this.map.index(tx, ty);
+        if (this.map.getTerrain(i) === TerrainType.Mountain) continue;
 
-        tile.ownerId = playerId;
-        tile.captureProgress = MATCH_CONFIG.CAPTURE_THRESHOLD;
-        tile.capturingPlayerId = null;
-        tile.connected = true;
+        this.map.setOwner(i, playerId);
+        this.map.captureProgress[i] = this.rules.captureThreshold;
+        this.map.setCapturer(i, null);
+        this.map.setConnected(i, true);
       }
     }
 
     // Place castle
-    const castleTile = this.map.tiles[y][x];
-    castleTile.structureType = StructureType.Castle;
-    castleTile.structureHp = BUILDING_HP[StructureType.Castle];
+    const castle = this.map.index(x, y);
+    this.map.setStructure(castle, StructureType.Castle);
+    this.map.structureHp[castle] = this.rules.buildingHp[StructureType.Castle];
 
     // Give starting militia squad
     this.createSquad(playerId, x, y + 1, [
@@ -509,30 +878,295 @@ export class Match {
     const squad = this.squads.get(cmd.squadId);
     if (!squad || squad.ownerId !== playerId) return;
 
-    const targetX = clamp(Math.round(cmd.targetX), 0, this.map.width - 1);
-    const targetY = clamp(Math.round(cmd.targetY), 0, this.map.height - 1);
-
-    // Don't path to impassable
-    const targetTile = this.map.tiles[targetY][targetX];
-    if (targetTile.terrain === TerrainType.Mountain) return;
-
-    // A* pathfinding
-    const path = MapGenerator.findPath(
-      this.map,
-      Math.round(squad.x),
-      Math.round(squad.y),
-      targetX,
-      targetY,
-      800
-    );
+    this.issueOrder(squad, { order: SquadOrder.Move, x: cmd.targetX, y: cmd.targetY }, cmd.queued === true);
+  }
 
-    if (path && path.length > 0) {
-      squad.targetX = targetX;
-      squad.targetY = targetY;
-      squad.path = path;
-      squad.pathIndex = 0;
-      squad.moveProgress = 0;
+  private handleAttackMove(playerId: PlayerId, cmd: AttackMoveCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+
+    const squad = this.squads.get(cmd.squadId);
+    if (!squad || squad.ownerId !== playerId) return;
+
+    this.issueOrder(squad, { order: SquadOrder.AttackMove, x: cmd.targetX, y: cmd.targetY }, cmd.queued === true);
+  }
+
+  private handleCaptureArea(playerId: PlayerId, cmd: CaptureAreaCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+
+    const squad = this.squads.get(cmd.squadId);
+    if (!squad || squad.ownerId !== playerId) return;
+
+    this.issueOrder(squad, { order: SquadOrder.CaptureArea, x: cmd.x, y: cmd.y }, cmd.queued === true);
+  }
+
+  private handlePatrol(playerId: PlayerId, cmd: PatrolCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+
+    const squad = this.squads.get(cmd.squadId);
+    if (!squad || squad.ownerId !== playerId) return;
+    if (!Array.isArray(cmd.points) || cmd.points.length === 0 || cmd.points.length > MAX_PATROL_POINTS) return;
+
+    const route = [{ x: Math.round(squad.x), y: Math.round(squad.y) }];
+    for (const point of cmd.points) {
+      if (!point || !Number.isFinite(point.x) || !Number.isFinite(point.y)) return;
+      route.push({
+        x: clamp(Math.round(point.x), 0, this.map.width - 1),
+        y: clamp(Math.round(point.y), 0, this.map.height - 1),
+      });
     }
+
+    if (!this.orderSquad(squad, SquadOrder.Patrol, route[1].x, route[1].y)) return;
+    squad.patrolRoute = route;
+    squad.patrolIndex = 1;
+    squad.orderQueue = [];
+  }
+
+  private handleFollowSquad(playerId: PlayerId, cmd: FollowSquadCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+    if (cmd.squadId === cmd.targetSquadId) return;
+
+    const squad = this.squads.get(cmd.squadId);
+    const leader = this.squads.get(cmd.targetSquadId);
+    if (!squad || !leader || squad.ownerId !== playerId || leader.ownerId !== playerId) return;
+
+    if (!this.orderSquad(squad, SquadOrder.Follow, leader.x, leader.y)) return;
+    squad.followSquadId = leader.id;
+    squad.orderQueue = [];
+  }
+
+  /**
+   * Fall back to the nearest own castle or barracks, or the capital if
+   * there is none.
+   */
+  private handleRetreat(playerId: PlayerId, cmd: RetreatCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+
+    const squad = this.squads.get(cmd.squadId);
+    const player = this.players.get(playerId);
+    if (!squad || !player || squad.ownerId !== playerId) return;
+
+    let targetX = player.capitalX;
+    let targetY = player.capitalY;
+    let best = Infinity;
+    for (const i of this.map.productionBuildings) {
+      if (!this.map.isOwnedBy(i, playerId) || !this.map.isComplete(i)) continue;
+      const x = i % this.map.width;
+      const y = (i - x) / this.map.width;
+      const d = distanceSq(squad.x, squad.y, x, y);
+      if (d < best) {
+        best = d;
+        targetX = x;
+        targetY = y;
+      }
+    }
+
+    squad.orderQueue = [];
+    this.orderSquad(squad, SquadOrder.Retreat, targetX, targetY);
+  }
+
+  private handleSetStance(playerId: PlayerId, cmd: SetStanceCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+    if (!Object.values(SquadStance).includes(cmd.stance)) return;
+
+    const squad = this.squads.get(cmd.squadId);
+    if (!squad || squad.ownerId !== playerId) return;
+
+    squad.stance = cmd.stance;
+    // A defensive squad guards wherever it was told to take up the stance
+    squad.anchorX = Math.round(squad.x);
+    squad.anchorY = Math.round(squad.y);
+  }
+
+  /**
+   * Start an order now, or with `queued` put it behind the squad's current
+   * ones. Patrols and follows never end, so queued orders replace them.
+   */
+  private issueOrder(squad: Squad, waypoint: SquadWaypoint, queued: boolean): void {
+    if (!Number.isFinite(waypoint.x) || !Number.isFinite(waypoint.y)) return;
+    const x = clamp(Math.round(waypoint.x), 0, this.map.width - 1);
+    const y = clamp(Math.round(waypoint.y), 0, this.map.height - 1);
+
+    const busy = squad.order !== SquadOrder.Idle && squad.order !== SquadOrder.Patrol && squad.order !== SquadOrder.Follow;
+    if (queued && busy) {
+      if (squad.orderQueue.length < MAX_QUEUED_ORDERS) {
+        squad.orderQueue.push({ order: waypoint.order, x, y });
+      }
+      return;
+    }
+
+    squad.orderQueue = [];
+    this.startOrder(squad, { order: waypoint.order, x, y });
+  }
+
+  private startOrder(squad: Squad, waypoint: SquadWaypoint): boolean {
+    if (!this.orderSquad(squad, waypoint.order, waypoint.x, waypoint.y)) return false;
+    if (waypoint.order === SquadOrder.CaptureArea) {
+      squad.captureArea = { x: waypoint.x, y: waypoint.y };
+    }
+    return true;
+  }
+
+  /**
+   * Give a squad a new order towards a tile, replacing whatever it was doing.
+   * Emits `order_failed` and leaves the squad alone if the tile can't be
+   * reached.
+   */
+  private orderSquad(squad: Squad, order: SquadOrder, x: number, y: number): boolean {
+    const targetX = clamp(Math.round(x), 0, this.map.width - 1);
+    const targetY = clamp(Math.round(y), 0, this.map.height - 1);
+
+    if (!this.routeSquad(squad, targetX, targetY)) {
+      this.tickEvents.push({
+        type: 'order_failed',
+        data: { playerId: squad.ownerId, squadId: squad.id, x: targetX, y: targetY, reason: 'unreachable' },
+      });
+      return false;
+    }
+
+    squad.order = order;
+    squad.patrolRoute = [];
+    squad.patrolIndex = 0;
+    squad.followSquadId = null;
+    squad.captureArea = null;
+    if (squad.path.length === 0 && DESTINATION_ORDERS.has(order)) this.completeOrder(squad);
+    return true;
+  }
+
+  /**
+   * Point a squad's path at a tile without touching its order. Returns
+   * false, leaving the old path, when the tile is unreachable.
+   */
+  private routeSquad(squad: Squad, targetX: number, targetY: number): boolean {
+    const path = this.pathfinder.findPath(squad.ownerId, Math.round(squad.x), Math.round(squad.y), targetX, targetY);
+    if (!path) return false;
+
+    squad.targetX = path.length > 0 ? targetX : null;
+    squad.targetY = path.length > 0 ? targetY : null;
+    squad.path = path;
+    squad.pathIndex = 0;
+    squad.moveProgress = 0;
+    return true;
+  }
+
+  /**
+   * The current order is over: start the next queued order that can still
+   * be carried out, or go idle.
+   */
+  private completeOrder(squad: Squad): void {
+    while (squad.orderQueue.length > 0) {
+      if (this.startOrder(squad, squad.orderQueue.shift()!)) return;
+    }
+    this.finishOrder(squad);
+  }
+
+  /**
+   * Drop the current order; the squad takes up its post where it stands.
+   */
+  private finishOrder(squad: Squad): void {
+    squad.order = SquadOrder.Idle;
+    squad.patrolRoute = [];
+    squad.patrolIndex = 0;
+    squad.followSquadId = null;
+    squad.captureArea = null;
+    squad.anchorX = Math.round(squad.x);
+    squad.anchorY = Math.round(squad.y);
+  }
+
+  private handleSplitSquad(playerId: PlayerId, cmd: SplitSquadCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+
+    const squad = this.squads.get(cmd.squadId);
+    if (!squad || squad.ownerId !== playerId) return;
+
+    // At least one unit has to stay behind
+    const units = this.takeUnits(squad, cmd.units, squad.units.length - 1);
+    if (!units) return;
+
+    const split = this.squads.get(this.addSquad(playerId, squad.x, squad.y, units))!;
+    split.stance = squad.stance;
+    split.supply = squad.supply;
+    split.unsuppliedFor = squad.unsuppliedFor;
+  }
+
+  private handleMergeSquads(playerId: PlayerId, cmd: MergeSquadsCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+    if (!Array.isArray(cmd.squadIds)) return;
+
+    const squads: Squad[] = [];
+    for (const id of new Set(cmd.squadIds)) {
+      const squad = this.squads.get(id);
+      if (!squad || squad.ownerId !== playerId) return;
+      squads.push(squad);
+    }
+    if (squads.length < 2) return;
+
+    const [target, ...others] = squads;
+    let total = target.units.length;
+    for (const other of others) {
+      if (!this.withinMergeDistance(target, other)) return;
+      total += other.units.length;
+    }
+    if (total > MATCH_CONFIG.MAX_SQUAD_SIZE) return;
+
+    for (const other of others) {
+      target.units.push(...other.units);
+      // Merging doesn't restart the attrition clock
+      target.unsuppliedFor = Math.max(target.unsuppliedFor, other.unsuppliedFor);
+      other.units = [];
+      this.removeSquad(other.id);
+    }
+  }
+
+  private handleTransferUnits(playerId: PlayerId, cmd: TransferUnitsCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+    if (cmd.fromSquadId === cmd.toSquadId) return;
+
+    const from = this.squads.get(cmd.fromSquadId);
+    const to = this.squads.get(cmd.toSquadId);
+    if (!from || !to || from.ownerId !== playerId || to.ownerId !== playerId) return;
+    if (!this.withinMergeDistance(from, to)) return;
+
+    const units = this.takeUnits(from, cmd.units, MATCH_CONFIG.MAX_SQUAD_SIZE - to.units.length);
+    if (!units) return;
+
+    to.units.push(...units);
+    if (from.units.length === 0) {
+      this.removeSquad(from.id);
+    }
+  }
+
+  /**
+   * Pull the requested units out of a squad, from the back of its line.
+   * Returns null and leaves the squad untouched if the request is
+   * malformed, asks for units the squad doesn't have, or exceeds `limit`.
+   */
+  private takeUnits(squad: Squad, counts: UnitCounts, limit: number): Unit[] | null {
+    if (!counts || typeof counts !== 'object') return null;
+
+    const remaining = new Map<UnitType, number>();
+    let total = 0;
+    for (const [type, count] of Object.entries(counts) as Array<[UnitType, number]>) {
+      if (!(type in this.rules.units)) return null;
+      if (!Number.isInteger(count) || count < 0) return null;
+      if (count > squad.units.filter(u => u.type === type).length) return null;
+      remaining.set(type, count);
+      total += count;
+    }
+    if (total === 0 || total > limit) return null;
+
+    const taken: Unit[] = [];
+    for (let i = squad.units.length - 1; i >= 0; i--) {
+      const left = remaining.get(squad.units[i].type) ?? 0;
+      if (left === 0) continue;
+      remaining.set(squad.units[i].type, left - 1);
+      taken.unshift(...squad.units.splice(i, 1));
+    }
+    return taken;
+  }
+
+  private withinMergeDistance(a: Squad, b: Squad): boolean {
+    const range = MATCH_CONFIG.SQUAD_MERGE_DISTANCE;
+    return distanceSq(a.x, a.y, b.x, b.y) <= range * range;
   }
 
   private handleBuildStructure(playerId: PlayerId, cmd: BuildStructureCommand): void {
@@ -544,27 +1178,30 @@ export class Match {
     const x = Math.round(cmd.x);
     const y = Math.round(cmd.y);
 
-    if (x < 0 || y < 0 || x >= this.map.width || y >= this.map.height) return;
+    if (!this.map.inBounds(x, y)) return;
 
-    const tile = this.map.tiles[y][x];
+    const i = this.map.index(x, y);
+    const terrain = this.map.getTerrain(i);
+    const existing = this.map.getStructure(i);
 
     // Must own the tile
-    if (tile.ownerId !== playerId) return;
+    if (!this.map.isOwnedBy(i, playerId)) return;
 
     // Must be connected
-    if (!tile.connected) return;
+    if (!this.map.isConnected(i)) return;
 
     // Can't build on mountains or water
-    if (tile.terrain === TerrainType.Mountain || tile.terrain === TerrainType.Water) return;
+    if (terrain === TerrainType.Mountain || terrain === TerrainType.Water) return;
 
     // Mine upgrade only on mines
-    if (cmd.structureType === StructureType.MineUpgrade && tile.terrain !== TerrainType.Mine) return;
+    if (cmd.structureType === StructureType.MineUpgrade && terrain !== TerrainType.Mine) return;
 
     // Can't build on existing structure (except mine upgrade on mine)
-    if (tile.structureType !== null) {
-      if (cmd.structureType === StructureType.MineUpgrade && tile.terrain === TerrainType.Mine) {
-        // Allow upgrading mines
-      } else if (cmd.structureType === StructureType.Road && tile.structureType === StructureType.Road) {
+    if (existing !== null) {
+      if (cmd.structureType === StructureType.MineUpgrade && terrain === TerrainType.Mine) {
+        // Allow upgrading mines, one level at a time
+        if (!this.map.isComplete(i)) return;
+      } else if (cmd.structureType === StructureType.Road && existing === StructureType.Road) {
         return; // Already has road
       } else {
         return;
@@ -575,21 +1212,29 @@ export class Match {
     if (cmd.structureType === StructureType.Castle) return;
 
     // Check cost
-    const cost = BUILDING_COSTS[cmd.structureType];
+    const cost = this.rules.buildingCosts[cmd.structureType];
     if (!cost) return;
     if (player.gold < cost.gold) return;
 
     // Deduct gold
     player.gold -= cost.gold;
 
-    // Place structure
-    tile.structureType = cmd.structureType;
-    tile.structureHp = BUILDING_HP[cmd.structureType];
-
-    // Track mine upgrade level
-    if (cmd.structureType === StructureType.MineUpgrade) {
-      tile.mineLevel++;
+    // Place a scaffold; updateConstruction grows it into the finished structure.
+    // A mine taking its next upgrade keeps the HP of the level it already has.
+    const maxHp = this.rules.buildingHp[cmd.structureType];
+    if (existing === null) {
+      this.map.setStructure(i, cmd.structureType);
+      this.map.structureHp[i] = maxHp * SCAFFOLD_HP_RATIO;
     }
+    this.map.constructionProgress[i] = 0;
+
+    this.constructionSites.set(i, {
+      playerId,
+      structureType: cmd.structureType,
+      elapsed: 0,
+      buildTime: cost.buildTime,
+      goldPaid: cost.gold,
+    });
 
     this.tickEvents.push({
       type: 'build',
@@ -597,6 +1242,110 @@ export class Match {
     });
   }
 
+  private handleCancelConstruction(playerId: PlayerId, cmd: CancelConstructionCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+
+    const player = this.players.get(playerId);
+    if (!player) return;
+
+    const x = Math.round(cmd.x);
+    const y = Math.round(cmd.y);
+    if (!this.map.inBounds(x, y)) return;
+
+    const i = this.map.index(x, y);
+    const site = this.constructionSites.get(i);
+    if (!site || site.playerId !== playerId) return;
+    if (!this.map.isOwnedBy(i, playerId)) return;
+
+    const refund = Math.floor(site.goldPaid * this.rules.economy.cancelRefundRatio);
+    player.gold += refund;
+
+    this.clearConstruction(i);
+
+    this.tickEvents.push({
+      type: 'construction_cancelled',
+      data: { playerId, structureType: site.structureType, x, y, refund },
+    });
+  }
+
+  private handleRepairStructure(playerId: PlayerId, cmd: RepairStructureCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+
+    const player = this.players.get(playerId);
+    if (!player) return;
+
+    const x = Math.round(cmd.x);
+    const y = Math.round(cmd.y);
+    if (!this.map.inBounds(x, y)) return;
+
+    const i = this.map.index(x, y);
+    const structureType = this.map.getStructure(i);
+    // Unfinished structures regain HP as they are built
+    if (!structureType || !this.map.isComplete(i)) return;
+    if (!this.map.isOwnedBy(i, playerId)) return;
+
+    // A second order stops the repair
+    if (this.repairs.has(i)) {
+      this.repairs.delete(i);
+      return;
+    }
+
+    if (!this.map.isConnected(i)) return;
+    if (this.map.structureHp[i] >= this.rules.buildingHp[structureType]) return;
+
+    this.repairs.set(i, playerId);
+
+    this.tickEvents.push({
+      type: 'repair_started',
+      data: { playerId, structureType, x, y },
+    });
+  }
+
+  private handleDemolishStructure(playerId: PlayerId, cmd: DemolishStructureCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+
+    const player = this.players.get(playerId);
+    if (!player) return;
+
+    const x = Math.round(cmd.x);
+    const y = Math.round(cmd.y);
+    if (!this.map.inBounds(x, y)) return;
+
+    const i = this.map.index(x, y);
+    const structureType = this.map.getStructure(i);
+    // Unfinished structures are cancelled instead
+    if (!structureType || !this.map.isComplete(i)) return;
+    if (!this.map.isOwnedBy(i, playerId)) return;
+
+    // The castle can't be sold, and an upgraded mine stays upgraded
+    if (structureType === StructureType.Castle || structureType === StructureType.MineUpgrade) return;
+
+    // Damaged structures fetch less
+    const maxHp = this.rules.buildingHp[structureType];
+    const condition = maxHp > 0 ? Math.min(1, this.map.structureHp[i] / maxHp) : 1;
+    let refund = Math.floor(
+      this.rules.buildingCosts[structureType].gold * this.rules.economy.demolishRefundRatio * condition
+    );
+
+    // Units already paid for come back as if cancelled
+    const queued = this.trainingQueues.get(i) ?? [];
+    const queuedCost = queued.reduce((sum, order) => sum + this.rules.units[order.unitType].cost, 0);
+    refund += Math.floor(queuedCost * this.rules.economy.cancelRefundRatio);
+    player.gold += refund;
+
+    this.pathingChanged(i, structureType);
+    this.map.setStructure(i, null);
+    this.map.structureHp[i] = 0;
+    this.repairs.delete(i);
+    this.trainingQueues.delete(i);
+    this.rallyPoints.delete(i);
+
+    this.tickEvents.push({
+      type: 'structure_demolished',
+      data: { playerId, structureType, x, y, refund },
+    });
+  }
+
   private handleTrainUnit(playerId: PlayerId, cmd: TrainUnitCommand): void {
     if (this.phase !== MatchPhase.Playing) return;
 
@@ -606,26 +1355,26 @@ export class Match {
     const x = Math.round(cmd.buildingX);
     const y = Math.round(cmd.buildingY);
 
-    if (x < 0 || y < 0 || x >= this.map.width || y >= this.map.height) return;
+    if (!this.map.inBounds(x, y)) return;
 
-    const tile = this.map.tiles[y][x];
+    const i = this.map.index(x, y);
 
-    // Must own the tile and have a production building
-    if (tile.ownerId !== playerId) return;
-    if (tile.structureType !== StructureType.Castle && tile.structureType !== StructureType.Barracks) return;
-    if (!tile.connected) return;
+    // Must own the tile and have a finished production building
+    if (!this.map.isOwnedBy(i, playerId)) return;
+    if (!this.map.productionBuildings.has(i)) return;
+    if (!this.map.isComplete(i)) return;
+    if (!this.map.isConnected(i)) return;
 
     // Check cost
-    const stats = UNIT_STATS[cmd.unitType];
+    const stats = this.rules.units[cmd.unitType];
     if (!stats) return;
     if (player.gold < stats.cost) return;
 
     // Training queue limit per building
-    const queueKey = tileKey(x, y);
-    let queue = this.trainingQueues.get(queueKey);
+    let queue = this.trainingQueues.get(i);
     if (!queue) {
       queue = [];
-      this.trainingQueues.set(queueKey, queue);
+      this.trainingQueues.set(i, queue);
     }
 
     if (queue.length >= 5) return; // Max queue size
@@ -635,7 +1384,7 @@ export class Match {
 
     // Barracks produces 30% faster
     let trainTime = stats.trainTime;
-    if (tile.structureType === StructureType.Barracks) {
+    if (this.map.getStructure(i) === StructureType.Barracks) {
       trainTime *= 0.7;
     }
 
@@ -647,14 +1396,377 @@ export class Match {
     });
   }
 
+  private handleResearch(playerId: PlayerId, cmd: ResearchCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+
+    const player = this.players.get(playerId);
+    if (!player || !player.alive) return;
+    if (!Object.values(TechId).includes(cmd.techId)) return;
+
+    // One tech at a time, each once, after its prerequisites
+    const research = this.researchOf(playerId);
+    if (research.current || research.completed.has(cmd.techId)) return;
+    const tech = this.rules.techs[cmd.techId];
+    if (!tech.requires.every(req => research.completed.has(req))) return;
+    if (player.gold < tech.cost) return;
+
+    player.gold -= tech.cost;
+    research.current = cmd.techId;
+    research.elapsed = 0;
+
+    this.tickEvents.push({
+      type: 'research_started',
+      data: { playerId, techId: cmd.techId },
+    });
+  }
+
+  private handleProposePact(playerId: PlayerId, cmd: ProposePactCommand): void {
+    // Pacts are a free-for-all affair; teams are fixed for the whole match
+    if (this.phase !== MatchPhase.Playing || this.teamMode !== TeamMode.FreeForAll) return;
+
+    const target = this.players.get(cmd.targetPlayerId);
+    if (!target || !target.alive) return;
+    if (cmd.pact !== DiplomaticStatus.NonAggression && cmd.pact !== DiplomaticStatus.Alliance) return;
+
+    const result = this.diplomacy.propose(playerId, cmd.targetPlayerId, cmd.pact, this.tick);
+    if (result === 'formed') {
+      this.onPactFormed(cmd.targetPlayerId, playerId, cmd.pact);
+    } else if (result === 'proposed') {
+      this.tickEvents.push({
+        type: 'pact_proposed',
+        data: { fromId: playerId, toId: cmd.targetPlayerId, pact: cmd.pact },
+        recipients: [playerId, cmd.targetPlayerId],
+      });
+    }
+  }
+
+  private handleAcceptPact(playerId: PlayerId, cmd: AcceptPactCommand): void {
+    if (this.phase !== MatchPhase.Playing || this.teamMode !== TeamMode.FreeForAll) return;
+
+    const proposer = this.players.get(cmd.fromPlayerId);
+    if (!proposer || !proposer.alive) return;
+
+    const pact = this.diplomacy.accept(playerId, cmd.fromPlayerId, this.tick);
+    if (pact) this.onPactFormed(cmd.fromPlayerId, playerId, pact);
+  }
+
+  private handleBreakPact(playerId: PlayerId, cmd: BreakPactCommand): void {
+    if (this.phase !== MatchPhase.Playing || this.teamMode !== TeamMode.FreeForAll) return;
+
+    const pact = this.diplomacy.breakPact(playerId, cmd.targetPlayerId, this.tick);
+    if (!pact) return;
+
+    // Allies walked through each other's walls; now they can't
+    if (pact === DiplomaticStatus.Alliance) this.pathfinder.invalidate();
+
+    this.tickEvents.push({
+      type: 'pact_broken',
+      data: { breakerId: playerId, otherId: cmd.targetPlayerId, pact },
+    });
+  }
+
+  private handleSendGold(playerId: PlayerId, cmd: SendGoldCommand): void {
+    if (this.phase !== MatchPhase.Playing) return;
+
+    const sender = this.players.get(playerId);
+    const recipient = this.players.get(cmd.targetPlayerId);
+    if (!sender || !sender.alive || !recipient || !recipient.alive || recipient === sender) return;
+    if (!Number.isInteger(cmd.amount) || cmd.amount <= 0 || cmd.amount > sender.gold) return;
+    if (this.diplomacy.tributeCooldown(playerId, this.tick) > 0) return;
+
+    // The tax is lost on the way, so gold can't be pooled for free
+    const received = Math.floor(cmd.amount * (1 - this.rules.economy.tributeTax));
+    sender.gold -= cmd.amount;
+    recipient.gold += received;
+    this.diplomacy.recordTribute(playerId, this.tick);
+
+    this.playerStats.get(playerId)!.goldSent += cmd.amount;
+    this.playerStats.get(recipient.id)!.goldReceived += received;
+
+    this.tickEvents.push({
+      type: 'tribute_received',
+      data: { fromId: playerId, toId: recipient.id, amount: received, sent: cmd.amount },
+    });
+  }
+
+  private onPactFormed(fromId: PlayerId, toId: PlayerId, pact: DiplomaticStatus): void {
+    // Allies walk through each other's walls
+    this.pathfinder.invalidate();
+
+    this.tickEvents.push({
+      type: 'pact_formed',
+      data: { fromId, toId, pact },
+    });
+  }
+
   private handleRallyPoint(playerId: PlayerId, cmd: RallyPointCommand): void {
     const x = Math.round(cmd.buildingX);
     const y = Math.round(cmd.buildingY);
-    const tile = this.map.tiles[y]?.[x];
-    if (!tile || tile.ownerId !== playerId) return;
+    if (!this.map.inBounds(x, y)) return;
 
-    const key = tileKey(x, y);
-    this.rallyPoints.set(key, { x: cmd.rallyX, y: cmd.rallyY });
+    const i = this.map.index(x, y);
+    if (!this.map.isOwnedBy(i, playerId)) return;
+
+    this.rallyPoints.set(i, { x: cmd.rallyX, y: cmd.rallyY });
+  }
+
+  // ============================================================
+  // Construction
+  // ============================================================
+
+  private updateConstruction(dt: number): void {
+    const map = this.map;
+
+    for (const [i, site] of this.constructionSites) {
+      const x = i % map.width;
+      const y = (i - x) / map.width;
+
+      // A captured scaffold is torn down; the new owner gets nothing
+      if (!map.isOwnedBy(i, site.playerId)) {
+        this.clearConstruction(i);
+        this.tickEvents.push({
+          type: 'structure_destroyed',
+          data: { x, y, destroyedBy: map.getOwner(i) },
+        });
+        continue;
+      }
+
+      // Work stops while the site is cut off from the capital
+      if (!map.isConnected(i)) continue;
+
+      const maxHp = this.rules.buildingHp[site.structureType];
+      const step = site.buildTime > 0 ? Math.min(dt, site.buildTime - site.elapsed) / site.buildTime : 1;
+      site.elapsed += dt;
+      map.constructionProgress[i] = site.buildTime > 0 ? Math.min(1, site.elapsed / site.buildTime) : 1;
+      // HP grows alongside progress, on top of whatever damage the scaffold took
+      map.structureHp[i] = Math.min(maxHp, map.structureHp[i] + maxHp * (1 - SCAFFOLD_HP_RATIO) * step);
+
+      if (map.isComplete(i)) {
+        this.constructionSites.delete(i);
+        if (site.structureType === StructureType.MineUpgrade) {
+          map.mineLevel[i]++;
+        }
+        this.pathingChanged(i, site.structureType);
+
+        this.tickEvents.push({
+          type: 'construction_complete',
+          data: { playerId: site.playerId, structureType: site.structureType, x, y },
+        });
+      }
+    }
+  }
+
+  /**
+   * Restore HP on structures being repaired, charging the owner as the
+   * work is done. Work pauses while the tile is cut off from the capital
+   * or the owner is out of gold.
+   */
+  private updateRepairs(dt: number): void {
+    const map = this.map;
+    const { repairRate, repairCostPerHp } = this.rules.economy;
+
+    for (const [i, playerId] of this.repairs) {
+      const structureType = map.getStructure(i);
+      const player = this.players.get(playerId);
+
+      // Destroyed, rebuilt or captured since the order
+      if (!structureType || !map.isComplete(i) || !player || !map.isOwnedBy(i, playerId)) {
+        this.repairs.delete(i);
+        continue;
+      }
+      if (!map.isConnected(i)) continue;
+
+      const maxHp = this.rules.buildingHp[structureType];
+      let restored = Math.min(maxHp - map.structureHp[i], repairRate * dt);
+      if (repairCostPerHp > 0) restored = Math.min(restored, player.gold / repairCostPerHp);
+      map.structureHp[i] += restored;
+      player.gold -= restored * repairCostPerHp;
+
+      if (map.structureHp[i] >= maxHp) {
+        map.structureHp[i] = maxHp;
+        this.repairs.delete(i);
+
+        const x = i % map.width;
+        this.tickEvents.push({
+          type: 'repair_complete',
+          data: { playerId, structureType, x, y: (i - x) / map.width },
+        });
+      }
+    }
+  }
+
+  /**
+   * Remove an unfinished structure. A mine upgraded before keeps its
+   * finished upgrade; anything else leaves the tile empty.
+   */
+  private clearConstruction(i: number): void {
+    this.constructionSites.delete(i);
+
+    if (this.map.getStructure(i) === StructureType.MineUpgrade && this.map.mineLevel[i] > 0) {
+      // Keep the finished level, damage included
+      this.map.structureHp[i] = Math.min(this.map.structureHp[i], this.rules.buildingHp[StructureType.MineUpgrade]);
+    } else {
+      this.map.setStructure(i, null);
+      this.map.structureHp[i] = 0;
+    }
+    this.map.constructionProgress[i] = 1;
+  }
+
+  // ============================================================
+  // Squad Orders
+  // ============================================================
+
+  private updateSquadOrders(): void {
+    if (this.tick % Math.round(ORDER_UPDATE_INTERVAL * MATCH_CONFIG.TICK_RATE) !== 0) return;
+
+    for (const squad of this.squads.values()) {
+      switch (squad.order) {
+        case SquadOrder.Patrol:
+          this.continuePatrol(squad);
+          break;
+        case SquadOrder.Follow:
+          this.followLeader(squad);
+          break;
+        case SquadOrder.CaptureArea:
+          this.continueCapture(squad);
+          break;
+        case SquadOrder.Idle:
+          this.reactToEnemies(squad);
+          break;
+      }
+    }
+  }
+
+  private continuePatrol(squad: Squad): void {
+    if (squad.path.length > 0) return; // still on this leg
+
+    squad.patrolIndex = (squad.patrolIndex + 1) % squad.patrolRoute.length;
+    const point = squad.patrolRoute[squad.patrolIndex];
+    if (!this.routeSquad(squad, point.x, point.y)) {
+      // Walled off since the order was given
+      this.completeOrder(squad);
+    }
+  }
+
+  /**
+   * Walk the area tile by tile, standing on each until it is taken, nearest
+   * untaken tile first. The order ends once the whole area is ours.
+   */
+  private continueCapture(squad: Squad): void {
+    const area = squad.captureArea;
+    if (!area) {
+      this.completeOrder(squad);
+      return;
+    }
+    if (squad.path.length > 0) return; // still walking to the next tile
+
+    const map = this.map;
+    const radius = CAPTURE_AREA_RADIUS;
+    const hereX = Math.round(squad.x);
+    const hereY = Math.round(squad.y);
+
+    // Wait for the tile underfoot to fall first
+    if (map.inBounds(hereX, hereY) && distanceSq(hereX, hereY, area.x, area.y) <= radius * radius) {
+      const here = map.index(hereX, hereY);
+      if (!map.isOwnedBy(here, squad.ownerId) && map.getTerrain(here) !== TerrainType.Mountain) return;
+    }
+
+    let bestX = -1;
+    let bestY = -1;
+    let bestDist = Infinity;
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        if (dx * dx + dy * dy > radius * radius) continue;
+        const x = area.x + dx;
+        const y = area.y + dy;
+        if (!map.inBounds(x, y)) continue;
+
+        const i = map.index(x, y);
+        if (map.isOwnedBy(i, squad.ownerId) || map.getTerrain(i) === TerrainType.Mountain) continue;
+        if (this.pathfinder.blocks(i, squad.ownerId)) continue;
+
+        const d = distanceSq(hereX, hereY, x, y);
+        if (d < bestDist) {
+          bestDist = d;
+          bestX = x;
+          bestY = y;
+        }
+      }
+    }
+
+    if (bestDist === Infinity || !this.routeSquad(squad, bestX, bestY)) {
+      this.completeOrder(squad);
+    }
+  }
+
+  private followLeader(squad: Squad): void {
+    const leader = squad.followSquadId ? this.squads.get(squad.followSquadId) : undefined;
+    if (!leader) {
+      this.completeOrder(squad);
+      return;
+    }
+
+    if (distanceSq(squad.x, squad.y, leader.x, leader.y) <= FOLLOW_DISTANCE * FOLLOW_DISTANCE) {
+      squad.path = [];
+      squad.pathIndex = 0;
+      squad.targetX = null;
+      squad.targetY = null;
+      return;
+    }
+
+    const targetX = Math.round(leader.x);
+    const targetY = Math.round(leader.y);
+    if (squad.targetX !== targetX || squad.targetY !== targetY) {
+      this.routeSquad(squad, targetX, targetY);
+    }
+  }
+
+  /**
+   * Idle squads act on their stance: aggressive ones chase any enemy that
+   * comes near, defensive ones only those close to their post and walk
+   * back afterwards. Held and passive squads stay put.
+   */
+  private reactToEnemies(squad: Squad): void {
+    if (squad.stance !== SquadStance.Aggressive && squad.stance !== SquadStance.Defensive) return;
+
+    const enemy = this.findChaseTarget(squad);
+    if (enemy) {
+      const targetX = Math.round(enemy.x);
+      const targetY = Math.round(enemy.y);
+      if (squad.targetX !== targetX || squad.targetY !== targetY) {
+        this.routeSquad(squad, targetX, targetY);
+      }
+      return;
+    }
+
+    if (squad.stance === SquadStance.Aggressive) {
+      // Aggressive squads hold wherever the last chase ended
+      squad.anchorX = Math.round(squad.x);
+      squad.anchorY = Math.round(squad.y);
+      return;
+    }
+
+    const home = Math.round(squad.x) === squad.anchorX && Math.round(squad.y) === squad.anchorY;
+    const heading = squad.targetX === squad.anchorX && squad.targetY === squad.anchorY;
+    if (!home && !heading) {
+      this.routeSquad(squad, squad.anchorX, squad.anchorY);
+    }
+  }
+
+  private findChaseTarget(squad: Squad): Squad | null {
+    const enemies = this.spatialHash.findEnemiesInRange(squad.x, squad.y, squad.ownerId, AGGRO_RADIUS);
+    for (const entry of enemies) {
+      const enemy = this.squads.get(entry.id);
+      if (!enemy || enemy.units.length === 0) continue;
+      if (
+        squad.stance === SquadStance.Defensive &&
+        distanceSq(squad.anchorX, squad.anchorY, enemy.x, enemy.y) > DEFENSIVE_LEASH * DEFENSIVE_LEASH
+      ) {
+        continue;
+      }
+      return enemy;
+    }
+    return null;
   }
 
   // ============================================================
@@ -662,18 +1774,30 @@ export class Match {
   // ============================================================
 
   private updateUnitMovement(dt: number): void {
+    if (this.changedWalls.size > 0) {
+      this.replanAroundChangedWalls();
+    }
+
     for (const [squadId, squad] of this.squads) {
       if (!squad.path || squad.path.length === 0 || squad.pathIndex >= squad.path.length) {
         squad.path = [];
         squad.pathIndex = 0;
         squad.targetX = null;
         squad.targetY = null;
+        if (DESTINATION_ORDERS.has(squad.order)) this.completeOrder(squad);
         continue;
       }
 
+      // Standing to fight; the path is picked up again once the fight is over
+      if (this.engagedSquads.has(squadId)) continue;
+
+      const target = squad.path[squad.pathIndex];
+
+      // Hold in front of an enemy wall; attackEnemyStructures breaks it down
+      if (this.pathfinder.blocks(this.map.index(target.x, target.y), squad.ownerId)) continue;
+
       // Calculate speed (average of unit types in squad, affected by terrain)
       const speed = this.getSquadSpeed(squad);
-      const target = squad.path[squad.pathIndex];
 
       // Move toward next path node
       const dx = target.x - squad.x;
@@ -693,13 +1817,58 @@ export class Match {
         squad.y += dy * ratio;
       }
 
-      // Update spatial hash
-      this.spatialHash.insertOrUpdate({
-        id: squadId,
-        x: squad.x,
-        y: squad.y,
-        ownerId: squad.ownerId,
-      });
+      // Update spatial hash
+      this.spatialHash.insertOrUpdate({
+        id: squadId,
+        x: squad.x,
+        y: squad.y,
+        ownerId: squad.ownerId,
+      });
+    }
+  }
+
+  /**
+   * Re-plan squads whose remaining route crosses a wall that was finished
+   * or removed, so they go around new walls and through broken ones.
+   */
+  private replanAroundChangedWalls(): void {
+    for (const squad of this.squads.values()) {
+      if (squad.targetX === null || squad.targetY === null) continue;
+
+      let crosses = false;
+      for (let i = squad.pathIndex; i < squad.path.length; i++) {
+        if (this.changedWalls.has(this.map.index(squad.path[i].x, squad.path[i].y))) {
+          crosses = true;
+          break;
+        }
+      }
+      if (!crosses) continue;
+
+      const path = this.pathfinder.findPath(
+        squad.ownerId,
+        Math.round(squad.x),
+        Math.round(squad.y),
+        squad.targetX,
+        squad.targetY
+      );
+      squad.path = path ?? [];
+      squad.pathIndex = 0;
+      squad.moveProgress = 0;
+    }
+
+    this.changedWalls.clear();
+  }
+
+  /**
+   * Record a finished or removed structure. Walls and roads change routes,
+   * so cached flow fields are dropped and squads crossing walls re-plan.
+   */
+  private pathingChanged(i: number, structureType: StructureType): void {
+    if (structureType === StructureType.Wall || structureType === StructureType.Road) {
+      this.pathfinder.invalidate();
+    }
+    if (structureType === StructureType.Wall) {
+      this.changedWalls.add(i);
     }
   }
 
@@ -708,21 +1877,25 @@ export class Match {
 
     // Slowest unit determines squad speed
     let minSpeed = Infinity;
+    const researched = this.researchEffects(squad.ownerId).unitSpeed;
     for (const unit of squad.units) {
-      const stats = UNIT_STATS[unit.type];
-      if (stats.speed < minSpeed) minSpeed = stats.speed;
+      const speed = this.rules.units[unit.type].speed * (1 + this.rankBonus(unit).speedBonus + researched);
+      if (speed < minSpeed) minSpeed = speed;
     }
 
     // Terrain modifier
     const tileX = Math.round(squad.x);
     const tileY = Math.round(squad.y);
-    if (tileX >= 0 && tileY >= 0 && tileX < this.map.width && tileY < this.map.height) {
-      const tile = this.map.tiles[tileY][tileX];
-      if (tile.terrain === TerrainType.Forest) minSpeed *= 0.6;
-      if (tile.terrain === TerrainType.Water) minSpeed *= 0.4;
-      if (tile.structureType === StructureType.Road) minSpeed *= 1.5;
+    if (this.map.inBounds(tileX, tileY)) {
+      const i = this.map.index(tileX, tileY);
+      const terrain = this.map.getTerrain(i);
+      if (terrain === TerrainType.Forest) minSpeed *= 0.6;
+      if (terrain === TerrainType.Water) minSpeed *= 0.4;
+      if (this.map.getStructure(i) === StructureType.Road && this.map.isComplete(i)) minSpeed *= 1.5;
     }
 
+    if (squad.order === SquadOrder.Retreat) minSpeed *= RETREAT_SPEED_MULTIPLIER;
+
     return minSpeed;
   }
 
@@ -732,137 +1905,262 @@ export class Match {
 
   private resolveCombat(dt: number): void {
     const squadsToRemove: SquadId[] = [];
-    const processedPairs = new Set<string>();
+    const attacks: Array<{ attacker: Squad; target: Squad; hits: Hit[] }> = [];
+    this.engagedSquads.clear();
 
+    // Targeting pass: each squad picks the nearest enemy within its longest
+    // reach. Units only hit that target if it is within their own range, so
+    // archers open fire while melee units still have to close the distance.
     for (const [squadId, squad] of this.squads) {
       if (squad.units.length === 0) {
         squadsToRemove.push(squadId);
         continue;
       }
 
-      // Find nearby enemies
-      const enemies = this.spatialHash.findEnemiesInRange(
-        squad.x, squad.y, squad.ownerId, 2
-      );
-
-      for (const enemyEntry of enemies) {
-        const enemySquad = this.squads.get(enemyEntry.id);
-        if (!enemySquad || enemySquad.units.length === 0) continue;
+      // Passive and retreating squads never attack
+      if (squad.stance === SquadStance.Passive || squad.order === SquadOrder.Retreat) continue;
 
-        // Avoid processing same pair twice
-        const pairKey = [squadId, enemyEntry.id].sort().join(':');
-        if (processedPairs.has(pairKey)) continue;
-        processedPairs.add(pairKey);
+      const range = this.squadRange(squad);
+      const target = this.findCombatTarget(squad, range.max);
+      if (target) {
+        const dist = Math.sqrt(distanceSq(squad.x, squad.y, target.x, target.y));
+        const { hits, shooters } = this.assignDamage(squad, target, dist, dt);
 
-        const dist = Math.sqrt(distanceSq(squad.x, squad.y, enemySquad.x, enemySquad.y));
+        if (hits.length > 0) {
+          attacks.push({ attacker: squad, target, hits });
+        }
+        if (shooters > 0) {
+          this.announceVolley(squad, target, shooters);
+        }
 
-        // Engage combat
-        this.engageCombat(squad, enemySquad, dist, dt);
+        // Halt once every unit can reach, unless told to keep moving
+        const keepsMoving = squad.order === SquadOrder.Move;
+        if (!keepsMoving && dist <= range.min + RANGE_TOLERANCE) {
+          this.engagedSquads.add(squadId);
+        }
       }
 
       // Also attack enemy structures
       this.attackEnemyStructures(squad, dt);
     }
 
+    // Damage lands after targeting so squads that fall this tick still hit back
+    for (const attack of attacks) {
+      this.applyHits(attack.target, attack.hits, attack.attacker);
+    }
+
     // Remove empty squads
     for (const id of squadsToRemove) {
       this.removeSquad(id);
     }
   }
 
-  private engageCombat(squad1: Squad, squad2: Squad, distance: number, dt: number): void {
-    // squad1 attacks squad2 and vice versa
-
-    // Calculate damage from squad1 to squad2
-    const dmg1to2 = this.calculateSquadDamage(squad1, distance, dt);
-    const dmg2to1 = this.calculateSquadDamage(squad2, distance, dt);
+  /**
+   * Shortest and longest unit range in the squad.
+   */
+  private squadRange(squad: Squad): { min: number; max: number } {
+    let min = Infinity;
+    let max = 0;
+    for (const unit of squad.units) {
+      const range = this.rules.units[unit.type].range;
+      if (range < min) min = range;
+      if (range > max) max = range;
+    }
+    return { min, max };
+  }
 
-    // Apply damage
-    this.applyDamageToSquad(squad2, dmg1to2, squad1.ownerId);
-    this.applyDamageToSquad(squad1, dmg2to1, squad2.ownerId);
+  /**
+   * Nearest living enemy squad within `reach` (the squad's longest range).
+   */
+  private findCombatTarget(squad: Squad, reach: number): Squad | null {
+    const enemies = this.spatialHash.findEnemiesInRange(
+      squad.x, squad.y, squad.ownerId, reach + RANGE_TOLERANCE
+    );
 
-    // Stop movement during combat
-    if (distance <= 1.5) {
-      squad1.path = [];
-      squad1.pathIndex = 0;
-      squad2.path = [];
-      squad2.pathIndex = 0;
+    for (const enemyEntry of enemies) {
+      const enemySquad = this.squads.get(enemyEntry.id);
+      if (enemySquad && enemySquad.units.length > 0) return enemySquad;
     }
+    return null;
   }
 
-  private calculateSquadDamage(squad: Squad, distance: number, dt: number): number {
-    let totalDamage = 0;
+  /**
+   * Each unit in range picks the enemy unit it does the most damage to,
+   * finishing off the weakest on ties. Also counts the ranged units firing.
+   */
+  private assignDamage(squad: Squad, target: Squad, distance: number, dt: number): { hits: Hit[]; shooters: number } {
+    const hits: Hit[] = [];
+    let shooters = 0;
+    const researched = this.researchEffects(squad.ownerId).unitDamage;
 
     for (const unit of squad.units) {
-      const stats = UNIT_STATS[unit.type];
+      const stats = this.rules.units[unit.type];
 
       // Check if unit can attack at this distance
-      if (distance > stats.range + 0.5) continue;
+      if (distance > stats.range + RANGE_TOLERANCE) continue;
+
+      const modifiers = this.rules.damageModifiers[unit.type];
+      let victim: Unit | null = null;
+      let best = -1;
+      for (const enemy of target.units) {
+        const modifier = modifiers[this.rules.units[enemy.type].armor];
+        if (modifier > best || (modifier === best && victim && enemy.hp < victim.hp)) {
+          victim = enemy;
+          best = modifier;
+        }
+      }
+      if (!victim || best <= 0) continue;
 
-      totalDamage += stats.damage * dt;
+      const damage = stats.damage * (1 + this.rankBonus(unit).damageBonus + researched) * best * dt;
+      hits.push({ unit: victim, damage, attacker: unit });
+      if (stats.range > 1) shooters++;
     }
 
-    return totalDamage;
+    return { hits, shooters };
   }
 
-  private applyDamageToSquad(squad: Squad, damage: number, attackerOwnerId: PlayerId): void {
-    if (damage <= 0 || squad.units.length === 0) return;
-
-    // Distribute damage across units (front units take more)
-    const perUnit = damage / Math.min(squad.units.length, 3); // front 3 units absorb damage
+  /**
+   * Emit a `ranged_attack` event for the client to animate, at most once
+   * per VOLLEY_INTERVAL per squad.
+   */
+  private announceVolley(squad: Squad, target: Squad, shooters: number): void {
+    const last = this.lastVolley.get(squad.id);
+    if (last !== undefined && this.tick - last < VOLLEY_INTERVAL * MATCH_CONFIG.TICK_RATE) return;
+    this.lastVolley.set(squad.id, this.tick);
 
-    let unitsToRemove: number[] = [];
-    const limit = Math.min(squad.units.length, 3);
+    this.tickEvents.push({
+      type: 'ranged_attack',
+      data: {
+        playerId: squad.ownerId,
+        squadId: squad.id,
+        x: squad.x,
+        y: squad.y,
+        targetX: target.x,
+        targetY: target.y,
+        shooters,
+      },
+    });
+  }
 
-    for (let i = 0; i < limit; i++) {
-      squad.units[i].hp -= perUnit;
-      if (squad.units[i].hp <= 0) {
-        unitsToRemove.push(i);
+  private applyHits(squad: Squad, hits: Hit[], attacker: Squad): void {
+    const { xpPerGold, killBonus } = this.rules.veterancy;
+    this.lastCombat.set(squad.id, this.tick);
+    this.lastCombat.set(attacker.id, this.tick);
+    let kills = 0;
+    for (const hit of hits) {
+      if (hit.unit.hp <= 0) continue; // already killed this tick
+      const dealt = Math.min(hit.damage, hit.unit.hp);
+      hit.unit.hp -= hit.damage;
+
+      // Experience for the share of the victim's cost destroyed
+      let xp = (dealt / hit.unit.maxHp) * this.rules.units[hit.unit.type].cost * xpPerGold;
+      if (hit.unit.hp <= 0) {
+        kills++;
+        xp += killBonus;
       }
+      this.gainExperience(attacker, hit.attacker, xp);
     }
+    if (kills === 0) return;
 
     // Remove dead units (reverse order to maintain indices)
-    for (let i = unitsToRemove.length - 1; i >= 0; i--) {
-      const deadUnit = squad.units[unitsToRemove[i]];
-      squad.units.splice(unitsToRemove[i], 1);
+    for (let i = squad.units.length - 1; i >= 0; i--) {
+      if (squad.units[i].hp <= 0) squad.units.splice(i, 1);
+    }
 
-      // Update stats
-      const attackerStats = this.playerStats.get(attackerOwnerId);
-      if (attackerStats) attackerStats.unitsKilled++;
+    // Update stats
+    const attackerStats = this.playerStats.get(attacker.ownerId);
+    if (attackerStats) attackerStats.unitsKilled += kills;
 
-      const defenderStats = this.playerStats.get(squad.ownerId);
-      if (defenderStats) defenderStats.unitsLost++;
-    }
+    const defenderStats = this.playerStats.get(squad.ownerId);
+    if (defenderStats) defenderStats.unitsLost += kills;
+  }
+
+  /**
+   * Add experience to a unit and promote it through every rank it now
+   * qualifies for. Promotion raises max HP and heals by the same amount.
+   */
+  private gainExperience(squad: Squad, unit: Unit, xp: number): void {
+    if (xp <= 0 || unit.hp <= 0) return;
+    unit.xp += xp;
+
+    const ranks = this.rules.veterancy.ranks;
+    const before = unit.rank;
+    while (unit.rank < ranks.length && unit.xp >= ranks[unit.rank].xp) unit.rank++;
+    if (unit.rank === before) return;
+
+    this.refreshMaxHp(squad.ownerId, unit);
+
+    this.tickEvents.push({
+      type: 'unit_promoted',
+      data: { playerId: squad.ownerId, squadId: squad.id, unitType: unit.type, rank: unit.rank },
+    });
+  }
+
+  private rankBonus(unit: Unit): VeterancyRank {
+    return this.rules.veterancy.ranks[unit.rank - 1] ?? RECRUIT;
+  }
+
+  private newUnit(ownerId: PlayerId, type: UnitType): Unit {
+    const maxHp = this.rules.units[type].maxHp * (1 + this.researchEffects(ownerId).unitHp);
+    return { id: this.nextId('u'), type, hp: maxHp, maxHp, xp: 0, rank: 0 };
+  }
+
+  /**
+   * Recompute a unit's max HP from its rank and its owner's research,
+   * healing it by whatever it gained.
+   */
+  private refreshMaxHp(ownerId: PlayerId, unit: Unit): void {
+    const bonus = this.rankBonus(unit).hpBonus + this.researchEffects(ownerId).unitHp;
+    const maxHp = this.rules.units[unit.type].maxHp * (1 + bonus);
+    unit.hp += maxHp - unit.maxHp;
+    unit.maxHp = maxHp;
   }
 
   private attackEnemyStructures(squad: Squad, dt: number): void {
-    const tileX = Math.round(squad.x);
-    const tileY = Math.round(squad.y);
+    const map = this.map;
+    let tileX = Math.round(squad.x);
+    let tileY = Math.round(squad.y);
+
+    if (!map.inBounds(tileX, tileY)) return;
 
-    if (tileX < 0 || tileY < 0 || tileX >= this.map.width || tileY >= this.map.height) return;
+    let i = map.index(tileX, tileY);
 
-    const tile = this.map.tiles[tileY][tileX];
+    // A squad held up by a wall attacks the wall instead
+    const next = squad.path[squad.pathIndex];
+    if (next && this.pathfinder.blocks(map.index(next.x, next.y), squad.ownerId)) {
+      tileX = next.x;
+      tileY = next.y;
+      i = map.index(tileX, tileY);
+    }
 
-    // Attack enemy structures on this tile
-    if (tile.structureType && tile.ownerId && tile.ownerId !== squad.ownerId) {
+    // Attack enemy structures on this tile; pacts keep squads off partners' buildings
+    const structureType = map.getStructure(i);
+    const ownerId = map.getOwner(i);
+    if (structureType && ownerId && this.diplomacy.isHostile(squad.ownerId, ownerId)) {
       let totalDamage = 0;
       for (const unit of squad.units) {
-        const stats = UNIT_STATS[unit.type];
+        const stats = this.rules.units[unit.type];
         // Siege rams do bonus damage to structures
         const multiplier = unit.type === UnitType.SiegeRam ? 3.0 : 1.0;
         totalDamage += stats.damage * multiplier * dt;
       }
 
-      tile.structureHp -= totalDamage;
+      map.structureHp[i] -= totalDamage;
 
-      if (tile.structureHp <= 0) {
+      if (map.structureHp[i] <= 0) {
         // Check if this was a castle
-        if (tile.structureType === StructureType.Castle) {
-          this.eliminatePlayer(tile.ownerId);
+        if (structureType === StructureType.Castle) {
+          this.eliminatePlayer(ownerId);
+        }
+
+        if (map.isComplete(i)) {
+          this.pathingChanged(i, structureType);
         }
 
-        tile.structureType = null;
-        tile.structureHp = 0;
+        map.setStructure(i, null);
+        map.structureHp[i] = 0;
+        map.constructionProgress[i] = 1;
+        this.constructionSites.delete(i);
 
         this.tickEvents.push({
           type: 'structure_destroyed',
@@ -877,43 +2175,46 @@ export class Match {
   // ============================================================
 
   private updateTowers(dt: number): void {
-    for (let y = 0; y < this.map.height; y++) {
-      for (let x = 0; x < this.map.width; x++) {
-        const tile = this.map.tiles[y][x];
-        if (tile.structureType !== StructureType.Tower) continue;
-        if (!tile.ownerId) continue;
-        if (!tile.connected) continue;
-
-        const key = tileKey(x, y);
-        const lastFired = this.towerCooldowns.get(key) ?? 0;
-        const cooldownTicks = Math.floor(MATCH_CONFIG.TICK_RATE / TOWER_STATS.fireRate);
-
-        if (this.tick - lastFired < cooldownTicks) continue;
-
-        // Find nearest enemy in range
-        const enemy = this.spatialHash.findNearestEnemy(x, y, tile.ownerId, TOWER_STATS.range);
-        if (enemy) {
-          const enemySquad = this.squads.get(enemy.id);
-          if (enemySquad && enemySquad.units.length > 0) {
-            // Apply tower damage to a random unit
-            const targetIdx = Math.floor(Math.random() * Math.min(enemySquad.units.length, 2));
-            enemySquad.units[targetIdx].hp -= TOWER_STATS.damage;
-
-            if (enemySquad.units[targetIdx].hp <= 0) {
-              enemySquad.units.splice(targetIdx, 1);
-              const ownerStats = this.playerStats.get(tile.ownerId);
-              if (ownerStats) ownerStats.unitsKilled++;
-              const enemyStats = this.playerStats.get(enemySquad.ownerId);
-              if (enemyStats) enemyStats.unitsLost++;
-            }
+    const map = this.map;
+    const cooldownTicks = Math.floor(MATCH_CONFIG.TICK_RATE / this.rules.tower.fireRate);
+
+    for (const i of map.towers) {
+      if (!map.isComplete(i)) continue;
+      if (!map.isConnected(i)) continue;
+      const ownerId = map.getOwner(i);
+      if (!ownerId) continue;
+
+      const lastFired = this.towerCooldowns.get(i) ?? 0;
+      if (this.tick - lastFired < cooldownTicks) continue;
+
+      const x = i % map.width;
+      const y = (i - x) / map.width;
+      const researched = this.researchEffects(ownerId);
+
+      // Find nearest enemy in range
+      const enemy = this.spatialHash.findNearestEnemy(x, y, ownerId, this.rules.tower.range + researched.towerRange);
+      if (enemy) {
+        const enemySquad = this.squads.get(enemy.id);
+        if (enemySquad && enemySquad.units.length > 0) {
+          // Apply tower damage to a random unit
+          const targetIdx = this.rng.int(Math.min(enemySquad.units.length, 2));
+          enemySquad.units[targetIdx].hp -= this.rules.tower.damage * (1 + researched.towerDamage);
+          this.lastCombat.set(enemySquad.id, this.tick);
+
+          if (enemySquad.units[targetIdx].hp <= 0) {
+            enemySquad.units.splice(targetIdx, 1);
+            const ownerStats = this.playerStats.get(ownerId);
+            if (ownerStats) ownerStats.unitsKilled++;
+            const enemyStats = this.playerStats.get(enemySquad.ownerId);
+            if (enemyStats) enemyStats.unitsLost++;
+          }
 
-            this.towerCooldowns.set(key, this.tick);
+          this.towerCooldowns.set(i, this.tick);
 
-            this.tickEvents.push({
-              type: 'tower_fire',
-              data: { x, y, targetX: enemy.x, targetY: enemy.y },
-            });
-          }
+          this.tickEvents.push({
+            type: 'tower_fire',
+            data: { x, y, targetX: enemy.x, targetY: enemy.y },
+          });
         }
       }
     }
@@ -925,12 +2226,14 @@ export class Match {
 
   private updateTerritory(dt: number): void {
     // Build a set of tiles that have squads on them
-    const squadPositions = new Map<string, { playerId: PlayerId; unitCount: number }>();
+    const map = this.map;
+    const squadPositions = new Map<number, { playerId: PlayerId; unitCount: number }>(); // key: tile index
 
     for (const [, squad] of this.squads) {
       const tx = Math.round(squad.x);
       const ty = Math.round(squad.y);
-      const key = tileKey(tx, ty);
+      if (!map.inBounds(tx, ty)) continue;
+      const key = map.index(tx, ty);
 
       const existing = squadPositions.get(key);
       if (existing && existing.playerId === squad.ownerId) {
@@ -945,38 +2248,42 @@ export class Match {
     }
 
     // Process capture for tiles with squads
-    for (const [key, presence] of squadPositions) {
-      const [tx, ty] = key.split(',').map(Number);
-      if (tx < 0 || ty < 0 || tx >= this.map.width || ty >= this.map.height) continue;
+    for (const [i, presence] of squadPositions) {
+      if (map.getTerrain(i) === TerrainType.Mountain) continue;
 
-      const tile = this.map.tiles[ty][tx];
-      if (tile.terrain === TerrainType.Mountain) continue;
+      const owned = map.isOwnedBy(i, presence.playerId);
+      const captureRate = this.rules.captureRate * (1 + this.researchEffects(presence.playerId).captureRate);
 
       // Skip if already fully owned by this player
-      if (tile.ownerId === presence.playerId && tile.captureProgress >= MATCH_CONFIG.CAPTURE_THRESHOLD) {
+      if (owned && map.captureProgress[i] >= this.rules.captureThreshold) {
         continue;
       }
 
+      // Pact partners' land is safe to stand on
+      const tileOwner = map.getOwner(i);
+      if (!owned && tileOwner && !this.diplomacy.isHostile(presence.playerId, tileOwner)) continue;
+
       // If tile belongs to someone else or is neutral
-      if (tile.ownerId !== presence.playerId) {
+      if (!owned) {
         // If someone else is capturing, reset if different player
-        if (tile.capturingPlayerId && tile.capturingPlayerId !== presence.playerId) {
+        const capturingPlayerId = map.getCapturer(i);
+        if (capturingPlayerId && capturingPlayerId !== presence.playerId) {
           // Contested — reduce progress
-          tile.captureProgress -= MATCH_CONFIG.CAPTURE_RATE * dt * presence.unitCount * 0.5;
-          if (tile.captureProgress <= 0) {
-            tile.captureProgress = 0;
-            tile.capturingPlayerId = presence.playerId;
+          map.captureProgress[i] -= captureRate * dt * presence.unitCount * 0.5;
+          if (map.captureProgress[i] <= 0) {
+            map.captureProgress[i] = 0;
+            map.setCapturer(i, presence.playerId);
           }
         } else {
-          tile.capturingPlayerId = presence.playerId;
-          tile.captureProgress += MATCH_CONFIG.CAPTURE_RATE * dt * Math.min(presence.unitCount, 5);
+          map.setCapturer(i, presence.playerId);
+          map.captureProgress[i] += captureRate * dt * Math.min(presence.unitCount, 5);
 
-          if (tile.captureProgress >= MATCH_CONFIG.CAPTURE_THRESHOLD) {
+          if (map.captureProgress[i] >= this.rules.captureThreshold) {
             // Tile captured!
-            const previousOwner = tile.ownerId;
-            tile.ownerId = presence.playerId;
-            tile.captureProgress = MATCH_CONFIG.CAPTURE_THRESHOLD;
-            tile.capturingPlayerId = null;
+            const previousOwner = tileOwner;
+            map.setOwner(i, presence.playerId);
+            map.captureProgress[i] = this.rules.captureThreshold;
+            map.setCapturer(i, null);
 
             // Update territory counts
             const capturer = this.players.get(presence.playerId);
@@ -1000,101 +2307,301 @@ export class Match {
   // ============================================================
 
   private updateSupplyLines(): void {
+    const map = this.map;
+
     // Reset all connected flags
-    for (let y = 0; y < this.map.height; y++) {
-      for (let x = 0; x < this.map.width; x++) {
-        this.map.tiles[y][x].connected = false;
-      }
+    for (let i = 0; i < map.size; i++) {
+      map.setConnected(i, false);
     }
 
-    // Flood fill from each player's capital
+    // Flood fill from each player's capital. Flags double as the visited
+    // set, since every tile is reached by at most its own owner's fill.
+    const queue = this.supplyQueue;
     for (const [playerId, player] of this.players) {
       if (!player.alive || !player.spawnSelected) continue;
+      if (!map.inBounds(player.capitalX, player.capitalY)) continue;
 
-      const capitalTile = this.map.tiles[player.capitalY]?.[player.capitalX];
-      if (!capitalTile || capitalTile.ownerId !== playerId) {
+      const capital = map.index(player.capitalX, player.capitalY);
+      if (!map.isOwnedBy(capital, playerId)) {
         // Capital lost — player's territory is all disconnected
         continue;
       }
 
-      // BFS flood fill
-      const visited = new Set<string>();
-      const queue: Array<{ x: number; y: number }> = [{ x: player.capitalX, y: player.capitalY }];
-      visited.add(tileKey(player.capitalX, player.capitalY));
+      const slot = map.owner[capital];
+      let head = 0;
+      let tail = 0;
+      queue[tail++] = capital;
+      map.setConnected(capital, true);
 
-      while (queue.length > 0) {
-        const current = queue.shift()!;
-        const tile = this.map.tiles[current.y][current.x];
-        tile.connected = true;
+      while (head < tail) {
+        const current = queue[head++];
+        const cx = current % map.width;
 
         // Check 4 neighbors
-        const neighbors = [
-          { x: current.x - 1, y: current.y },
-          { x: current.x + 1, y: current.y },
-          { x: current.x, y: current.y - 1 },
-          { x: current.x, y: current.y + 1 },
-        ];
+        if (cx > 0) tail = this.connectSupply(current - 1, slot, queue, tail);
+        if (cx < map.width - 1) tail = this.connectSupply(current + 1, slot, queue, tail);
+        if (current >= map.width) tail = this.connectSupply(current - map.width, slot, queue, tail);
+        if (current < map.size - map.width) tail = this.connectSupply(current + map.width, slot, queue, tail);
+      }
 
-        for (const n of neighbors) {
-          if (n.x < 0 || n.y < 0 || n.x >= this.map.width || n.y >= this.map.height) continue;
+      this.connectDepots(playerId, slot, capital);
+    }
 
-          const nKey = tileKey(n.x, n.y);
-          if (visited.has(nKey)) continue;
+    // Recount territory for each player
+    const counts = new Uint32Array(256);
+    for (let i = 0; i < map.size; i++) {
+      counts[map.owner[i]]++;
+    }
+    for (const [pid, player] of this.players) {
+      player.territoryCount = counts[map.slotOf(pid)];
+    }
+  }
 
-          const nTile = this.map.tiles[n.y][n.x];
-          if (nTile.ownerId !== playerId) continue;
-          if (nTile.terrain === TerrainType.Mountain) continue;
+  /**
+   * Heal squads resting on supplied land and wear down those that have
+   * spent longer than the grace period out of supply. Units that die of
+   * attrition count as lost, with nobody credited for the kill.
+   */
+  private updateSquadSupply(dt: number): void {
+    const map = this.map;
+    const { healRate, attritionGrace, attritionRate } = this.rules.supply;
+    const healDelay = HEAL_DELAY * MATCH_CONFIG.TICK_RATE;
+
+    for (const squad of this.squads.values()) {
+      if (squad.units.length === 0) continue;
+
+      const x = Math.round(squad.x);
+      const y = Math.round(squad.y);
+      if (!map.inBounds(x, y)) continue;
+
+      const i = map.index(x, y);
+      const ownerId = map.getOwner(i);
+      if (!ownerId) {
+        squad.supply = SupplyStatus.Neutral;
+      } else if (map.isConnected(i) && this.diplomacy.isAllied(squad.ownerId, ownerId)) {
+        squad.supply = SupplyStatus.Supplied;
+      } else {
+        squad.supply = SupplyStatus.Unsupplied;
+      }
 
-          visited.add(nKey);
-          queue.push(n);
+      if (squad.supply === SupplyStatus.Supplied) {
+        squad.unsuppliedFor = 0;
+        const lastCombat = this.lastCombat.get(squad.id);
+        if (lastCombat !== undefined && this.tick - lastCombat < healDelay) continue;
+        for (const unit of squad.units) {
+          unit.hp = Math.min(unit.maxHp, unit.hp + unit.maxHp * healRate * dt);
         }
+        continue;
       }
-    }
 
-    // Recount territory for each player
-    const counts = new Map<PlayerId, number>();
-    for (let y = 0; y < this.map.height; y++) {
-      for (let x = 0; x < this.map.width; x++) {
-        const tile = this.map.tiles[y][x];
-        if (tile.ownerId) {
-          counts.set(tile.ownerId, (counts.get(tile.ownerId) ?? 0) + 1);
+      if (squad.supply === SupplyStatus.Neutral) continue;
+
+      squad.unsuppliedFor += dt;
+      if (squad.unsuppliedFor <= attritionGrace) continue;
+
+      let lost = 0;
+      for (let u = squad.units.length - 1; u >= 0; u--) {
+        const unit = squad.units[u];
+        unit.hp -= unit.maxHp * attritionRate * dt;
+        if (unit.hp <= 0) {
+          squad.units.splice(u, 1);
+          lost++;
         }
       }
+      if (lost === 0) continue;
+
+      const stats = this.playerStats.get(squad.ownerId);
+      if (stats) stats.unitsLost += lost;
+
+      this.tickEvents.push({
+        type: 'attrition',
+        data: { playerId: squad.ownerId, squadId: squad.id, x, y, lost },
+        recipients: [squad.ownerId],
+      });
     }
-    for (const [pid, player] of this.players) {
-      player.territoryCount = counts.get(pid) ?? 0;
+  }
+
+  /**
+   * Mark which of a player's depots are active and connect the land
+   * around them. A depot is active once established, or while a chain of
+   * finished roads and depots links it to the capital or to an
+   * established depot. Owners hear when an active depot goes dark.
+   */
+  private connectDepots(playerId: PlayerId, slot: number, capital: number): void {
+    const map = this.map;
+    const { depotRadius, depotEstablishTime } = this.rules.supply;
+    const queue = this.supplyQueue;
+    const marks = this.supplyMarks;
+
+    const owned: number[] = [];
+    for (const [i, depot] of this.depots) {
+      if (depot.playerId === playerId) owned.push(i);
+    }
+    if (owned.length === 0) return;
+
+    // Follow road chains out from the capital and every established depot
+    const stamp = ++this.supplyStamp;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = capital;
+    marks[capital] = stamp;
+    for (const i of owned) {
+      if (this.depots.get(i)!.heldFor < depotEstablishTime) continue;
+      marks[i] = stamp;
+      queue[tail++] = i;
+    }
+
+    while (head < tail) {
+      const current = queue[head++];
+      const cx = current % map.width;
+
+      if (cx > 0) tail = this.followRoad(current - 1, slot, stamp, queue, tail);
+      if (cx < map.width - 1) tail = this.followRoad(current + 1, slot, stamp, queue, tail);
+      if (current >= map.width) tail = this.followRoad(current - map.width, slot, stamp, queue, tail);
+      if (current < map.size - map.width) tail = this.followRoad(current + map.width, slot, stamp, queue, tail);
+    }
+
+    const active: number[] = [];
+    for (const i of owned) {
+      const depot = this.depots.get(i)!;
+      const wasActive = depot.active;
+      depot.active = marks[i] === stamp;
+      if (depot.active) {
+        active.push(i);
+      } else if (wasActive) {
+        const x = i % map.width;
+        this.tickEvents.push({
+          type: 'depot_cut',
+          data: { playerId, x, y: (i - x) / map.width },
+          recipients: [playerId],
+        });
+      }
+    }
+
+    // Connect owned land within the radius of each active depot
+    for (const depot of active) {
+      const fill = ++this.supplyStamp;
+      head = 0;
+      tail = 0;
+      queue[tail++] = depot;
+      marks[depot] = fill;
+      map.setConnected(depot, true);
+
+      while (head < tail) {
+        const current = queue[head++];
+        const cx = current % map.width;
+
+        if (cx > 0) tail = this.spreadDepotSupply(current - 1, depot, slot, fill, depotRadius, tail);
+        if (cx < map.width - 1) tail = this.spreadDepotSupply(current + 1, depot, slot, fill, depotRadius, tail);
+        if (current >= map.width) tail = this.spreadDepotSupply(current - map.width, depot, slot, fill, depotRadius, tail);
+        if (current < map.size - map.width) tail = this.spreadDepotSupply(current + map.width, depot, slot, fill, depotRadius, tail);
+      }
+    }
+  }
+
+  private spreadDepotSupply(i: number, depot: number, slot: number, fill: number, radius: number, tail: number): number {
+    const map = this.map;
+    if (this.supplyMarks[i] === fill || map.owner[i] !== slot) return tail;
+    if (map.getTerrain(i) === TerrainType.Mountain) return tail;
+
+    const x = i % map.width;
+    const depotX = depot % map.width;
+    if (distanceSq(x, (i - x) / map.width, depotX, (depot - depotX) / map.width) > radius * radius) return tail;
+
+    this.supplyMarks[i] = fill;
+    map.setConnected(i, true);
+    this.supplyQueue[tail] = i;
+    return tail + 1;
+  }
+
+  private followRoad(i: number, slot: number, stamp: number, queue: Int32Array, tail: number): number {
+    const map = this.map;
+    if (this.supplyMarks[i] === stamp || map.owner[i] !== slot) return tail;
+    if (map.structure[i] !== ROAD && map.structure[i] !== DEPOT) return tail;
+    if (!map.isComplete(i)) return tail;
+
+    this.supplyMarks[i] = stamp;
+    queue[tail] = i;
+    return tail + 1;
+  }
+
+  /**
+   * Track finished depots: start a fresh record when one is finished or
+   * changes hands, and count the time each spends supplied towards its
+   * establish time.
+   */
+  private updateDepots(dt: number): void {
+    const map = this.map;
+    const { depotEstablishTime } = this.rules.supply;
+
+    for (const i of this.depots.keys()) {
+      if (!map.depots.has(i) || !map.isComplete(i)) this.depots.delete(i);
+    }
+
+    for (const i of map.depots) {
+      if (!map.isComplete(i)) continue;
+      const playerId = map.getOwner(i);
+      if (!playerId) continue;
+
+      let depot = this.depots.get(i);
+      if (!depot || depot.playerId !== playerId) {
+        depot = { playerId, heldFor: 0, active: false };
+        this.depots.set(i, depot);
+      }
+
+      if (depot.heldFor >= depotEstablishTime || !map.isConnected(i)) continue;
+      depot.heldFor = Math.min(depotEstablishTime, depot.heldFor + dt);
+
+      if (depot.heldFor >= depotEstablishTime) {
+        const x = i % map.width;
+        this.tickEvents.push({
+          type: 'depot_established',
+          data: { playerId, x, y: (i - x) / map.width },
+          recipients: [playerId],
+        });
+      }
     }
   }
 
+  private connectSupply(i: number, slot: number, queue: Int32Array, tail: number): number {
+    const map = this.map;
+    if (map.owner[i] !== slot || map.isConnected(i)) return tail;
+    if (map.getTerrain(i) === TerrainType.Mountain) return tail;
+
+    map.setConnected(i, true);
+    queue[tail] = i;
+    return tail + 1;
+  }
+
   // ============================================================
   // Economy
   // ============================================================
 
   private calculateEconomy(dt: number): void {
+    const map = this.map;
+    const economy = this.rules.economy;
+
+    // Connected tiles and mine income per player slot, in one pass
+    const connectedTiles = new Uint32Array(256);
+    const mineIncome = new Float64Array(256);
+    for (let i = 0; i < map.size; i++) {
+      if (map.isConnected(i)) connectedTiles[map.owner[i]]++;
+    }
+    for (const i of map.mines) {
+      if (!map.isConnected(i)) continue;
+      mineIncome[map.owner[i]] += economy.baseMineIncome + map.mineLevel[i] * economy.mineUpgradeBonus;
+    }
+
     for (const [playerId, player] of this.players) {
       if (!player.alive) continue;
 
       // Calculate expansion penalty
-      const incomeMultiplier = 1 / (1 + Math.pow(player.territoryCount / ECONOMY.EXPANSION_PENALTY_DIVISOR, ECONOMY.EXPANSION_PENALTY_EXPONENT));
-
-      let baseIncome = 0;
+      const divisor = economy.expansionPenaltyDivisor * (1 + this.researchEffects(playerId).expansionRelief);
+      const incomeMultiplier = 1 / (1 + Math.pow(player.territoryCount / divisor, economy.expansionPenaltyExponent));
 
-      // Mine income
-      for (let y = 0; y < this.map.height; y++) {
-        for (let x = 0; x < this.map.width; x++) {
-          const tile = this.map.tiles[y][x];
-          if (tile.ownerId !== playerId) continue;
-          if (!tile.connected) continue;
-
-          if (tile.terrain === TerrainType.Mine) {
-            const mineIncome = ECONOMY.BASE_MINE_INCOME + tile.mineLevel * ECONOMY.MINE_UPGRADE_BONUS;
-            baseIncome += mineIncome;
-          }
-
-          // Passive territory income
-          baseIncome += ECONOMY.PASSIVE_TERRITORY_INCOME;
-        }
-      }
+      // Mine income plus passive territory income
+      const slot = map.slotOf(playerId);
+      const baseIncome = mineIncome[slot] + connectedTiles[slot] * economy.passiveTerritoryIncome;
 
       const goldPerSecond = baseIncome * incomeMultiplier;
       player.goldPerSecond = Math.round(goldPerSecond * 100) / 100;
@@ -1114,11 +2621,12 @@ export class Match {
       if (queue.length === 0) continue;
 
       const order = queue[0];
-      const [bx, by] = key.split(',').map(Number);
-      const tile = this.map.tiles[by]?.[bx];
+      const bx = key % this.map.width;
+      const by = (key - bx) / this.map.width;
+      const ownerId = this.map.getOwner(key);
 
       // Verify building still exists and is connected
-      if (!tile || !tile.structureType || !tile.ownerId || !tile.connected) {
+      if (!this.map.productionBuildings.has(key) || !ownerId || !this.map.isConnected(key)) {
         queue.length = 0;
         continue;
       }
@@ -1129,32 +2637,25 @@ export class Match {
         queue.shift();
 
         // Spawn unit
-        const rallyKey = tileKey(bx, by);
-        const rally = this.rallyPoints.get(rallyKey);
+        const rally = this.rallyPoints.get(key);
         const spawnX = rally ? rally.x : bx;
         const spawnY = rally ? rally.y : by + 1;
 
         // Try to merge into existing squad at spawn point
         let merged = false;
         for (const [, squad] of this.squads) {
-          if (squad.ownerId !== tile.ownerId) continue;
+          if (squad.ownerId !== ownerId) continue;
           if (Math.abs(squad.x - bx) > 2 && Math.abs(squad.y - by) > 2) continue;
-          if (squad.units.length >= 20) continue; // Max squad size
+          if (squad.units.length >= MATCH_CONFIG.MAX_SQUAD_SIZE) continue;
           if (squad.path.length > 0) continue; // Don't merge with moving squads
 
-          const stats = UNIT_STATS[order.unitType];
-          squad.units.push({
-            id: uuidv4(),
-            type: order.unitType,
-            hp: stats.maxHp,
-            maxHp: stats.maxHp,
-          });
+          squad.units.push(this.newUnit(ownerId, order.unitType));
           merged = true;
           break;
         }
 
         if (!merged) {
-          this.createSquad(tile.ownerId, spawnX, spawnY, [
+          this.createSquad(ownerId, spawnX, spawnY, [
             { type: order.unitType, count: 1 },
           ]);
         }
@@ -1163,15 +2664,9 @@ export class Match {
         if (rally) {
           // Find the squad we just added to or created
           for (const [sid, squad] of this.squads) {
-            if (squad.ownerId === tile.ownerId && Math.abs(squad.x - bx) <= 2 && Math.abs(squad.y - by) <= 2) {
-              if (!squad.targetX) {
-                const path = MapGenerator.findPath(this.map, Math.round(squad.x), Math.round(squad.y), Math.round(rally.x), Math.round(rally.y));
-                if (path) {
-                  squad.targetX = Math.round(rally.x);
-                  squad.targetY = Math.round(rally.y);
-                  squad.path = path;
-                  squad.pathIndex = 0;
-                }
+            if (squad.ownerId === ownerId && Math.abs(squad.x - bx) <= 2 && Math.abs(squad.y - by) <= 2) {
+              if (!squad.targetX && this.routeSquad(squad, Math.round(rally.x), Math.round(rally.y))) {
+                squad.order = SquadOrder.Move;
               }
               break;
             }
@@ -1181,6 +2676,54 @@ export class Match {
     }
   }
 
+  // ============================================================
+  // Research
+  // ============================================================
+
+  private updateResearch(dt: number): void {
+    for (const [playerId, research] of this.research) {
+      if (!research.current) continue;
+      if (!this.players.get(playerId)?.alive) continue;
+
+      const techId = research.current;
+      const tech = this.rules.techs[techId];
+      research.elapsed += dt;
+      if (research.elapsed < tech.researchTime) continue;
+
+      research.completed.add(techId);
+      research.current = null;
+      research.elapsed = 0;
+      for (const [effect, value] of Object.entries(tech.effects)) {
+        research.effects[effect as keyof TechEffects] += value ?? 0;
+      }
+
+      // Tougher units apply to the army already in the field
+      if (tech.effects.unitHp) {
+        for (const squad of this.getSquadsByOwner(playerId)) {
+          for (const unit of squad.units) this.refreshMaxHp(playerId, unit);
+        }
+      }
+
+      this.tickEvents.push({
+        type: 'research_complete',
+        data: { playerId, techId },
+      });
+    }
+  }
+
+  private researchOf(playerId: PlayerId): PlayerResearch {
+    let research = this.research.get(playerId);
+    if (!research) {
+      research = { completed: new Set(), current: null, elapsed: 0, effects: { ...NO_RESEARCH } };
+      this.research.set(playerId, research);
+    }
+    return research;
+  }
+
+  private researchEffects(playerId: PlayerId): TechEffects {
+    return this.research.get(playerId)?.effects ?? NO_RESEARCH;
+  }
+
   // ============================================================
   // Bots
   // ============================================================
@@ -1192,7 +2735,7 @@ export class Match {
 
       const commands = botAI.update(dt);
       for (const cmd of commands) {
-        this.queueCommand(botId, cmd);
+        this.enqueueCommand(botId, cmd, true);
       }
     }
   }
@@ -1236,30 +2779,37 @@ export class Match {
     }
 
     // Clear territory
-    for (let y = 0; y < this.map.height; y++) {
-      for (let x = 0; x < this.map.width; x++) {
-        const tile = this.map.tiles[y][x];
-        if (tile.ownerId === playerId) {
-          tile.ownerId = null;
-          tile.captureProgress = 0;
-          tile.capturingPlayerId = null;
-          tile.connected = false;
-          if (tile.structureType) {
-            tile.structureType = null;
-            tile.structureHp = 0;
-          }
+    const map = this.map;
+    const slot = map.slotOf(playerId);
+    for (let i = 0; i < map.size; i++) {
+      if (map.owner[i] !== slot) continue;
+
+      map.owner[i] = NO_PLAYER;
+      map.captureProgress[i] = 0;
+      map.setCapturer(i, null);
+      map.setConnected(i, false);
+
+      const structureType = map.getStructure(i);
+      if (structureType) {
+        if (map.isComplete(i)) {
+          this.pathingChanged(i, structureType);
         }
+        map.setStructure(i, null);
+        map.structureHp[i] = 0;
+        map.constructionProgress[i] = 1;
+        this.constructionSites.delete(i);
       }
     }
 
     // Remove bot AI
     this.botAIs.delete(playerId);
 
+    // Pacts end with the player
+    this.diplomacy.removePlayer(playerId);
+
     // Clear training queues for this player's buildings
-    for (const [key, queue] of this.trainingQueues) {
-      const [x, y] = key.split(',').map(Number);
-      const tile = this.map.tiles[y]?.[x];
-      if (tile && tile.ownerId === playerId) {
+    for (const key of this.trainingQueues.keys()) {
+      if (map.isOwnedBy(key, playerId)) {
         this.trainingQueues.delete(key);
       }
     }
@@ -1277,9 +2827,12 @@ export class Match {
       return;
     }
 
-    // Only one player remaining
-    const alivePlayers = Array.from(this.players.values()).filter(p => p.alive);
-    if (alivePlayers.length <= 1) {
+    // Only one player (or team) remaining
+    const sides = new Set<PlayerId | number>();
+    for (const player of this.players.values()) {
+      if (player.alive) sides.add(player.team ?? player.id);
+    }
+    if (sides.size <= 1) {
       this.endMatch();
       return;
     }
@@ -1290,6 +2843,7 @@ export class Match {
     this.stopTickLoop();
 
     const result = this.buildMatchResult();
+    this.replay = this.recorder.finish(result, this.clock.now());
     this.callbacks.onMatchEnd(result);
     this.callbacks.onPhaseChange(this.id, MatchPhase.Finished, result);
   }
@@ -1309,13 +2863,39 @@ export class Match {
         unitsKilled: stats.unitsKilled,
         unitsLost: stats.unitsLost,
         goldEarned: Math.round(stats.goldEarned),
+        goldSent: stats.goldSent,
+        goldReceived: stats.goldReceived,
         alive: player.alive,
         placement: 0, // calculated below
+        team: player.team,
       };
     });
 
-    // Sort by: alive first, then by score
+    // Teams rank like players: surviving teams first, then by combined score
+    const teams: TeamScore[] = [];
+    const layout = TEAM_LAYOUTS[this.teamMode];
+    for (let team = 0; layout && team < layout.teams; team++) {
+      const members = scores.filter(s => s.team === team);
+      if (members.length === 0) continue;
+      teams.push({
+        team,
+        playerIds: members.map(s => s.playerId),
+        score: members.reduce((sum, s) => sum + s.score, 0),
+        alive: members.some(s => s.alive),
+        placement: 0,
+      });
+    }
+    teams.sort((a, b) => {
+      if (a.alive !== b.alive) return a.alive ? -1 : 1;
+      return b.score - a.score;
+    });
+    teams.forEach((t, i) => { t.placement = i + 1; });
+    const teamPlacement = new Map(teams.map(t => [t.team, t.placement]));
+
+    // Sort by: team placement, then alive first, then by score
     scores.sort((a, b) => {
+      const byTeam = (teamPlacement.get(a.team ?? -1) ?? 0) - (teamPlacement.get(b.team ?? -1) ?? 0);
+      if (byTeam !== 0) return byTeam;
       if (a.alive !== b.alive) return a.alive ? -1 : 1;
       return b.score - a.score;
     });
@@ -1325,9 +2905,11 @@ export class Match {
 
     return {
       matchId: this.id,
-      duration: (Date.now() - this.matchStartTime) / 1000,
+      duration: (this.clock.now() - this.matchStartTime) / 1000,
       scores,
+      teams,
       winnerId: scores[0]?.playerId ?? null,
+      winningTeam: teams[0]?.team ?? null,
     };
   }
 
@@ -1341,21 +2923,29 @@ export class Match {
     y: number,
     composition: Array<{ type: UnitType; count: number }>
   ): SquadId {
-    const squadId = uuidv4();
+    // Reserve the squad ID before the unit IDs, as replays expect
+    const squadId = this.nextId('sq');
     const units: Unit[] = [];
 
     for (const { type, count } of composition) {
-      const stats = UNIT_STATS[type];
       for (let i = 0; i < count; i++) {
-        units.push({
-          id: uuidv4(),
-          type,
-          hp: stats.maxHp,
-          maxHp: stats.maxHp,
-        });
+        units.push(this.newUnit(ownerId, type));
       }
     }
 
+    return this.addSquad(ownerId, x, y, units, squadId);
+  }
+
+  /**
+   * Put a stationary squad made of existing units on the map.
+   */
+  private addSquad(
+    ownerId: PlayerId,
+    x: number,
+    y: number,
+    units: Unit[],
+    squadId: SquadId = this.nextId('sq')
+  ): SquadId {
     const squad: Squad = {
       id: squadId,
       ownerId,
@@ -1367,6 +2957,17 @@ export class Match {
       path: [],
       pathIndex: 0,
       moveProgress: 0,
+      stance: SquadStance.Defensive,
+      order: SquadOrder.Idle,
+      anchorX: Math.round(x),
+      anchorY: Math.round(y),
+      patrolRoute: [],
+      patrolIndex: 0,
+      followSquadId: null,
+      captureArea: null,
+      orderQueue: [],
+      supply: SupplyStatus.Supplied,
+      unsuppliedFor: 0,
     };
 
     this.squads.set(squadId, squad);
@@ -1380,9 +2981,19 @@ export class Match {
     return squadId;
   }
 
+  /**
+   * Sequential per-match entity IDs, so identical runs produce identical IDs.
+   */
+  private nextId(prefix: string): string {
+    this.nextEntityId++;
+    return `${prefix}_${this.nextEntityId.toString(36)}`;
+  }
+
   private removeSquad(squadId: SquadId): void {
     this.squads.delete(squadId);
     this.spatialHash.remove(squadId);
+    this.lastVolley.delete(squadId);
+    this.lastCombat.delete(squadId);
   }
 
   // ============================================================
@@ -1390,6 +3001,8 @@ export class Match {
   // ============================================================
 
   private broadcastState(): void {
+    if (this.headless) return;
+
     for (const [playerId, player] of this.players) {
       if (player.isBot || !player.connected) continue;
 
@@ -1398,9 +3011,17 @@ export class Match {
     }
   }
 
-  private buildSnapshot(playerId: PlayerId): GameStateSnapshot {
-    const player = this.players.get(playerId)!;
-    const now = Date.now();
+  /**
+   * Build a snapshot as seen by a player, or of the whole map when no viewer
+   * is given (replay spectating).
+   */
+  getSnapshot(viewerId: PlayerId | null): GameStateSnapshot {
+    return this.buildSnapshot(viewerId);
+  }
+
+  private buildSnapshot(playerId: PlayerId | null): GameStateSnapshot {
+    const player = playerId ? this.players.get(playerId) : undefined;
+    const now = this.clock.now();
 
     let timeRemaining = 0;
     if (this.phase === MatchPhase.SpawnSelection) {
@@ -1409,37 +3030,31 @@ export class Match {
       timeRemaining = Math.max(0, (this.matchEndTime - now) / 1000);
     }
 
-    // Compute visibility (fog of war)
-    const visibleSet = this.computeVisibility(playerId);
+    // Compute visibility (fog of war); spectators see everything
+    const visible = playerId ? this.computeVisibility(playerId) : null;
 
     // Build visible tiles
     const visibleTiles: VisibleTile[] = [];
-    for (const key of visibleSet) {
-      const [x, y] = key.split(',').map(Number);
-      const tile = this.map.tiles[y][x];
-      visibleTiles.push({
-        x: tile.x,
-        y: tile.y,
-        terrain: tile.terrain,
-        ownerId: tile.ownerId,
-        structureType: tile.structureType,
-        structureHp: tile.structureHp,
-        captureProgress: tile.captureProgress,
-        capturingPlayerId: tile.capturingPlayerId,
-      });
+    for (let i = 0; i < this.map.size; i++) {
+      if (!visible || visible[i]) visibleTiles.push(this.map.toVisibleTile(i));
     }
 
     // Build squad snapshots (only visible ones)
     const squads: SquadSnapshot[] = [];
     for (const [, squad] of this.squads) {
       // Always show own squads; others only if visible
-      const squadKey = tileKey(Math.round(squad.x), Math.round(squad.y));
-      if (squad.ownerId === playerId || visibleSet.has(squadKey)) {
+      const sx = Math.round(squad.x);
+      const sy = Math.round(squad.y);
+      if (!visible || squad.ownerId === playerId || (this.map.inBounds(sx, sy) && visible[this.map.index(sx, sy)])) {
         const composition: Partial<Record<UnitType, number>> = {};
+        const ranks: Partial<Record<UnitType, number[]>> = {};
         let totalHp = 0;
         let maxHp = 0;
         for (const unit of squad.units) {
           composition[unit.type] = (composition[unit.type] ?? 0) + 1;
+          const byRank = (ranks[unit.type] ??= []);
+          while (byRank.length <= unit.rank) byRank.push(0);
+          byRank[unit.rank]++;
           totalHp += unit.hp;
           maxHp += unit.maxHp;
         }
@@ -1449,12 +3064,18 @@ export class Match {
           ownerId: squad.ownerId,
           x: squad.x,
           y: squad.y,
-          targetX: squad.ownerId === playerId ? squad.targetX : null,
-          targetY: squad.ownerId === playerId ? squad.targetY : null,
+          targetX: !playerId || squad.ownerId === playerId ? squad.targetX : null,
+          targetY: !playerId || squad.ownerId === playerId ? squad.targetY : null,
           unitCount: squad.units.length,
           totalHp: Math.round(totalHp),
           maxHp: Math.round(maxHp),
           composition,
+          ranks,
+          stance: squad.stance,
+          order: !playerId || squad.ownerId === playerId ? squad.order : null,
+          waypoints: !playerId || squad.ownerId === playerId ? squad.orderQueue.map(w => ({ ...w })) : [],
+          supply: !playerId || squad.ownerId === playerId ? squad.supply : null,
+          unsuppliedFor: !playerId || squad.ownerId === playerId ? Math.floor(squad.unsuppliedFor) : 0,
         });
       }
     }
@@ -1468,6 +3089,9 @@ export class Match {
       score: p.score,
       isBot: p.isBot,
       territoryCount: p.territoryCount,
+      allies: this.diplomacy.partners(p.id, DiplomaticStatus.Alliance),
+      nonAggression: this.diplomacy.partners(p.id, DiplomaticStatus.NonAggression),
+      team: p.team,
     }));
 
     return {
@@ -1475,48 +3099,69 @@ export class Match {
       phase: this.phase,
       timeRemaining,
       players,
-      myGold: Math.floor(player.gold),
-      myGoldPerSecond: player.goldPerSecond,
+      myGold: player ? Math.floor(player.gold) : 0,
+      myGoldPerSecond: player?.goldPerSecond ?? 0,
+      myResearch: playerId ? this.getResearch(playerId) : null,
+      myDiplomacy: playerId ? this.getDiplomacy(playerId) : null,
+      myRepairs: playerId ? this.getRepairs(playerId) : [],
+      myDepots: playerId ? this.getDepots(playerId) : [],
+      myTraining: playerId ? this.getTrainingQueues(playerId) : [],
       visibleTiles,
       squads,
-      events: [...this.tickEvents],
+      // Spectators see every event; players only those addressed to everyone or to them
+      events: this.tickEvents.filter(e => !playerId || !e.recipients || e.recipients.includes(playerId)),
     };
   }
 
-  private computeVisibility(playerId: PlayerId): Set<string> {
-    const visible = new Set<string>();
-    const radius = MATCH_CONFIG.FOG_OF_WAR_RADIUS;
+  /**
+   * Tiles the player can see, as a mask indexed like the map. Allies
+   * share their vision.
+   */
+  private computeVisibility(playerId: PlayerId): Uint8Array {
+    const map = this.map;
+    const visible = new Uint8Array(map.size);
+
+    // Owner slots whose sight the player shares
+    const viewers = new Uint8Array(256);
+    viewers[map.slotOf(playerId)] = 1;
+    for (const allyId of this.diplomacy.partners(playerId, DiplomaticStatus.Alliance)) {
+      viewers[map.slotOf(allyId)] = 1;
+    }
 
-    // Visibility from owned connected territory
-    for (let y = 0; y < this.map.height; y++) {
-      for (let x = 0; x < this.map.width; x++) {
-        const tile = this.map.tiles[y][x];
-        if (tile.ownerId === playerId) {
-          // Add tiles in visibility radius around owned tiles
-          // Optimization: only expand from border tiles
-          this.addVisibilityRadius(visible, x, y, 3);
-        }
-      }
+    // Visibility from owned territory. Interior tiles add nothing their
+    // neighbours don't, so only border tiles expand the radius.
+    for (let i = 0; i < map.size; i++) {
+      if (!viewers[map.owner[i]]) continue;
+      visible[i] = 1;
+
+      const x = i % map.width;
+      const y = (i - x) / map.width;
+      const interior =
+        x > 0 && viewers[map.owner[i - 1]] &&
+        x < map.width - 1 && viewers[map.owner[i + 1]] &&
+        y > 0 && viewers[map.owner[i - map.width]] &&
+        y < map.height - 1 && viewers[map.owner[i + map.width]];
+      if (!interior) this.addVisibilityRadius(visible, x, y, 3);
     }
 
-    // Visibility from squads
+    // Visibility from squads, each seeing as far as its owner's research allows
     for (const [, squad] of this.squads) {
-      if (squad.ownerId === playerId) {
-        this.addVisibilityRadius(visible, Math.round(squad.x), Math.round(squad.y), radius);
-      }
+      if (!viewers[map.slotOf(squad.ownerId)]) continue;
+      const radius = this.rules.fogOfWarRadius + this.researchEffects(squad.ownerId).visionRadius;
+      this.addVisibilityRadius(visible, Math.round(squad.x), Math.round(squad.y), radius);
     }
 
     return visible;
   }
 
-  private addVisibilityRadius(visible: Set<string>, cx: number, cy: number, radius: number): void {
+  private addVisibilityRadius(visible: Uint8Array, cx: number, cy: number, radius: number): void {
     for (let dy = -radius; dy <= radius; dy++) {
       for (let dx = -radius; dx <= radius; dx++) {
         if (dx * dx + dy * dy > radius * radius) continue;
         const x = cx + dx;
         const y = cy + dy;
-        if (x < 0 || y < 0 || x >= this.map.width || y >= this.map.height) continue;
-        visible.add(tileKey(x, y));
+        if (!this.map.inBounds(x, y)) continue;
+        visible[this.map.index(x, y)] = 1;
       }
     }
   }
@@ -1525,7 +3170,7 @@ export class Match {
   // Public Accessors (for Bot AI and other systems)
   // ============================================================
 
-  getMap(): GameMap {
+  getMap(): TileGrid {
     return this.map;
   }
 
@@ -1537,6 +3182,69 @@ export class Match {
     return this.players;
   }
 
+  getDiplomacy(playerId: PlayerId): DiplomacyState {
+    return this.diplomacy.stateFor(playerId, this.tick);
+  }
+
+  /**
+   * Tiles of the structures a player is repairing.
+   */
+  getRepairs(playerId: PlayerId): Array<{ x: number; y: number }> {
+    const tiles: Array<{ x: number; y: number }> = [];
+    for (const [i, repairerId] of this.repairs) {
+      if (repairerId !== playerId) continue;
+      const x = i % this.map.width;
+      tiles.push({ x, y: (i - x) / this.map.width });
+    }
+    return tiles;
+  }
+
+  /**
+   * A player's finished depots.
+   */
+  getDepots(playerId: PlayerId): DepotInfo[] {
+    const depots: DepotInfo[] = [];
+    for (const [i, depot] of this.depots) {
+      if (depot.playerId !== playerId) continue;
+      const x = i % this.map.width;
+      depots.push({ x, y: (i - x) / this.map.width, heldFor: Math.floor(depot.heldFor), active: depot.active });
+    }
+    return depots;
+  }
+
+  /**
+   * A player's training queues that have units in them.
+   */
+  getTrainingQueues(playerId: PlayerId): TrainingQueueInfo[] {
+    const queues: TrainingQueueInfo[] = [];
+    for (const [i, queue] of this.trainingQueues) {
+      if (queue.length === 0 || !this.map.isOwnedBy(i, playerId)) continue;
+      const x = i % this.map.width;
+      queues.push({ x, y: (i - x) / this.map.width, units: queue.map(order => order.unitType) });
+    }
+    return queues;
+  }
+
+  /**
+   * Whether squads of the two players fight each other.
+   */
+  isHostile(a: PlayerId, b: PlayerId): boolean {
+    return this.diplomacy.isHostile(a, b);
+  }
+
+  getResearch(playerId: PlayerId): ResearchState {
+    const research = this.research.get(playerId);
+    if (!research?.current) {
+      return { completed: research ? [...research.completed] : [], current: null, progress: 0 };
+    }
+    const time = this.rules.techs[research.current].researchTime;
+    return {
+      completed: [...research.completed],
+      current: research.current,
+      progress: time > 0 ? Math.round(Math.min(1, research.elapsed / time) * 100) / 100 : 1,
+    };
+  }
+
   getSquads(): Map<SquadId, Squad> {
     return this.squads;
   }
@@ -1555,12 +3263,47 @@ export class Match {
     return this.phase;
   }
 
+  /**
+   * The current phase's change data, with durations counting what's left.
+   * Sent to players resuming mid-match.
+   */
+  getPhaseData(): Record<string, unknown> {
+    const now = this.clock.now();
+    if (this.phase === MatchPhase.SpawnSelection) {
+      return {
+        spawnLocations: this.humanSpawnLocations,
+        duration: Math.max(0, (this.spawnPhaseEndTime - now) / 1000),
+        rules: this.rules,
+      };
+    }
+    if (this.phase === MatchPhase.Playing) {
+      return { duration: Math.max(0, (this.matchEndTime - now) / 1000), rules: this.rules };
+    }
+    return {};
+  }
+
   getTick(): number {
     return this.tick;
   }
 
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getRules(): MatchRules {
+    return this.rules;
+  }
+
+  /**
+   * The recorded replay, available once the match has finished.
+   */
+  getReplay(): ReplayData | null {
+    return this.replay;
+  }
+
   getTrainingQueue(x: number, y: number): TrainingOrder[] {
-    return this.trainingQueues.get(tileKey(x, y)) ?? [];
+    if (!this.map.inBounds(x, y)) return [];
+    return this.trainingQueues.get(this.map.index(x, y)) ?? [];
   }
 
   getPlayerCount(): number {
@@ -1589,7 +3332,7 @@ export class Match {
     for (let y = 0; y < this.map.height; y++) {
       terrain[y] = [];
       for (let x = 0; x < this.map.width; x++) {
-        terrain[y][x] = this.map.tiles[y][x].terrain;
+        terrain[y][x] = this.map.getTerrain(this.map.index(x, y));
       }
     }
     return { width: this.map.width, height: this.map.height, terrain };
@@ -1602,8 +3345,9 @@ export class Match {
       // Convert to bot after a delay in real implementation
       // For now, just create a bot AI to take over
       if (!player.isBot && player.alive) {
+        this.recorder.recordControl(this.tick, playerId, 'disconnect');
         player.isBot = true;
-        this.botAIs.set(playerId, new BotAI(playerId, this));
+        this.botAIs.set(playerId, new BotAI(playerId, this, this.rng.fork(), this.botDifficulty));
       }
     }
   }
@@ -1611,6 +3355,9 @@ export class Match {
   playerReconnected(playerId: PlayerId): void {
     const player = this.players.get(playerId);
     if (player) {
+      if (player.isBot && this.botAIs.has(playerId)) {
+        this.recorder.recordControl(this.tick, playerId, 'reconnect');
+      }
       player.connected = true;
       player.isBot = false;
       this.botAIs.delete(playerId);
@@ -1625,6 +3372,9 @@ export class Match {
     this.squads.clear();
     this.spatialHash.clear();
     this.trainingQueues.clear();
+    this.repairs.clear();
+    this.depots.clear();
+    this.research.clear();
     this.botAIs.clear();
     this.pendingCommands.length = 0;
   }
@@ -0,0 +1,243 @@
+// ============================================================
+// Fractured Crowns — Match Rules
+// Default rule set, named presets and validation for the
+// per-match tunables passed into Match, MapGenerator and BotAI
+// ============================================================
+
+import {
+  MatchRules,
+  RulePreset,
+  UnitType,
+  ArmorType,
+  StructureType,
+  UNIT_STATS,
+  DAMAGE_MODIFIERS,
+  BUILDING_COSTS,
+  BUILDING_HP,
+  TOWER_STATS,
+  VETERANCY,
+  SUPPLY,
+  TECHS,
+  TechId,
+  ECONOMY,
+  MATCH_CONFIG,
+  PLAYER_COLORS,
+} from '../types/game';
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+export const DEFAULT_RULES: MatchRules = {
+  maxPlayers: MATCH_CONFIG.MAX_PLAYERS,
+  mapWidth: MATCH_CONFIG.MAP_WIDTH,
+  mapHeight: MATCH_CONFIG.MAP_HEIGHT,
+  spawnPhaseDuration: MATCH_CONFIG.SPAWN_PHASE_DURATION,
+  matchDuration: MATCH_CONFIG.MATCH_DURATION,
+  minSpawnDistance: MATCH_CONFIG.MIN_SPAWN_DISTANCE,
+  captureRate: MATCH_CONFIG.CAPTURE_RATE,
+  captureThreshold: MATCH_CONFIG.CAPTURE_THRESHOLD,
+  fogOfWarRadius: MATCH_CONFIG.FOG_OF_WAR_RADIUS,
+  supplyCheckInterval: MATCH_CONFIG.SUPPLY_CHECK_INTERVAL,
+  pactProposalTimeout: MATCH_CONFIG.PACT_PROPOSAL_TIMEOUT,
+  betrayalCooldown: MATCH_CONFIG.BETRAYAL_COOLDOWN,
+  economy: {
+    baseMineIncome: ECONOMY.BASE_MINE_INCOME,
+    mineUpgradeBonus: ECONOMY.MINE_UPGRADE_BONUS,
+    passiveTerritoryIncome: ECONOMY.PASSIVE_TERRITORY_INCOME,
+    startingGold: ECONOMY.STARTING_GOLD,
+    expansionPenaltyDivisor: ECONOMY.EXPANSION_PENALTY_DIVISOR,
+    expansionPenaltyExponent: ECONOMY.EXPANSION_PENALTY_EXPONENT,
+    cancelRefundRatio: ECONOMY.CANCEL_REFUND_RATIO,
+    repairRate: ECONOMY.REPAIR_RATE,
+    repairCostPerHp: ECONOMY.REPAIR_COST_PER_HP,
+    demolishRefundRatio: ECONOMY.DEMOLISH_REFUND_RATIO,
+    tributeInterval: ECONOMY.TRIBUTE_INTERVAL,
+    tributeTax: ECONOMY.TRIBUTE_TAX,
+  },
+  units: UNIT_STATS,
+  damageModifiers: DAMAGE_MODIFIERS,
+  buildingCosts: BUILDING_COSTS,
+  buildingHp: BUILDING_HP,
+  tower: TOWER_STATS,
+  veterancy: VETERANCY,
+  supply: SUPPLY,
+  techs: TECHS,
+};
+
+const PRESET_OVERRIDES: Record<RulePreset, DeepPartial<MatchRules>> = {
+  [RulePreset.Standard]: {},
+
+  // Short matches: smaller map, faster captures, more gold up front
+  [RulePreset.Blitz]: {
+    mapWidth: 90,
+    mapHeight: 90,
+    spawnPhaseDuration: 10,
+    matchDuration: 10 * 60,
+    captureRate: 12,
+    economy: { startingGold: 500 },
+  },
+
+  // One-on-one on a small map
+  [RulePreset.Duel]: {
+    maxPlayers: 2,
+    mapWidth: 60,
+    mapHeight: 60,
+    matchDuration: 15 * 60,
+  },
+
+  // Richer mines and a gentler expansion penalty — bigger armies, earlier
+  [RulePreset.EconomyHeavy]: {
+    economy: {
+      baseMineIncome: 20,
+      mineUpgradeBonus: 10,
+      passiveTerritoryIncome: 0.4,
+      startingGold: 600,
+      expansionPenaltyDivisor: 80,
+    },
+  },
+};
+
+/**
+ * Full rule set for a preset. Each call returns a fresh copy.
+ */
+export function getPresetRules(preset: RulePreset): MatchRules {
+  return withOverrides(DEFAULT_RULES, PRESET_OVERRIDES[preset] ?? {});
+}
+
+/**
+ * Copy `base` with `overrides` merged in, field by field.
+ */
+export function withOverrides(base: MatchRules, overrides: DeepPartial<MatchRules>): MatchRules {
+  return deepMerge(base, overrides) as MatchRules;
+}
+
+/**
+ * Returns every problem with a rule set; empty means it is playable.
+ */
+export function validateRules(rules: MatchRules): string[] {
+  const problems: string[] = [];
+
+  const check = (label: string, value: unknown, min: number, max: number = Infinity) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      problems.push(max === Infinity ? `${label} must be at least ${min}` : `${label} must be between ${min} and ${max}`);
+    }
+  };
+
+  // Colors are handed out one per player
+  check('maxPlayers', rules.maxPlayers, 2, PLAYER_COLORS.length);
+  check('mapWidth', rules.mapWidth, 40, 256);
+  check('mapHeight', rules.mapHeight, 40, 256);
+  check('spawnPhaseDuration', rules.spawnPhaseDuration, 1, 120);
+  check('matchDuration', rules.matchDuration, 60, 2 * 60 * 60);
+  check('minSpawnDistance', rules.minSpawnDistance, 1, Math.min(rules.mapWidth, rules.mapHeight));
+  check('captureRate', rules.captureRate, 0.1);
+  check('captureThreshold', rules.captureThreshold, 1);
+  check('fogOfWarRadius', rules.fogOfWarRadius, 1, 64);
+  check('supplyCheckInterval', rules.supplyCheckInterval, 1);
+  check('pactProposalTimeout', rules.pactProposalTimeout, 1);
+  check('betrayalCooldown', rules.betrayalCooldown, 0);
+
+  for (const [key, value] of Object.entries(rules.economy ?? {})) {
+    check(`economy.${key}`, value, 0);
+  }
+  if (rules.economy?.expansionPenaltyDivisor === 0) {
+    problems.push('economy.expansionPenaltyDivisor must be above 0');
+  }
+  check('economy.cancelRefundRatio', rules.economy?.cancelRefundRatio, 0, 1);
+  check('economy.demolishRefundRatio', rules.economy?.demolishRefundRatio, 0, 1);
+  check('economy.tributeTax', rules.economy?.tributeTax, 0, 1);
+
+  for (const type of Object.values(UnitType)) {
+    const stats = rules.units?.[type];
+    if (!stats) {
+      problems.push(`units.${type} is missing`);
+      continue;
+    }
+    check(`units.${type}.maxHp`, stats.maxHp, 1);
+    check(`units.${type}.damage`, stats.damage, 0);
+    check(`units.${type}.speed`, stats.speed, 0.1);
+    check(`units.${type}.cost`, stats.cost, 0);
+    check(`units.${type}.range`, stats.range, 1);
+    check(`units.${type}.trainTime`, stats.trainTime, 0);
+    if (!Object.values(ArmorType).includes(stats.armor)) {
+      problems.push(`units.${type}.armor must be one of ${Object.values(ArmorType).join(', ')}`);
+    }
+
+    for (const armor of Object.values(ArmorType)) {
+      check(`damageModifiers.${type}.${armor}`, rules.damageModifiers?.[type]?.[armor], 0);
+    }
+  }
+
+  for (const type of Object.values(StructureType)) {
+    const cost = rules.buildingCosts?.[type];
+    if (!cost) {
+      problems.push(`buildingCosts.${type} is missing`);
+    } else {
+      check(`buildingCosts.${type}.gold`, cost.gold, 0);
+      check(`buildingCosts.${type}.buildTime`, cost.buildTime, 0);
+    }
+    check(`buildingHp.${type}`, rules.buildingHp?.[type], 1);
+  }
+
+  check('tower.damage', rules.tower?.damage, 0);
+  check('tower.range', rules.tower?.range, 1);
+  check('tower.fireRate', rules.tower?.fireRate, 0.1, MATCH_CONFIG.TICK_RATE);
+
+  check('veterancy.xpPerGold', rules.veterancy?.xpPerGold, 0);
+  check('veterancy.killBonus', rules.veterancy?.killBonus, 0);
+  const ranks = rules.veterancy?.ranks;
+  if (!Array.isArray(ranks)) {
+    problems.push('veterancy.ranks must be a list');
+  } else {
+    ranks.forEach((rank, i) => {
+      // Each rank needs more experience than the one before
+      check(`veterancy.ranks[${i}].xp`, rank?.xp, i === 0 ? 1 : ranks[i - 1].xp + 1);
+      check(`veterancy.ranks[${i}].hpBonus`, rank?.hpBonus, 0);
+      check(`veterancy.ranks[${i}].damageBonus`, rank?.damageBonus, 0);
+      check(`veterancy.ranks[${i}].speedBonus`, rank?.speedBonus, 0);
+    });
+  }
+
+  check('supply.healRate', rules.supply?.healRate, 0, 1);
+  check('supply.attritionGrace', rules.supply?.attritionGrace, 0);
+  check('supply.attritionRate', rules.supply?.attritionRate, 0, 1);
+  check('supply.depotRadius', rules.supply?.depotRadius, 1);
+  check('supply.depotEstablishTime', rules.supply?.depotEstablishTime, 0);
+
+  const techIds = Object.values(TechId);
+  for (const id of techIds) {
+    const tech = rules.techs?.[id];
+    if (!tech) {
+      problems.push(`techs.${id} is missing`);
+      continue;
+    }
+    check(`techs.${id}.cost`, tech.cost, 0);
+    check(`techs.${id}.researchTime`, tech.researchTime, 0);
+    if (!Array.isArray(tech.requires) || tech.requires.some(req => !techIds.includes(req) || req === id)) {
+      problems.push(`techs.${id}.requires must list other techs`);
+    }
+    for (const [effect, value] of Object.entries(tech.effects ?? {})) {
+      check(`techs.${id}.effects.${effect}`, value, 0);
+    }
+  }
+
+  return problems;
+}
+
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (override === undefined) {
+    return isPlainObject(base) ? deepMerge(base, {}) : base;
+  }
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(base), ...Object.keys(override)])) {
+    result[key] = deepMerge(base[key], override[key]);
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,536 @@
+// ============================================================
+// Fractured Crowns — Pathfinder
+// Routes for squad movement. A lone order gets a bounded A*
+// search; once several squads head for the same region, a flow
+// field toward it is built and shared by every mover that may
+// pass the same walls.
+// ============================================================
+
+import { TerrainType, StructureType, PlayerId } from '../types/game';
+import { TileGrid, NO_PLAYER, terrainCode, structureCode } from './TileGrid';
+
+export type Path = Array<{ x: number; y: number }>;
+
+// Path cost of going through an enemy wall when there is no way around it
+const WALL_BREACH_COST = 12;
+
+// Destinations are grouped into square regions of this many tiles a side
+const REGION_SIZE = 8;
+
+// Searches into one region in one tick, by movers with the same gates, before it gets a field
+const FIELD_DEMAND = 3;
+
+// Tiles a single search may expand before a field is built instead
+const MAX_SEARCH_NODES = 4000;
+
+// Fields kept per match; the least recently used are dropped first
+const MAX_CACHED_FIELDS = 32;
+
+// Regions whose demand is tracked; the least recently searched are dropped first
+const MAX_TRACKED_REGIONS = 256;
+
+const MOUNTAIN = terrainCode(TerrainType.Mountain);
+const FOREST = terrainCode(TerrainType.Forest);
+const WATER = terrainCode(TerrainType.Water);
+const WALL = structureCode(StructureType.Wall);
+const ROAD = structureCode(StructureType.Road);
+
+// Whether a mover may walk through walls of another player
+export type PassageCheck = (moverId: PlayerId, ownerId: PlayerId) => boolean;
+
+// The match's current tick
+export type TickSource = () => number;
+
+/**
+ * Whether tile `i` stops a mover. Finished walls block everyone except
+ * their owner, who uses them as gates, and players `canPass` lets through.
+ */
+export function blocksMovement(map: TileGrid, i: number, moverId: PlayerId, canPass?: PassageCheck): boolean {
+  if (map.structure[i] !== WALL || !map.isComplete(i) || map.isOwnedBy(i, moverId)) return false;
+  const ownerId = map.getOwner(i);
+  return !(ownerId && canPass?.(moverId, ownerId));
+}
+
+type SearchResult = Path | 'unreachable' | 'too_far';
+
+interface GateSet {
+  key: string; // the slots below, comma separated
+  open: Uint8Array; // 1 for each wall owner slot the mover walks through
+}
+
+interface Demand {
+  tick: number;
+  searches: number; // this tick
+}
+
+interface FlowField {
+  version: number;
+  // Cost to reach the region from each tile; Infinity when cut off
+  distance: Float64Array;
+  // Index of the tile to step to next, -1 inside the region or when cut off
+  next: Int32Array;
+}
+
+export class Pathfinder {
+  private readonly width: number;
+  private readonly height: number;
+  private readonly size: number;
+  private readonly regionColumns: number;
+
+  // Movement cost of entering each tile (Infinity for mountains)
+  private terrainCost: Float32Array;
+  // Owner slot of each finished wall, NO_PLAYER elsewhere
+  private wallOwner: Uint8Array;
+  // Slots that own at least one finished wall
+  private wallSlots: number[] = [];
+
+  private version: number = 0;
+  private gridVersion: number = -1;
+  private gates: Map<PlayerId, GateSet> = new Map(); // rebuilt with the grid
+  private fields: Map<string, FlowField> = new Map(); // key: "region|gates"
+  private demand: Map<string, Demand> = new Map(); // key: "region|gates"
+
+  // A* scratch space; a tile's entries are valid while its stamp matches
+  private gScore: Float64Array;
+  private cameFrom: Int32Array;
+  private opened: Uint32Array;
+  private closed: Uint32Array;
+  private stamp: number = 0;
+
+  private heap: IndexHeap;
+
+  constructor(private map: TileGrid, private canPass?: PassageCheck, private currentTick: TickSource = () => 0) {
+    this.width = map.width;
+    this.height = map.height;
+    this.size = map.width * map.height;
+    this.regionColumns = Math.ceil(map.width / REGION_SIZE);
+    this.terrainCost = new Float32Array(this.size);
+    this.wallOwner = new Uint8Array(this.size);
+    this.gScore = new Float64Array(this.size);
+    this.cameFrom = new Int32Array(this.size);
+    this.opened = new Uint32Array(this.size);
+    this.closed = new Uint32Array(this.size);
+    this.heap = new IndexHeap(this.size * 4);
+  }
+
+  /**
+   * Call when walls or roads are finished or removed, or when who may pass
+   * through whose walls changes. Fields are rebuilt lazily the next time
+   * they are asked for.
+   */
+  invalidate(): void {
+    this.version++;
+  }
+
+  /**
+   * Route for `moverId` from start to end, excluding the start tile.
+   * Goes around enemy walls; if the destination is walled off (or is a
+   * wall), goes through the cheapest walls instead, which the squad then
+   * has to knock down. Returns null when the destination is unreachable.
+   */
+  findPath(moverId: PlayerId, startX: number, startY: number, endX: number, endY: number): Path | null {
+    if (!this.map.inBounds(startX, startY) || !this.map.inBounds(endX, endY)) return null;
+    if (startX === endX && startY === endY) return [];
+
+    const start = this.map.index(startX, startY);
+    const end = this.map.index(endX, endY);
+    if (this.map.terrain[end] === MOUNTAIN) return null;
+
+    this.refreshGrid();
+    const gates = this.gatesFor(moverId);
+
+    if (!this.blocks(end, moverId)) {
+      const path = this.openRoute(start, end, gates);
+      if (path !== 'unreachable') return path;
+    }
+
+    return this.breachRoute(start, end, gates);
+  }
+
+  /**
+   * blocksMovement with this pathfinder's passage rules.
+   */
+  blocks(i: number, moverId: PlayerId): boolean {
+    return blocksMovement(this.map, i, moverId, this.canPass);
+  }
+
+  // ============================================================
+  // Routing
+  // ============================================================
+
+  private refreshGrid(): void {
+    if (this.gridVersion === this.version) return;
+    this.gridVersion = this.version;
+    this.gates.clear();
+    const map = this.map;
+    const ownsWalls = new Uint8Array(256);
+
+    for (let i = 0; i < this.size; i++) {
+      const terrain = map.terrain[i];
+      const complete = map.isComplete(i);
+
+      let cost = 1.0;
+      if (terrain === MOUNTAIN) cost = Infinity;
+      else if (terrain === FOREST) cost = 1.5;
+      else if (terrain === WATER) cost = 2.5;
+      if (map.structure[i] === ROAD && complete && cost !== Infinity) {
+        cost = 0.6;
+      }
+      this.terrainCost[i] = cost;
+
+      this.wallOwner[i] = map.structure[i] === WALL && complete ? map.owner[i] : NO_PLAYER;
+      ownsWalls[this.wallOwner[i]] = 1;
+    }
+
+    this.wallSlots = [];
+    for (let slot = 0; slot < ownsWalls.length; slot++) {
+      if (slot !== NO_PLAYER && ownsWalls[slot]) this.wallSlots.push(slot);
+    }
+  }
+
+  /**
+   * Wall owners `moverId` walks through: itself and anyone it may pass.
+   * Only players who own walls count, so movers that face the same walls
+   * share a key and with it their fields.
+   */
+  private gatesFor(moverId: PlayerId): GateSet {
+    let gates = this.gates.get(moverId);
+    if (gates) return gates;
+
+    const moverSlot = this.map.slotOf(moverId);
+    const open = new Uint8Array(256);
+    const slots: number[] = [];
+    for (const slot of this.wallSlots) {
+      const ownerId = this.map.playerInSlot(slot);
+      if (slot === moverSlot || (ownerId && this.canPass?.(moverId, ownerId))) {
+        open[slot] = 1;
+        slots.push(slot);
+      }
+    }
+
+    gates = { key: slots.join(','), open };
+    this.gates.set(moverId, gates);
+    return gates;
+  }
+
+  /**
+   * Route around enemy walls. Uses the destination region's field if it
+   * has one, or builds it once enough searches have gone there; otherwise
+   * searches directly.
+   */
+  private openRoute(start: number, end: number, gates: GateSet): Path | 'unreachable' {
+    const region = this.regionOf(end);
+    const key = `${region}|${gates.key}`;
+
+    let field = this.cachedField(key);
+    if (!field && this.noteDemand(key) >= FIELD_DEMAND) {
+      field = this.buildField(key, region, gates.open, Infinity);
+    }
+    if (!field) {
+      const found = this.search(start, end, gates.open, Infinity);
+      if (found !== 'too_far') return found;
+      // Too far for one search; the field answers this and later orders
+      field = this.buildField(key, region, gates.open, Infinity);
+    }
+
+    if (field.distance[start] === Infinity) return 'unreachable';
+    const path = this.followField(field, start, end, gates.open, Infinity);
+    if (path) return path;
+
+    // Terrain splits the region; search the whole way, however far
+    const direct = this.search(start, end, gates.open, Infinity, this.size);
+    return Array.isArray(direct) ? direct : 'unreachable';
+  }
+
+  /**
+   * Route through the cheapest enemy walls. Searches directly, or when
+   * that is too far, follows a field of the destination region in which
+   * walls cost WALL_BREACH_COST. Null only when no route exists.
+   */
+  private breachRoute(start: number, end: number, gates: GateSet): Path | null {
+    const region = this.regionOf(end);
+    const key = `${region}|${gates.key}|breach`;
+
+    let field = this.cachedField(key);
+    if (!field) {
+      const found = this.search(start, end, gates.open, WALL_BREACH_COST);
+      if (found !== 'too_far') return Array.isArray(found) ? found : null;
+      field = this.buildField(key, region, gates.open, WALL_BREACH_COST);
+    }
+
+    if (field.distance[start] === Infinity) return null;
+    const path = this.followField(field, start, end, gates.open, WALL_BREACH_COST);
+    if (path) return path;
+
+    const direct = this.search(start, end, gates.open, WALL_BREACH_COST, this.size);
+    return Array.isArray(direct) ? direct : null;
+  }
+
+  /**
+   * Follow a field into its region, then search the last few tiles.
+   * Null when the end can't be reached from where the field arrives.
+   */
+  private followField(field: FlowField, start: number, end: number, gates: Uint8Array, wallCost: number): Path | null {
+    const path = this.walk(field, start);
+    const last = path[path.length - 1];
+    const arrival = last ? this.map.index(last.x, last.y) : start;
+    if (arrival === end) return path;
+
+    const rest = this.search(arrival, end, gates, wallCost);
+    return Array.isArray(rest) ? path.concat(rest) : null;
+  }
+
+  /**
+   * A* from start to end, giving up after `limit` tiles. Enemy walls cost
+   * `wallCost` to go through, or can't be when it is Infinity.
+   */
+  private search(start: number, end: number, gates: Uint8Array, wallCost: number, limit: number = MAX_SEARCH_NODES): SearchResult {
+    const stamp = ++this.stamp;
+    const endX = end % this.width;
+    const endY = (end - endX) / this.width;
+
+    const heap = this.heap;
+    heap.clear();
+    this.gScore[start] = 0;
+    this.cameFrom[start] = -1;
+    this.opened[start] = stamp;
+    heap.push(start, 0);
+
+    let expanded = 0;
+    while (heap.size > 0) {
+      const current = heap.pop();
+      if (this.closed[current] === stamp) continue; // stale entry
+      if (current === end) return this.trace(start, end);
+      this.closed[current] = stamp;
+      if (++expanded > limit) return 'too_far';
+
+      const cx = current % this.width;
+      const cy = (current - cx) / this.width;
+      const g = this.gScore[current];
+
+      for (let dir = 0; dir < 4; dir++) {
+        let neighbor: number;
+        let nx = cx;
+        let ny = cy;
+        if (dir === 0) { if (cx === 0) continue; neighbor = current - 1; nx--; }
+        else if (dir === 1) { if (cx === this.width - 1) continue; neighbor = current + 1; nx++; }
+        else if (dir === 2) { if (cy === 0) continue; neighbor = current - this.width; ny--; }
+        else { if (cy === this.height - 1) continue; neighbor = current + this.width; ny++; }
+
+        if (this.closed[neighbor] === stamp) continue;
+        let cost: number = this.terrainCost[neighbor];
+        if (cost === Infinity) continue;
+        const owner = this.wallOwner[neighbor];
+        if (owner !== NO_PLAYER && !gates[owner]) {
+          if (wallCost === Infinity) continue;
+          cost = wallCost;
+        }
+
+        const tentative = g + cost;
+        if (this.opened[neighbor] === stamp && tentative >= this.gScore[neighbor]) continue;
+        this.opened[neighbor] = stamp;
+        this.gScore[neighbor] = tentative;
+        this.cameFrom[neighbor] = current;
+        heap.push(neighbor, tentative + Math.abs(endX - nx) + Math.abs(endY - ny));
+      }
+    }
+
+    return 'unreachable';
+  }
+
+  private trace(start: number, end: number): Path {
+    const path: Path = [];
+    for (let current = end; current !== start; current = this.cameFrom[current]) {
+      const x = current % this.width;
+      path.push({ x, y: (current - x) / this.width });
+    }
+    return path.reverse();
+  }
+
+  // ============================================================
+  // Fields
+  // ============================================================
+
+  private regionOf(i: number): number {
+    const x = i % this.width;
+    const y = (i - x) / this.width;
+    return Math.floor(y / REGION_SIZE) * this.regionColumns + Math.floor(x / REGION_SIZE);
+  }
+
+  private cachedField(key: string): FlowField | null {
+    const field = this.fields.get(key);
+    if (!field || field.version !== this.version) return null;
+    // Re-insert to mark as most recently used
+    this.fields.delete(key);
+    this.fields.set(key, field);
+    return field;
+  }
+
+  /**
+   * Count a search toward `key`, returning the searches this tick. A
+   * single search is far cheaper than a field, so only orders given
+   * together are worth one.
+   */
+  private noteDemand(key: string): number {
+    const tick = this.currentTick();
+    let demand = this.demand.get(key);
+    this.demand.delete(key);
+    if (!demand || demand.tick !== tick) {
+      demand = { tick, searches: 0 };
+    }
+    if (this.demand.size >= MAX_TRACKED_REGIONS) {
+      this.demand.delete(this.demand.keys().next().value!);
+    }
+    demand.searches++;
+    this.demand.set(key, demand);
+    return demand.searches;
+  }
+
+  /**
+   * Dijkstra outward from every enterable tile of the region. Stepping
+   * onto a tile costs that tile's movement cost, or `wallCost` for an
+   * enemy wall, so distance[i] is the cost of the route from i. Reuses
+   * the arrays of a stale or evicted field.
+   */
+  private buildField(key: string, region: number, gates: Uint8Array, wallCost: number): FlowField {
+    let field = this.fields.get(key);
+    this.fields.delete(key);
+    if (!field && this.fields.size >= MAX_CACHED_FIELDS) {
+      const oldest = this.fields.keys().next().value!;
+      field = this.fields.get(oldest);
+      this.fields.delete(oldest);
+    }
+    field ??= { version: 0, distance: new Float64Array(this.size), next: new Int32Array(this.size) };
+    field.version = this.version;
+    this.fields.set(key, field);
+
+    const { distance, next } = field;
+    distance.fill(Infinity);
+    next.fill(-1);
+
+    const heap = this.heap;
+    heap.clear();
+    const left = (region % this.regionColumns) * REGION_SIZE;
+    const top = Math.floor(region / this.regionColumns) * REGION_SIZE;
+    for (let y = top; y < Math.min(top + REGION_SIZE, this.height); y++) {
+      for (let x = left; x < Math.min(left + REGION_SIZE, this.width); x++) {
+        const i = y * this.width + x;
+        if (this.enterCost(i, gates, wallCost) === Infinity) continue;
+        distance[i] = 0;
+        heap.push(i, 0);
+      }
+    }
+
+    const width = this.width;
+    while (heap.size > 0) {
+      const priority = heap.peekPriority();
+      const current = heap.pop();
+      if (priority > distance[current]) continue; // stale entry
+
+      const cx = current % width;
+      const cy = (current - cx) / width;
+      const candidate = distance[current] + this.enterCost(current, gates, wallCost);
+
+      for (let dir = 0; dir < 4; dir++) {
+        let neighbor: number;
+        if (dir === 0) { if (cx === 0) continue; neighbor = current - 1; }
+        else if (dir === 1) { if (cx === width - 1) continue; neighbor = current + 1; }
+        else if (dir === 2) { if (cy === 0) continue; neighbor = current - width; }
+        else { if (cy === this.height - 1) continue; neighbor = current + width; }
+
+        if (candidate >= distance[neighbor] || this.enterCost(neighbor, gates, wallCost) === Infinity) continue;
+        distance[neighbor] = candidate;
+        next[neighbor] = current;
+        heap.push(neighbor, candidate);
+      }
+    }
+
+    return field;
+  }
+
+  private enterCost(i: number, gates: Uint8Array, wallCost: number): number {
+    const cost = this.terrainCost[i];
+    if (cost === Infinity) return Infinity;
+    const owner = this.wallOwner[i];
+    return owner === NO_PLAYER || gates[owner] === 1 ? cost : wallCost;
+  }
+
+  private walk(field: FlowField, start: number): Path {
+    const path: Path = [];
+    let current = start;
+    while (field.next[current] !== -1 && path.length < this.size) {
+      current = field.next[current];
+      const x = current % this.width;
+      path.push({ x, y: (current - x) / this.width });
+    }
+    return path;
+  }
+}
+
+/**
+ * Binary min-heap of tile indices keyed by distance. Entries are never
+ * updated in place; callers skip stale ones when popped.
+ */
+class IndexHeap {
+  private items: Int32Array;
+  private priorities: Float64Array;
+  size: number = 0;
+
+  constructor(capacity: number) {
+    this.items = new Int32Array(capacity);
+    this.priorities = new Float64Array(capacity);
+  }
+
+  clear(): void {
+    this.size = 0;
+  }
+
+  push(item: number, priority: number): void {
+    if (this.size === this.items.length) this.grow();
+
+    let i = this.size++;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.items[i] = this.items[parent];
+      this.priorities[i] = this.priorities[parent];
+      i = parent;
+    }
+    this.items[i] = item;
+    this.priorities[i] = priority;
+  }
+
+  peekPriority(): number {
+    return this.priorities[0];
+  }
+
+  pop(): number {
+    const top = this.items[0];
+    const lastItem = this.items[--this.size];
+    const lastPriority = this.priorities[this.size];
+
+    let i = 0;
+    while (true) {
+      let child = 2 * i + 1;
+      if (child >= this.size) break;
+      if (child + 1 < this.size && this.priorities[child + 1] < this.priorities[child]) child++;
+      if (this.priorities[child] >= lastPriority) break;
+      this.items[i] = this.items[child];
+      this.priorities[i] = this.priorities[child];
+      i = child;
+    }
+    this.items[i] = lastItem;
+    this.priorities[i] = lastPriority;
+
+    return top;
+  }
+
+  private grow(): void {
+    const items = new Int32Array(this.items.length * 2);
+    const priorities = new Float64Array(this.priorities.length * 2);
+    items.set(this.items);
+    priorities.set(this.priorities);
+    this.items = items;
+    this.priorities = priorities;
+  }
+}
@@ -0,0 +1,68 @@
+// ============================================================
+// Fractured Crowns — Seeded Random Number Generation
+// Deterministic PRNG shared by the map generator, match and bots
+// ============================================================
+
+/**
+ * Simple seeded PRNG (mulberry32).
+ * Returns a closure producing floats in [0, 1).
+ */
+export function mulberry32(seed: number): () => number {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a fresh seed for matches that were not given one explicitly.
+ * This is the only non-deterministic source of randomness in the simulation.
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
+
+/**
+ * Seedable random number generator. Two instances created with the same
+ * seed produce the same sequence, which keeps simulations reproducible.
+ */
+export class SeededRandom {
+  private generator: () => number;
+
+  constructor(readonly seed: number) {
+    this.generator = mulberry32(seed);
+  }
+
+  /**
+   * Next float in [0, 1).
+   */
+  next(): number {
+    return this.generator();
+  }
+
+  /**
+   * Float in [min, max).
+   */
+  range(min: number, max: number): number {
+    return min + this.generator() * (max - min);
+  }
+
+  /**
+   * Integer in [0, maxExclusive).
+   */
+  int(maxExclusive: number): number {
+    return Math.floor(this.generator() * maxExclusive);
+  }
+
+  /**
+   * Derive an independent generator from this one. Used to give each
+   * subsystem (e.g. every bot) its own stream so that their draws don't
+   * interleave with each other.
+   */
+  fork(): SeededRandom {
+    return new SeededRandom(Math.floor(this.generator() * 0x7fffffff));
+  }
+}
@@ -5,6 +5,9 @@
 
 import { SquadId, SPATIAL_HASH_CELL_SIZE } from '../types/game';
 
+// Whether squads of these two owners fight each other
+export type HostilityCheck = (ownerId: string, otherId: string) => boolean;
+
 interface SpatialEntry {
   id: SquadId;
   x: number;
@@ -16,9 +19,11 @@ export class SpatialHash {
   private cellSize: number;
   private cells: Map<string, SpatialEntry[]>;
   private entityCells: Map<SquadId, string>; // track which cell each entity is in
+  private isHostile: HostilityCheck;
 
-  constructor(cellSize: number = SPATIAL_HASH_CELL_SIZE) {
+  constructor(cellSize: number = SPATIAL_HASH_CELL_SIZE, isHostile: HostilityCheck = (a, b) => a !== b) {
     this.cellSize = cellSize;
+    this.isHostile = isHostile;
     this.cells = new Map();
     this.entityCells = new Map();
   }
@@ -197,7 +202,7 @@ export class SpatialHash {
     while (radius <= maxRadius) {
       const entries = this.queryRadius(x, y, radius);
       for (const entry of entries) {
-        if (entry.ownerId !== ownerId) {
+        if (this.isHostile(ownerId, entry.ownerId)) {
           return entry;
         }
       }
@@ -210,7 +215,7 @@ export class SpatialHash {
    * Find all enemy squads near a position (for combat resolution).
    */
   findEnemiesInRange(x: number, y: number, ownerId: string, range: number): SpatialEntry[] {
-    return this.queryRadius(x, y, range).filter(e => e.ownerId !== ownerId);
+    return this.queryRadius(x, y, range).filter(e => this.isHostile(ownerId, e.ownerId));
   }
 
   /**
@@ -239,7 +244,7 @@ export class SpatialHash {
         if (!cell) continue;
 
         for (const entry of cell) {
-          if (entry.ownerId === ownerId) continue;
+          if (!this.isHostile(ownerId, entry.ownerId)) continue;
           const dx = entry.x - x;
           const dy = entry.y - y;
           if (dx * dx + dy * dy <= rangeSq) {
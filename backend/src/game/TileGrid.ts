@@ -0,0 +1,192 @@
+// ============================================================
+// Fractured Crowns — Tile Grid
+// Struct-of-arrays map storage. Every tile attribute lives in its
+// own typed array indexed by y * width + x, players are stored as
+// small slot numbers, and mines, towers, production buildings and
+// depots are kept in index lists so systems don't scan the whole map
+// ============================================================
+
+import { PlayerId, TerrainType, StructureType, VisibleTile } from '../types/game';
+
+export const TERRAIN_TYPES: TerrainType[] = Object.values(TerrainType);
+
+// Code 0 is "no structure"
+export const STRUCTURE_TYPES: Array<StructureType | null> = [null, ...Object.values(StructureType)];
+
+// Slot 0 is "nobody"
+export const NO_PLAYER = 0;
+
+const FLAG_CONNECTED = 1;
+
+export function terrainCode(terrain: TerrainType): number {
+  return TERRAIN_TYPES.indexOf(terrain);
+}
+
+export function structureCode(structure: StructureType | null): number {
+  return STRUCTURE_TYPES.indexOf(structure);
+}
+
+const MINE = terrainCode(TerrainType.Mine);
+const TOWER = structureCode(StructureType.Tower);
+const CASTLE = structureCode(StructureType.Castle);
+const BARRACKS = structureCode(StructureType.Barracks);
+const DEPOT = structureCode(StructureType.Depot);
+
+export class TileGrid {
+  readonly width: number;
+  readonly height: number;
+  readonly size: number;
+
+  readonly terrain: Uint8Array; // code into TERRAIN_TYPES
+  readonly owner: Uint8Array; // player slot
+  readonly structure: Uint8Array; // code into STRUCTURE_TYPES
+  readonly structureHp: Float32Array;
+  readonly captureProgress: Float32Array; // 0–100
+  readonly capturer: Uint8Array; // player slot
+  readonly mineLevel: Uint8Array; // 0 = base mine, 1+ = upgraded
+  readonly constructionProgress: Float32Array; // 0–1, 1 = complete (or no structure)
+  readonly flags: Uint8Array;
+
+  // Index lists, kept in step by setTerrain / setStructure
+  readonly mines: Set<number> = new Set();
+  readonly towers: Set<number> = new Set();
+  readonly productionBuildings: Set<number> = new Set(); // castles and barracks
+  readonly depots: Set<number> = new Set();
+
+  private slots: Array<PlayerId | null> = [null];
+  private slotIds: Map<PlayerId, number> = new Map();
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.size = width * height;
+
+    this.terrain = new Uint8Array(this.size);
+    this.owner = new Uint8Array(this.size);
+    this.structure = new Uint8Array(this.size);
+    this.structureHp = new Float32Array(this.size);
+    this.captureProgress = new Float32Array(this.size);
+    this.capturer = new Uint8Array(this.size);
+    this.mineLevel = new Uint8Array(this.size);
+    this.constructionProgress = new Float32Array(this.size).fill(1);
+    this.flags = new Uint8Array(this.size);
+  }
+
+  index(x: number, y: number): number {
+    return y * this.width + x;
+  }
+
+  inBounds(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.width && y < this.height;
+  }
+
+  // ---- Players ----
+
+  /**
+   * Slot number for a player, assigned on first use.
+   */
+  slotOf(playerId: PlayerId): number {
+    let slot = this.slotIds.get(playerId);
+    if (slot === undefined) {
+      slot = this.slots.push(playerId) - 1;
+      this.slotIds.set(playerId, slot);
+    }
+    return slot;
+  }
+
+  playerInSlot(slot: number): PlayerId | null {
+    return this.slots[slot] ?? null;
+  }
+
+  // ---- Terrain ----
+
+  getTerrain(i: number): TerrainType {
+    return TERRAIN_TYPES[this.terrain[i]];
+  }
+
+  setTerrain(i: number, terrain: TerrainType): void {
+    this.terrain[i] = terrainCode(terrain);
+    if (terrain === TerrainType.Mine) this.mines.add(i);
+    else this.mines.delete(i);
+  }
+
+  isMine(i: number): boolean {
+    return this.terrain[i] === MINE;
+  }
+
+  // ---- Ownership ----
+
+  getOwner(i: number): PlayerId | null {
+    return this.slots[this.owner[i]] ?? null;
+  }
+
+  setOwner(i: number, playerId: PlayerId | null): void {
+    this.owner[i] = playerId ? this.slotOf(playerId) : NO_PLAYER;
+  }
+
+  isOwnedBy(i: number, playerId: PlayerId): boolean {
+    const slot = this.slotIds.get(playerId);
+    return slot !== undefined && this.owner[i] === slot;
+  }
+
+  getCapturer(i: number): PlayerId | null {
+    return this.slots[this.capturer[i]] ?? null;
+  }
+
+  setCapturer(i: number, playerId: PlayerId | null): void {
+    this.capturer[i] = playerId ? this.slotOf(playerId) : NO_PLAYER;
+  }
+
+  isConnected(i: number): boolean {
+    return (this.flags[i] & FLAG_CONNECTED) !== 0;
+  }
+
+  setConnected(i: number, connected: boolean): void {
+    if (connected) this.flags[i] |= FLAG_CONNECTED;
+    else this.flags[i] &= ~FLAG_CONNECTED;
+  }
+
+  // ---- Structures ----
+
+  getStructure(i: number): StructureType | null {
+    return STRUCTURE_TYPES[this.structure[i]];
+  }
+
+  /**
+   * Change the structure type, keeping the tower, production and depot
+   * lists in step. HP and construction progress are left to the caller.
+   */
+  setStructure(i: number, structure: StructureType | null): void {
+    const code = structureCode(structure);
+    this.structure[i] = code;
+
+    if (code === TOWER) this.towers.add(i);
+    else this.towers.delete(i);
+
+    if (code === CASTLE || code === BARRACKS) this.productionBuildings.add(i);
+    else this.productionBuildings.delete(i);
+
+    if (code === DEPOT) this.depots.add(i);
+    else this.depots.delete(i);
+  }
+
+  isComplete(i: number): boolean {
+    return this.constructionProgress[i] >= 1;
+  }
+
+  // ---- Snapshots ----
+
+  toVisibleTile(i: number): VisibleTile {
+    return {
+      x: i % this.width,
+      y: Math.floor(i / this.width),
+      terrain: this.getTerrain(i),
+      ownerId: this.getOwner(i),
+      structureType: this.getStructure(i),
+      structureHp: this.structureHp[i],
+      captureProgress: this.captureProgress[i],
+      capturingPlayerId: this.getCapturer(i),
+      constructionProgress: this.constructionProgress[i],
+    };
+  }
+}
@@ -1,23 +1,35 @@
 // ============================================================
 // Fractured Crowns — Lobby / Queue Manager
-// Handles matchmaking queue, lobby creation, and match launching
+// Handles matchmaking queue, lobby creation, and match launching,
+// plus invite-code private lobbies run by a host
 // ============================================================
 
 import { v4 as uuidv4 } from 'uuid';
+import { randomInt } from 'crypto';
 import {
   PlayerId,
   MatchId,
   QueueEntry,
   LobbyState,
+  BotDifficulty,
+  RulePreset,
+  PrivateLobbySettings,
+  PrivateLobbyState,
+  TeamMode,
+  TEAM_LAYOUTS,
   MATCH_CONFIG,
 } from '../types/game';
+import { getPresetRules } from '../game/MatchRules';
 
 export interface LobbyManagerCallbacks {
   onMatchReady: (
-    players: Array<{ id: PlayerId; username: string; socketId: string }>,
-    lobbyId: string
+    players: Array<{ id: PlayerId; username: string; socketId: string; team?: number | null }>,
+    lobbyId: string,
+    settings?: PrivateLobbySettings // set for private lobbies
   ) => void;
   onLobbyUpdate: (socketIds: string[], state: LobbyState) => void;
+  onPrivateLobbyUpdate: (socketIds: string[], state: PrivateLobbyState) => void;
+  onPrivateLobbyKicked: (socketId: string) => void;
 }
 
 interface Lobby {
@@ -28,6 +40,19 @@ interface Lobby {
   countdownEndTime: number;
 }
 
+interface PrivateLobby {
+  id: string;
+  code: string;
+  hostId: PlayerId;
+  members: QueueEntry[];
+  settings: PrivateLobbySettings;
+  createdAt: number;
+}
+
+// Invite codes skip look-alike characters (0/O, 1/I)
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 6;
+
 export class LobbyManager {
   private queue: QueueEntry[] = [];
   private activeLobby: Lobby | null = null;
@@ -38,6 +63,10 @@ export class LobbyManager {
   private playerSocketMap: Map<string, PlayerId> = new Map(); // socketId -> playerId
   private playerInQueue: Set<PlayerId> = new Set();
 
+  // Private lobbies, keyed by invite code
+  private privateLobbies: Map<string, PrivateLobby> = new Map();
+  private playerPrivateLobby: Map<PlayerId, string> = new Map(); // playerId -> code
+
   constructor(callbacks: LobbyManagerCallbacks) {
     this.callbacks = callbacks;
 
@@ -142,11 +171,288 @@ export class LobbyManager {
    */
   handleDisconnect(socketId: string): void {
     const playerId = this.playerSocketMap.get(socketId);
-    if (playerId) {
+    if (!playerId) return;
+
+    if (this.playerPrivateLobby.has(playerId)) {
+      this.leavePrivateLobby(playerId);
+    } else {
       this.leaveQueue(playerId, socketId);
     }
   }
 
+  /**
+   * Point a player's queue or private lobby spot at a new socket, e.g.
+   * after they resumed their session in another tab. Returns false if
+   * they hold no spot.
+   */
+  rebindSocket(playerId: PlayerId, socketId: string): boolean {
+    const lobby = this.getPlayerPrivateLobby(playerId);
+    const entry = lobby
+      ? lobby.members.find(m => m.playerId === playerId)
+      : this.queue.find(e => e.playerId === playerId);
+    if (!entry) return false;
+
+    this.playerSocketMap.delete(entry.socketId);
+    this.playerSocketMap.set(socketId, playerId);
+    entry.socketId = socketId; // the active lobby shares queue entries
+    return true;
+  }
+
+  // ============================================================
+  // Private Lobbies
+  //
+  // Mutating methods return an error message, or null on success.
+  // ============================================================
+
+  /**
+   * Create a private lobby with the caller as host.
+   */
+  createPrivateLobby(playerId: PlayerId, username: string, socketId: string): string | null {
+    if (this.playerInQueue.has(playerId) || this.playerPrivateLobby.has(playerId)) {
+      return 'Already in a lobby';
+    }
+
+    const code = this.generateInviteCode();
+    const lobby: PrivateLobby = {
+      id: uuidv4(),
+      code,
+      hostId: playerId,
+      members: [{ playerId, username, joinedAt: Date.now(), socketId }],
+      settings: {
+        botCount: 0,
+        botDifficulty: BotDifficulty.Normal,
+        rulePreset: RulePreset.Standard,
+        teamMode: TeamMode.FreeForAll,
+      },
+      createdAt: Date.now(),
+    };
+
+    this.privateLobbies.set(code, lobby);
+    this.playerPrivateLobby.set(playerId, code);
+    this.playerSocketMap.set(socketId, playerId);
+
+    console.log(`[LobbyManager] ${username} (${playerId}) created private lobby ${code}`);
+
+    this.broadcastPrivateLobby(lobby);
+    return null;
+  }
+
+  /**
+   * Join a private lobby by invite code.
+   */
+  joinPrivateLobby(code: string, playerId: PlayerId, username: string, socketId: string): string | null {
+    if (this.playerInQueue.has(playerId) || this.playerPrivateLobby.has(playerId)) {
+      return 'Already in a lobby';
+    }
+
+    const lobby = this.privateLobbies.get(code.trim().toUpperCase());
+    if (!lobby) return 'No lobby with that code';
+
+    if (lobby.members.length + lobby.settings.botCount >= this.getPrivateLobbyCapacity(lobby)) {
+      return 'Lobby is full';
+    }
+
+    lobby.members.push({ playerId, username, joinedAt: Date.now(), socketId });
+    this.playerPrivateLobby.set(playerId, lobby.code);
+    this.playerSocketMap.set(socketId, playerId);
+
+    console.log(`[LobbyManager] ${username} (${playerId}) joined private lobby ${lobby.code}`);
+
+    this.broadcastPrivateLobby(lobby);
+    return null;
+  }
+
+  /**
+   * Leave a private lobby. The longest-waiting member inherits the host role.
+   */
+  leavePrivateLobby(playerId: PlayerId): void {
+    const lobby = this.getPlayerPrivateLobby(playerId);
+    if (!lobby) return;
+
+    this.removePrivateMember(lobby, playerId);
+
+    if (lobby.members.length === 0) {
+      this.privateLobbies.delete(lobby.code);
+      console.log(`[LobbyManager] Private lobby ${lobby.code} closed`);
+      return;
+    }
+
+    if (lobby.hostId === playerId) {
+      lobby.hostId = lobby.members[0].playerId;
+      console.log(`[LobbyManager] ${lobby.members[0].username} is now host of ${lobby.code}`);
+    }
+
+    this.broadcastPrivateLobby(lobby);
+  }
+
+  /**
+   * Host only: remove a member from the lobby.
+   */
+  kickFromPrivateLobby(hostId: PlayerId, targetId: PlayerId): string | null {
+    const lobby = this.getPlayerPrivateLobby(hostId);
+    if (!lobby) return 'Not in a lobby';
+    if (lobby.hostId !== hostId) return 'Only the host can kick players';
+    if (targetId === hostId) return 'The host cannot kick themselves';
+
+    const target = lobby.members.find(m => m.playerId === targetId);
+    if (!target) return 'Player is not in this lobby';
+
+    this.removePrivateMember(lobby, targetId);
+    this.callbacks.onPrivateLobbyKicked(target.socketId);
+
+    console.log(`[LobbyManager] ${target.username} was kicked from ${lobby.code}`);
+
+    this.broadcastPrivateLobby(lobby);
+    return null;
+  }
+
+  /**
+   * Host only: change bot count, difficulty, rule preset and team mode.
+   */
+  updatePrivateLobbySettings(hostId: PlayerId, settings: Partial<PrivateLobbySettings>): string | null {
+    const lobby = this.getPlayerPrivateLobby(hostId);
+    if (!lobby) return 'Not in a lobby';
+    if (lobby.hostId !== hostId) return 'Only the host can change settings';
+
+    if (settings.rulePreset !== undefined || settings.teamMode !== undefined) {
+      const rulePreset = settings.rulePreset ?? lobby.settings.rulePreset;
+      const teamMode = settings.teamMode ?? lobby.settings.teamMode;
+      if (!Object.values(RulePreset).includes(rulePreset)) {
+        return 'Unknown rule preset';
+      }
+      if (!Object.values(TeamMode).includes(teamMode)) {
+        return 'Unknown team mode';
+      }
+
+      // Every team needs a full roster's worth of room
+      const layout = TEAM_LAYOUTS[teamMode];
+      const maxPlayers = getPresetRules(rulePreset).maxPlayers;
+      if (layout && layout.teams * layout.teamSize > maxPlayers) {
+        return `That rule set allows at most ${maxPlayers} players`;
+      }
+
+      const capacity = this.capacityFor(rulePreset, teamMode);
+      if (lobby.members.length > capacity) {
+        return `That setup allows at most ${capacity} players`;
+      }
+      lobby.settings.rulePreset = rulePreset;
+      lobby.settings.teamMode = teamMode;
+      lobby.settings.botCount = Math.min(lobby.settings.botCount, capacity - lobby.members.length);
+    }
+
+    if (settings.botCount !== undefined) {
+      const maxBots = this.getPrivateLobbyCapacity(lobby) - lobby.members.length;
+      if (!Number.isInteger(settings.botCount) || settings.botCount < 0 || settings.botCount > maxBots) {
+        return `Bot count must be between 0 and ${maxBots}`;
+      }
+      lobby.settings.botCount = settings.botCount;
+    }
+
+    if (settings.botDifficulty !== undefined) {
+      if (!Object.values(BotDifficulty).includes(settings.botDifficulty)) {
+        return 'Unknown bot difficulty';
+      }
+      lobby.settings.botDifficulty = settings.botDifficulty;
+    }
+
+    this.broadcastPrivateLobby(lobby);
+    return null;
+  }
+
+  /**
+   * Host only: launch the lobby as a match right away.
+   */
+  startPrivateLobby(hostId: PlayerId): string | null {
+    const lobby = this.getPlayerPrivateLobby(hostId);
+    if (!lobby) return 'Not in a lobby';
+    if (lobby.hostId !== hostId) return 'Only the host can start the match';
+    if (lobby.members.length + lobby.settings.botCount < 2) {
+      return 'Need at least two players — invite a friend or add bots';
+    }
+
+    const players = lobby.members.map((m, i) => ({
+      id: m.playerId,
+      username: m.username,
+      socketId: m.socketId,
+      team: this.teamFor(lobby, i),
+    }));
+
+    for (const member of lobby.members) {
+      this.playerPrivateLobby.delete(member.playerId);
+      this.playerSocketMap.delete(member.socketId);
+    }
+    this.privateLobbies.delete(lobby.code);
+
+    console.log(
+      `[LobbyManager] Starting private lobby ${lobby.code} with ${players.length} players ` +
+      `and ${lobby.settings.botCount} ${lobby.settings.botDifficulty} bots ` +
+      `(${lobby.settings.rulePreset} rules, ${lobby.settings.teamMode})`
+    );
+
+    this.callbacks.onMatchReady(players, lobby.id, { ...lobby.settings });
+    return null;
+  }
+
+  private removePrivateMember(lobby: PrivateLobby, playerId: PlayerId): void {
+    const member = lobby.members.find(m => m.playerId === playerId);
+    if (member) this.playerSocketMap.delete(member.socketId);
+
+    lobby.members = lobby.members.filter(m => m.playerId !== playerId);
+    this.playerPrivateLobby.delete(playerId);
+  }
+
+  private getPlayerPrivateLobby(playerId: PlayerId): PrivateLobby | undefined {
+    const code = this.playerPrivateLobby.get(playerId);
+    return code ? this.privateLobbies.get(code) : undefined;
+  }
+
+  private getPrivateLobbyCapacity(lobby: PrivateLobby): number {
+    return this.capacityFor(lobby.settings.rulePreset, lobby.settings.teamMode);
+  }
+
+  private capacityFor(rulePreset: RulePreset, teamMode: TeamMode): number {
+    const maxPlayers = getPresetRules(rulePreset).maxPlayers;
+    const layout = TEAM_LAYOUTS[teamMode];
+    return layout ? Math.min(maxPlayers, layout.teams * layout.teamSize) : maxPlayers;
+  }
+
+  /**
+   * Members are dealt onto teams in join order; bots fill whatever room
+   * is left once the match is created.
+   */
+  private teamFor(lobby: PrivateLobby, memberIndex: number): number | null {
+    const layout = TEAM_LAYOUTS[lobby.settings.teamMode];
+    return layout ? memberIndex % layout.teams : null;
+  }
+
+  private generateInviteCode(): string {
+    let code: string;
+    do {
+      code = '';
+      for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+        code += INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)];
+      }
+    } while (this.privateLobbies.has(code));
+    return code;
+  }
+
+  private toPrivateLobbyState(lobby: PrivateLobby): PrivateLobbyState {
+    return {
+      code: lobby.code,
+      hostId: lobby.hostId,
+      members: lobby.members.map((m, i) => ({ playerId: m.playerId, username: m.username, team: this.teamFor(lobby, i) })),
+      settings: { ...lobby.settings },
+      maxPlayers: this.getPrivateLobbyCapacity(lobby),
+    };
+  }
+
+  private broadcastPrivateLobby(lobby: PrivateLobby): void {
+    this.callbacks.onPrivateLobbyUpdate(
+      lobby.members.map(m => m.socketId),
+      this.toPrivateLobbyState(lobby)
+    );
+  }
+
   // ============================================================
   // Lobby Management
   // ============================================================
@@ -304,6 +610,21 @@ export class LobbyManager {
     return this.playerInQueue.has(playerId);
   }
 
+  /**
+   * Check if a player is waiting in a private lobby.
+   */
+  isPlayerInPrivateLobby(playerId: PlayerId): boolean {
+    return this.playerPrivateLobby.has(playerId);
+  }
+
+  /**
+   * Get the private lobby a player is waiting in, if any.
+   */
+  getPrivateLobbyState(playerId: PlayerId): PrivateLobbyState | null {
+    const lobby = this.getPlayerPrivateLobby(playerId);
+    return lobby ? this.toPrivateLobbyState(lobby) : null;
+  }
+
   /**
    * Get total queue size.
    */
@@ -335,6 +656,8 @@ export class LobbyManager {
     this.playerInQueue.clear();
     this.playerSocketMap.clear();
     this.activeLobby = null;
+    this.privateLobbies.clear();
+    this.playerPrivateLobby.clear();
 
     console.log('[LobbyManager] Shut down');
   }
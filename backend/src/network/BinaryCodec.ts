@@ -0,0 +1,312 @@
+// ============================================================
+// Fractured Crowns — Binary Codec
+// MessagePack-style packing for per-tick traffic. Strings and
+// object shapes are interned per connection, so repeated IDs,
+// enum values and keys shrink to a byte or two.
+// Mirrored in frontend/src/network/BinaryCodec.ts
+// ============================================================
+
+export type WireEncoding = 'json' | 'binary';
+
+// ---- Tags ----
+// 0x00–0x7f encode small non-negative integers directly.
+
+const TAG_NULL = 0xc0;
+const TAG_FALSE = 0xc2;
+const TAG_TRUE = 0xc3;
+const TAG_UINT = 0xc4; // varint
+const TAG_NEG_INT = 0xc5; // varint of the absolute value
+const TAG_FLOAT32 = 0xca;
+const TAG_FLOAT64 = 0xcb;
+const TAG_STRING = 0xd0; // varint byte length + UTF-8, interned
+const TAG_STRING_REF = 0xd1; // varint index into the string table
+const TAG_ARRAY = 0xd2; // varint length + items
+const TAG_SHAPE = 0xd3; // varint key count + keys, interned, then values
+const TAG_SHAPE_REF = 0xd4; // varint index into the shape table, then values
+
+const MAX_FIXINT = 0x7f;
+
+// Interning limits — both ends apply the same rules, so tables stay in sync
+const MAX_INTERNED_STRINGS = 16384;
+const MAX_INTERNED_SHAPES = 1024;
+const MAX_INTERNED_LENGTH = 64;
+
+/**
+ * One connection's codec. Each direction has its own tables, and messages
+ * must be decoded in the order they were encoded.
+ *
+ * Non-integer numbers travel as float32 unless that would lose range.
+ */
+export class BinaryCodec {
+  // Outgoing
+  private sentStrings: Map<string, number> = new Map();
+  private sentShapes: Map<string, number> = new Map();
+  private buffer: Uint8Array = new Uint8Array(4096);
+  private view: DataView = new DataView(this.buffer.buffer);
+  private offset: number = 0;
+
+  // Incoming
+  private receivedStrings: string[] = [];
+  private receivedShapes: string[][] = [];
+  private input: Uint8Array = new Uint8Array(0);
+  private inputView: DataView = new DataView(this.input.buffer);
+  private position: number = 0;
+
+  private textEncoder = new TextEncoder();
+  private textDecoder = new TextDecoder();
+
+  encode(value: unknown): Uint8Array {
+    this.offset = 0;
+    this.writeValue(value);
+    return this.buffer.slice(0, this.offset);
+  }
+
+  decode(data: ArrayBuffer | Uint8Array): unknown {
+    this.input = data instanceof Uint8Array ? data : new Uint8Array(data);
+    this.inputView = new DataView(this.input.buffer, this.input.byteOffset, this.input.byteLength);
+    this.position = 0;
+
+    const value = this.readValue();
+    if (this.position !== this.input.length) {
+      throw new Error(`Trailing bytes in binary message (${this.input.length - this.position})`);
+    }
+    return value;
+  }
+
+  // ============================================================
+  // Writing
+  // ============================================================
+
+  private writeValue(value: unknown): void {
+    switch (typeof value) {
+      case 'number':
+        this.writeNumber(value);
+        return;
+      case 'string':
+        this.writeString(value);
+        return;
+      case 'boolean':
+        this.writeByte(value ? TAG_TRUE : TAG_FALSE);
+        return;
+      case 'object':
+        if (value === null) {
+          this.writeByte(TAG_NULL);
+        } else if (Array.isArray(value)) {
+          this.writeByte(TAG_ARRAY);
+          this.writeVarint(value.length);
+          for (const item of value) this.writeValue(item);
+        } else {
+          this.writeObject(value as Record<string, unknown>);
+        }
+        return;
+      default:
+        // undefined, functions — same as JSON would send for array slots
+        this.writeByte(TAG_NULL);
+    }
+  }
+
+  private writeNumber(value: number): void {
+    if (Number.isSafeInteger(value)) {
+      if (value >= 0 && value <= MAX_FIXINT) {
+        this.writeByte(value);
+      } else if (value >= 0) {
+        this.writeByte(TAG_UINT);
+        this.writeVarint(value);
+      } else {
+        this.writeByte(TAG_NEG_INT);
+        this.writeVarint(-value);
+      }
+      return;
+    }
+
+    const magnitude = Math.abs(value);
+    if (!Number.isFinite(value) || (magnitude < 3.4e38 && magnitude > 1e-30)) {
+      this.ensure(5);
+      this.buffer[this.offset++] = TAG_FLOAT32;
+      this.view.setFloat32(this.offset, value);
+      this.offset += 4;
+    } else {
+      this.ensure(9);
+      this.buffer[this.offset++] = TAG_FLOAT64;
+      this.view.setFloat64(this.offset, value);
+      this.offset += 8;
+    }
+  }
+
+  private writeString(value: string): void {
+    const ref = this.sentStrings.get(value);
+    if (ref !== undefined) {
+      this.writeByte(TAG_STRING_REF);
+      this.writeVarint(ref);
+      return;
+    }
+
+    const bytes = this.textEncoder.encode(value);
+    this.writeByte(TAG_STRING);
+    this.writeVarint(bytes.length);
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.offset);
+    this.offset += bytes.length;
+
+    if (value.length <= MAX_INTERNED_LENGTH && this.sentStrings.size < MAX_INTERNED_STRINGS) {
+      this.sentStrings.set(value, this.sentStrings.size);
+    }
+  }
+
+  private writeObject(value: Record<string, unknown>): void {
+    // Like JSON, drop undefined properties
+    const keys = Object.keys(value).filter(key => value[key] !== undefined);
+    const signature = keys.join('\u0000');
+
+    const ref = this.sentShapes.get(signature);
+    if (ref !== undefined) {
+      this.writeByte(TAG_SHAPE_REF);
+      this.writeVarint(ref);
+    } else {
+      this.writeByte(TAG_SHAPE);
+      this.writeVarint(keys.length);
+      for (const key of keys) this.writeString(key);
+      if (this.sentShapes.size < MAX_INTERNED_SHAPES) {
+        this.sentShapes.set(signature, this.sentShapes.size);
+      }
+    }
+
+    for (const key of keys) this.writeValue(value[key]);
+  }
+
+  private writeVarint(value: number): void {
+    // Arithmetic rather than bitwise so values above 2^31 survive
+    while (value >= 0x80) {
+      this.writeByte((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.writeByte(value);
+  }
+
+  private writeByte(byte: number): void {
+    this.ensure(1);
+    this.buffer[this.offset++] = byte;
+  }
+
+  private ensure(bytes: number): void {
+    if (this.offset + bytes <= this.buffer.length) return;
+
+    let size = this.buffer.length * 2;
+    while (size < this.offset + bytes) size *= 2;
+
+    const grown = new Uint8Array(size);
+    grown.set(this.buffer.subarray(0, this.offset));
+    this.buffer = grown;
+    this.view = new DataView(grown.buffer);
+  }
+
+  // ============================================================
+  // Reading
+  // ============================================================
+
+  private readValue(): unknown {
+    const tag = this.readByte();
+    if (tag <= MAX_FIXINT) return tag;
+
+    switch (tag) {
+      case TAG_NULL:
+        return null;
+      case TAG_FALSE:
+        return false;
+      case TAG_TRUE:
+        return true;
+      case TAG_UINT:
+        return this.readVarint();
+      case TAG_NEG_INT:
+        return -this.readVarint();
+      case TAG_FLOAT32: {
+        this.require(4);
+        const value = this.inputView.getFloat32(this.position);
+        this.position += 4;
+        return value;
+      }
+      case TAG_FLOAT64: {
+        this.require(8);
+        const value = this.inputView.getFloat64(this.position);
+        this.position += 8;
+        return value;
+      }
+      case TAG_STRING:
+        return this.readStringLiteral();
+      case TAG_STRING_REF:
+        return this.lookup(this.receivedStrings, this.readVarint(), 'string');
+      case TAG_ARRAY: {
+        const length = this.readVarint();
+        const items: unknown[] = [];
+        for (let i = 0; i < length; i++) items.push(this.readValue());
+        return items;
+      }
+      case TAG_SHAPE: {
+        const count = this.readVarint();
+        const keys: string[] = [];
+        for (let i = 0; i < count; i++) {
+          const key = this.readValue();
+          if (typeof key !== 'string') throw new Error('Object key is not a string');
+          keys.push(key);
+        }
+        if (this.receivedShapes.length < MAX_INTERNED_SHAPES) {
+          this.receivedShapes.push(keys);
+        }
+        return this.readObject(keys);
+      }
+      case TAG_SHAPE_REF:
+        return this.readObject(this.lookup(this.receivedShapes, this.readVarint(), 'shape'));
+      default:
+        throw new Error(`Unknown tag 0x${tag.toString(16)} at byte ${this.position - 1}`);
+    }
+  }
+
+  private readObject(keys: string[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const key of keys) {
+      result[key] = this.readValue();
+    }
+    return result;
+  }
+
+  private readStringLiteral(): string {
+    const length = this.readVarint();
+    this.require(length);
+    const value = this.textDecoder.decode(this.input.subarray(this.position, this.position + length));
+    this.position += length;
+
+    if (value.length <= MAX_INTERNED_LENGTH && this.receivedStrings.length < MAX_INTERNED_STRINGS) {
+      this.receivedStrings.push(value);
+    }
+    return value;
+  }
+
+  private readVarint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.readByte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) throw new Error('Varint too long');
+    }
+  }
+
+  private readByte(): number {
+    this.require(1);
+    return this.input[this.position++]!;
+  }
+
+  private require(bytes: number): void {
+    if (this.position + bytes > this.input.length) {
+      throw new Error('Unexpected end of binary message');
+    }
+  }
+
+  private lookup<T>(table: T[], index: number, kind: string): T {
+    const entry = table[index];
+    if (entry === undefined) throw new Error(`Unknown ${kind} reference ${index}`);
+    return entry;
+  }
+}
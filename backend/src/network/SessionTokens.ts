@@ -0,0 +1,62 @@
+// ============================================================
+// Fractured Crowns — Session Tokens
+// HMAC-signed tokens that let a player resume their identity
+// from a new socket after a refresh or network drop
+// ============================================================
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { PlayerId } from '../types/game';
+
+// Long enough to cover a full queue wait plus a full match
+const TOKEN_TTL_MS = 2 * 60 * 60 * 1000;
+
+export interface SessionClaims {
+  playerId: PlayerId;
+  username: string;
+  issuedAt: number;
+}
+
+export class SessionTokens {
+  private secret: Buffer;
+
+  /**
+   * Without SESSION_SECRET a random per-process secret is used, so tokens
+   * stop working after a restart — as do the in-memory matches they refer to.
+   */
+  constructor(secret: string | undefined = process.env.SESSION_SECRET) {
+    this.secret = secret ? Buffer.from(secret, 'utf8') : randomBytes(32);
+  }
+
+  issue(playerId: PlayerId, username: string, now: number = Date.now()): string {
+    const claims: SessionClaims = { playerId, username, issuedAt: now };
+    const payload = Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url');
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Returns the token's claims, or null if it is malformed, forged or expired.
+   */
+  verify(token: unknown, now: number = Date.now()): SessionClaims | null {
+    if (typeof token !== 'string' || token.length > 1024) return null;
+
+    const [payload, signature, extra] = token.split('.');
+    if (!payload || !signature || extra !== undefined) return null;
+
+    const expected = Buffer.from(this.sign(payload), 'utf8');
+    const actual = Buffer.from(signature, 'utf8');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as SessionClaims;
+      if (typeof claims.playerId !== 'string' || typeof claims.username !== 'string') return null;
+      if (typeof claims.issuedAt !== 'number' || now - claims.issuedAt > TOKEN_TTL_MS) return null;
+      return claims;
+    } catch {
+      return null;
+    }
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
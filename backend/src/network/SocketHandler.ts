@@ -12,36 +12,69 @@ import {
   MatchPhase,
   GameCommand,
   GameStateSnapshot,
+  GameStateDelta,
   LobbyState,
+  PrivateLobbySettings,
+  PrivateLobbyState,
   MatchResult,
   CommandType,
   MATCH_CONFIG,
+  ReplaySummary,
+  ReplayStatus,
+  ReplayRosterEntry,
+  ReplayControl,
 } from '../types/game';
 import { GameManager, GameManagerCallbacks } from '../game/GameManager';
 import { LobbyManager, LobbyManagerCallbacks } from '../lobby/LobbyManager';
+import { ReplaySession } from '../replay/ReplaySession';
+import { getPresetRules } from '../game/MatchRules';
+import { StateEncoder } from './StateEncoder';
+import { BinaryCodec, WireEncoding } from './BinaryCodec';
+import { SessionTokens } from './SessionTokens';
 
 // ---- Client-to-Server Events ----
 
 interface ClientToServerEvents {
   join_queue: (data: { username: string }) => void;
   leave_queue: () => void;
-  game_command: (data: { command: GameCommand }) => void;
+  create_private_lobby: (data: { username: string }) => void;
+  join_private_lobby: (data: { username: string; code: string }) => void;
+  leave_private_lobby: () => void;
+  private_lobby_kick: (data: { playerId: PlayerId }) => void;
+  private_lobby_settings: (data: Partial<PrivateLobbySettings>) => void;
+  private_lobby_start: () => void;
+  resume_session: (data: { token: string }) => void;
+  game_command: (data: { command: GameCommand } | Uint8Array) => void;
   request_map: () => void;
+  state_ack: (data: { tick: number }) => void;
+  request_keyframe: () => void;
   ping: (callback: (timestamp: number) => void) => void;
+  list_replays: () => void;
+  open_replay: (data: { matchId: MatchId }) => void;
+  replay_control: (data: ReplayControl) => void;
+  close_replay: () => void;
 }
 
 // ---- Server-to-Client Events ----
 
 interface ServerToClientEvents {
-  queue_joined: (data: { playerId: PlayerId; lobbyState: LobbyState }) => void;
+  queue_joined: (data: { playerId: PlayerId; lobbyState: LobbyState; sessionToken: string }) => void;
   lobby_update: (state: LobbyState) => void;
-  match_starting: (data: { matchId: MatchId; playerId: PlayerId }) => void;
+  private_lobby_joined: (data: { playerId: PlayerId; lobby: PrivateLobbyState; sessionToken: string }) => void;
+  private_lobby_update: (state: PrivateLobbyState) => void;
+  private_lobby_kicked: () => void;
+  match_starting: (data: { matchId: MatchId; playerId: PlayerId; sessionToken: string }) => void;
+  session_resumed: (data: { playerId: PlayerId; username: string; matchId: MatchId | null; keptLobbySpot: boolean; sessionToken: string }) => void;
   phase_change: (data: { matchId: MatchId; phase: MatchPhase; data?: any }) => void;
-  game_state: (snapshot: GameStateSnapshot) => void;
+  game_state: (delta: GameStateDelta | Uint8Array) => void;
   match_ended: (result: MatchResult) => void;
   map_data: (data: { width: number; height: number; terrain: string[][] }) => void;
   error: (data: { message: string; code?: string }) => void;
   server_info: (data: { activeMatches: number; queueSize: number; totalPlayers: number }) => void;
+  replay_list: (replays: ReplaySummary[]) => void;
+  replay_opened: (data: { status: ReplayStatus; roster: ReplayRosterEntry[]; result: MatchResult }) => void;
+  replay_state: (data: { status: ReplayStatus; snapshot: GameStateSnapshot; full: boolean }) => void;
+  replay_status: (status: ReplayStatus) => void;
 }
 
 // ---- Socket Data ----
@@ -51,17 +84,28 @@ interface SocketData {
   username: string;
   matchId: MatchId | null;
   inQueue: boolean;
+  encoding: WireEncoding;
 }
 
 export class SocketHandler {
   private io: Server<ClientToServerEvents, ServerToClientEvents, {}, SocketData>;
   private gameManager: GameManager;
   private lobbyManager: LobbyManager;
+  private sessionTokens: SessionTokens = new SessionTokens();
 
   // Map socket IDs to player IDs for reverse lookups
   private socketToPlayer: Map<string, PlayerId> = new Map();
   private playerToSocket: Map<PlayerId, string> = new Map();
 
+  // Per-connection game state diffing, keyed by socket ID
+  private stateEncoders: Map<string, StateEncoder> = new Map();
+
+  // Binary wire codecs for sockets that negotiated them, keyed by socket ID
+  private binaryCodecs: Map<string, BinaryCodec> = new Map();
+
+  // Replay viewers, keyed by socket ID
+  private replaySessions: Map<string, ReplaySession> = new Map();
+
   constructor(httpServer: HttpServer) {
     // Initialize Socket.IO
     this.io = new Server<ClientToServerEvents, ServerToClientEvents, {}, SocketData>(httpServer, {
@@ -85,8 +129,10 @@ export class SocketHandler {
 
     // Initialize LobbyManager
     const lobbyManagerCallbacks: LobbyManagerCallbacks = {
-      onMatchReady: (players, lobbyId) => this.handleMatchReady(players, lobbyId),
+      onMatchReady: (players, lobbyId, settings) => this.handleMatchReady(players, lobbyId, settings),
       onLobbyUpdate: (socketIds, state) => this.broadcastLobbyUpdate(socketIds, state),
+      onPrivateLobbyUpdate: (socketIds, state) => this.broadcastPrivateLobbyUpdate(socketIds, state),
+      onPrivateLobbyKicked: (socketId) => this.io.sockets.sockets.get(socketId)?.emit('private_lobby_kicked'),
     };
     this.lobbyManager = new LobbyManager(lobbyManagerCallbacks);
 
@@ -115,6 +161,12 @@ export class SocketHandler {
       socket.data.matchId = null;
       socket.data.inQueue = false;
 
+      // Wire encoding is chosen once per connection; JSON is the fallback
+      socket.data.encoding = socket.handshake.auth?.encoding === 'binary' ? 'binary' : 'json';
+      if (socket.data.encoding === 'binary') {
+        this.binaryCodecs.set(socket.id, new BinaryCodec());
+      }
+
       // ---- Join Queue ----
       socket.on('join_queue', (data) => {
         this.handleJoinQueue(socket, data);
@@ -125,6 +177,39 @@ export class SocketHandler {
         this.handleLeaveQueue(socket);
       });
 
+      // ---- Private Lobbies ----
+      socket.on('create_private_lobby', (data) => {
+        this.handleCreatePrivateLobby(socket, data);
+      });
+
+      socket.on('join_private_lobby', (data) => {
+        this.handleJoinPrivateLobby(socket, data);
+      });
+
+      socket.on('leave_private_lobby', () => {
+        if (socket.data.playerId) this.lobbyManager.leavePrivateLobby(socket.data.playerId);
+      });
+
+      socket.on('private_lobby_kick', (data) => {
+        if (!socket.data.playerId || typeof data?.playerId !== 'string') return;
+        this.emitLobbyError(socket, this.lobbyManager.kickFromPrivateLobby(socket.data.playerId, data.playerId));
+      });
+
+      socket.on('private_lobby_settings', (data) => {
+        if (!socket.data.playerId || !data) return;
+        this.emitLobbyError(socket, this.lobbyManager.updatePrivateLobbySettings(socket.data.playerId, data));
+      });
+
+      socket.on('private_lobby_start', () => {
+        if (!socket.data.playerId) return;
+        this.emitLobbyError(socket, this.lobbyManager.startPrivateLobby(socket.data.playerId));
+      });
+
+      // ---- Resume Session ----
+      socket.on('resume_session', (data) => {
+        this.handleResumeSession(socket, data);
+      });
+
       // ---- Game Command ----
       socket.on('game_command', (data) => {
         this.handleGameCommand(socket, data);
@@ -135,6 +220,16 @@ export class SocketHandler {
         this.handleRequestMap(socket);
       });
 
+      // ---- State Acknowledgement ----
+      socket.on('state_ack', (data) => {
+        if (typeof data?.tick !== 'number') return;
+        this.stateEncoders.get(socket.id)?.acknowledge(data.tick);
+      });
+
+      socket.on('request_keyframe', () => {
+        this.stateEncoders.get(socket.id)?.requestKeyframe();
+      });
+
       // ---- Ping ----
       socket.on('ping', (callback) => {
         if (typeof callback === 'function') {
@@ -142,6 +237,23 @@ export class SocketHandler {
         }
       });
 
+      // ---- Replays ----
+      socket.on('list_replays', () => {
+        socket.emit('replay_list', this.gameManager.getReplayStore().list());
+      });
+
+      socket.on('open_replay', (data) => {
+        this.handleOpenReplay(socket, data);
+      });
+
+      socket.on('replay_control', (data) => {
+        this.handleReplayControl(socket, data);
+      });
+
+      socket.on('close_replay', () => {
+        this.closeReplay(socket.id);
+      });
+
       // ---- Disconnect ----
       socket.on('disconnect', (reason) => {
         this.handleDisconnect(socket, reason);
@@ -160,19 +272,8 @@ export class SocketHandler {
 
   private handleJoinQueue(socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>, data: { username: string }): void {
     try {
-      const { username } = data;
-
-      // Validate username
-      if (!username || typeof username !== 'string') {
-        socket.emit('error', { message: 'Username is required', code: 'INVALID_USERNAME' });
-        return;
-      }
-
-      const trimmedUsername = username.trim().substring(0, 20);
-      if (trimmedUsername.length < 1) {
-        socket.emit('error', { message: 'Username must be at least 1 character', code: 'INVALID_USERNAME' });
-        return;
-      }
+      const trimmedUsername = this.validateUsername(socket, data?.username);
+      if (!trimmedUsername) return;
 
       // Check if player is already in a match
       const existingPlayerId = this.socketToPlayer.get(socket.id);
@@ -183,20 +284,22 @@ export class SocketHandler {
           socket.data.playerId = existingPlayerId;
           socket.data.matchId = matchId;
           socket.join(`match:${matchId}`);
-          socket.emit('match_starting', { matchId, playerId: existingPlayerId });
+          socket.emit('match_starting', {
+            matchId,
+            playerId: existingPlayerId,
+            sessionToken: this.sessionTokens.issue(existingPlayerId, socket.data.username || trimmedUsername),
+          });
           return;
         }
       }
 
-      // Generate new player ID
-      const playerId = existingPlayerId || uuidv4();
-      socket.data.playerId = playerId;
-      socket.data.username = trimmedUsername;
-      socket.data.inQueue = true;
+      if (existingPlayerId && this.lobbyManager.isPlayerInPrivateLobby(existingPlayerId)) {
+        socket.emit('error', { message: 'Leave your private lobby first', code: 'LOBBY_ERROR' });
+        return;
+      }
 
-      // Register socket mapping
-      this.socketToPlayer.set(socket.id, playerId);
-      this.playerToSocket.set(playerId, socket.id);
+      const playerId = this.registerPlayer(socket, trimmedUsername);
+      socket.data.inQueue = true;
 
       // Join the queue
       const lobbyState = this.lobbyManager.joinQueue(playerId, trimmedUsername, socket.id);
@@ -209,6 +312,7 @@ export class SocketHandler {
           maxPlayers: MATCH_CONFIG.MAX_PLAYERS,
           timeUntilStart: MATCH_CONFIG.QUEUE_WAIT_TIME,
         },
+        sessionToken: this.sessionTokens.issue(playerId, trimmedUsername),
       });
 
       console.log(`[SocketHandler] ${trimmedUsername} (${playerId}) joined queue via socket ${socket.id}`);
@@ -218,6 +322,55 @@ export class SocketHandler {
     }
   }
 
+  private handleCreatePrivateLobby(
+    socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>,
+    data: { username: string }
+  ): void {
+    try {
+      const username = this.validateUsername(socket, data?.username);
+      if (!username || !this.checkLobbyAvailable(socket)) return;
+
+      const playerId = this.registerPlayer(socket, username);
+      const error = this.lobbyManager.createPrivateLobby(playerId, username, socket.id);
+      if (error) {
+        this.emitLobbyError(socket, error);
+        return;
+      }
+
+      this.emitPrivateLobbyJoined(socket, playerId, username);
+    } catch (err) {
+      console.error('[SocketHandler] Error in handleCreatePrivateLobby:', err);
+      socket.emit('error', { message: 'Failed to create lobby', code: 'LOBBY_ERROR' });
+    }
+  }
+
+  private handleJoinPrivateLobby(
+    socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>,
+    data: { username: string; code: string }
+  ): void {
+    try {
+      const username = this.validateUsername(socket, data?.username);
+      if (!username || !this.checkLobbyAvailable(socket)) return;
+
+      if (typeof data.code !== 'string' || data.code.length > 16) {
+        this.emitLobbyError(socket, 'Invalid invite code');
+        return;
+      }
+
+      const playerId = this.registerPlayer(socket, username);
+      const error = this.lobbyManager.joinPrivateLobby(data.code, playerId, username, socket.id);
+      if (error) {
+        this.emitLobbyError(socket, error);
+        return;
+      }
+
+      this.emitPrivateLobbyJoined(socket, playerId, username);
+    } catch (err) {
+      console.error('[SocketHandler] Error in handleJoinPrivateLobby:', err);
+      socket.emit('error', { message: 'Failed to join lobby', code: 'LOBBY_ERROR' });
+    }
+  }
+
   private handleLeaveQueue(socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>): void {
     try {
       const playerId = socket.data.playerId;
@@ -232,9 +385,75 @@ export class SocketHandler {
     }
   }
 
+  /**
+   * Rebind a player to a new socket from a session token, e.g. after a page
+   * refresh. If their match is still running they take back control and get
+   * the map, phase and a full state.
+   */
+  private handleResumeSession(
+    socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>,
+    data: { token: string }
+  ): void {
+    try {
+      const claims = this.sessionTokens.verify(data?.token);
+      if (!claims) {
+        socket.emit('error', { message: 'Session expired', code: 'SESSION_INVALID' });
+        return;
+      }
+
+      const { playerId, username } = claims;
+
+      // A still-open socket for this player (another tab) loses the session
+      const previousSocketId = this.playerToSocket.get(playerId);
+      if (previousSocketId && previousSocketId !== socket.id) {
+        this.socketToPlayer.delete(previousSocketId);
+        this.playerToSocket.set(playerId, socket.id);
+        this.io.sockets.sockets.get(previousSocketId)?.disconnect(true);
+      }
+
+      socket.data.playerId = playerId;
+      socket.data.username = username;
+      this.socketToPlayer.set(socket.id, playerId);
+      this.playerToSocket.set(playerId, socket.id);
+
+      const sessionToken = this.sessionTokens.issue(playerId, username);
+      const matchId = this.gameManager.handlePlayerReconnect(playerId);
+      const match = this.gameManager.getPlayerMatch(playerId);
+      if (!matchId || !match) {
+        // A queue or private lobby spot moves to this socket with the player
+        const keptLobbySpot = this.lobbyManager.rebindSocket(playerId, socket.id);
+        socket.emit('session_resumed', { playerId, username, matchId: null, keptLobbySpot, sessionToken });
+
+        if (keptLobbySpot) {
+          if (this.lobbyManager.isPlayerInPrivateLobby(playerId)) {
+            this.emitPrivateLobbyJoined(socket, playerId, username);
+          } else {
+            socket.data.inQueue = true;
+            socket.emit('queue_joined', { playerId, lobbyState: this.lobbyManager.getLobbyState(), sessionToken });
+          }
+        }
+        return;
+      }
+
+      socket.data.matchId = matchId;
+      socket.data.inQueue = false;
+      socket.join(`match:${matchId}`);
+      this.stateEncoders.delete(socket.id);
+
+      socket.emit('session_resumed', { playerId, username, matchId, keptLobbySpot: false, sessionToken });
+      socket.emit('map_data', match.getFullMapForSpawn());
+      socket.emit('phase_change', { matchId, phase: match.getPhase(), data: match.getPhaseData() });
+      this.sendGameState(playerId, match.getSnapshot(playerId));
+
+      console.log(`[SocketHandler] ${username} (${playerId}) resumed match ${matchId} via socket ${socket.id}`);
+    } catch (err) {
+      console.error('[SocketHandler] Error in handleResumeSession:', err);
+    }
+  }
+
   private handleGameCommand(
     socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>,
-    data: { command: GameCommand }
+    data: { command: GameCommand } | Uint8Array
   ): void {
     try {
       const playerId = socket.data.playerId;
@@ -243,7 +462,7 @@ export class SocketHandler {
         return;
       }
 
-      const { command } = data;
+      const command = this.decodeIncoming(socket, data)?.command;
       if (!command || !command.type) {
         socket.emit('error', { message: 'Invalid command', code: 'INVALID_COMMAND' });
         return;
@@ -290,10 +509,20 @@ export class SocketHandler {
       const playerId = socket.data.playerId;
       console.log(`[SocketHandler] Client disconnected: ${socket.id} (${playerId || 'unknown'}), reason: ${reason}`);
 
+      this.closeReplay(socket.id);
+      this.stateEncoders.delete(socket.id);
+      this.binaryCodecs.delete(socket.id);
+
       if (!playerId) return;
 
-      // Remove from queue if in queue
-      if (socket.data.inQueue) {
+      // The player already resumed on another socket, which keeps their place
+      if (this.playerToSocket.get(playerId) !== socket.id) {
+        this.socketToPlayer.delete(socket.id);
+        return;
+      }
+
+      // Remove from queue or private lobby
+      if (socket.data.inQueue || this.lobbyManager.isPlayerInPrivateLobby(playerId)) {
         this.lobbyManager.handleDisconnect(socket.id);
       }
 
@@ -316,23 +545,111 @@ export class SocketHandler {
     }
   }
 
+  // ============================================================
+  // Replay Viewing
+  // ============================================================
+
+  private async handleOpenReplay(
+    socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>,
+    data: { matchId: MatchId }
+  ): Promise<void> {
+    try {
+      if (socket.data.playerId && this.gameManager.isPlayerInMatch(socket.data.playerId)) {
+        socket.emit('error', { message: 'Cannot watch replays during a match', code: 'IN_MATCH' });
+        return;
+      }
+
+      const replay = await this.gameManager.getReplayStore().load(data?.matchId);
+      if (!replay) {
+        socket.emit('error', { message: 'Replay not found', code: 'REPLAY_NOT_FOUND' });
+        return;
+      }
+
+      // The socket may have gone away while the file was loading
+      if (!socket.connected) return;
+
+      this.closeReplay(socket.id);
+
+      const session = new ReplaySession(replay, {
+        onMapData: (mapData) => socket.emit('map_data', mapData),
+        onState: (status, snapshot, full) => socket.emit('replay_state', { status, snapshot, full }),
+        onStatus: (status) => socket.emit('replay_status', status),
+      });
+      this.replaySessions.set(socket.id, session);
+
+      socket.emit('replay_opened', {
+        status: session.getStatus(),
+        roster: replay.roster,
+        result: replay.result,
+      });
+      session.start();
+
+      console.log(`[SocketHandler] Socket ${socket.id} opened replay ${replay.matchId}`);
+    } catch (err) {
+      console.error('[SocketHandler] Error in handleOpenReplay:', err);
+      socket.emit('error', { message: 'Failed to open replay', code: 'REPLAY_ERROR' });
+    }
+  }
+
+  private handleReplayControl(
+    socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>,
+    data: ReplayControl
+  ): void {
+    try {
+      const session = this.replaySessions.get(socket.id);
+      if (!session || !data) return;
+
+      switch (data.action) {
+        case 'play':
+          session.play();
+          break;
+        case 'pause':
+          session.pause();
+          break;
+        case 'seek':
+          session.seek(Number(data.tick));
+          break;
+        case 'speed':
+          session.setSpeed(Number(data.speed));
+          break;
+        case 'perspective':
+          session.setPerspective(data.perspective ?? null);
+          break;
+      }
+    } catch (err) {
+      console.error('[SocketHandler] Error in handleReplayControl:', err);
+    }
+  }
+
+  private closeReplay(socketId: string): void {
+    const session = this.replaySessions.get(socketId);
+    if (!session) return;
+
+    session.destroy();
+    this.replaySessions.delete(socketId);
+  }
+
   // ============================================================
   // Lobby → Match Transition
   // ============================================================
 
   private handleMatchReady(
-    players: Array<{ id: PlayerId; username: string; socketId: string }>,
-    lobbyId: string
+    players: Array<{ id: PlayerId; username: string; socketId: string; team?: number | null }>,
+    lobbyId: string,
+    settings?: PrivateLobbySettings
   ): void {
     try {
       console.log(`[SocketHandler] Match ready from lobby ${lobbyId} with ${players.length} players`);
 
-      // Create the match
-      const matchId = this.gameManager.createMatch(
-        players.map(p => ({ id: p.id, username: p.username })),
-        true, // fill with bots
-        MATCH_CONFIG.MAX_PLAYERS
-      );
+      // Public lobbies fill up with bots; private lobbies get what the host picked
+      const humans = players.map(p => ({ id: p.id, username: p.username, team: p.team }));
+      const matchId = settings
+        ? this.gameManager.createMatch(humans, settings.botCount > 0, players.length + settings.botCount, {
+            botDifficulty: settings.botDifficulty,
+            rules: getPresetRules(settings.rulePreset),
+            teamMode: settings.teamMode,
+          })
+        : this.gameManager.createMatch(humans, true, MATCH_CONFIG.MAX_PLAYERS);
 
       // Notify all human players
       for (const player of players) {
@@ -340,6 +657,7 @@ export class SocketHandler {
         const socket = this.io.sockets.sockets.get(socketId);
 
         if (socket) {
+          this.stateEncoders.delete(socket.id);
           socket.data.matchId = matchId;
           socket.data.inQueue = false;
           socket.join(`match:${matchId}`);
@@ -347,6 +665,7 @@ export class SocketHandler {
           socket.emit('match_starting', {
             matchId,
             playerId: player.id,
+            sessionToken: this.sessionTokens.issue(player.id, player.username),
           });
         }
       }
@@ -358,6 +677,87 @@ export class SocketHandler {
     }
   }
 
+  // ============================================================
+  // Player Registration
+  // ============================================================
+
+  /**
+   * Returns the trimmed username, or null after telling the client why not.
+   */
+  private validateUsername(
+    socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>,
+    username: unknown
+  ): string | null {
+    if (!username || typeof username !== 'string') {
+      socket.emit('error', { message: 'Username is required', code: 'INVALID_USERNAME' });
+      return null;
+    }
+
+    const trimmedUsername = username.trim().substring(0, 20);
+    if (trimmedUsername.length < 1) {
+      socket.emit('error', { message: 'Username must be at least 1 character', code: 'INVALID_USERNAME' });
+      return null;
+    }
+
+    return trimmedUsername;
+  }
+
+  /**
+   * Bind this socket to a player ID, keeping the existing one if it has one.
+   */
+  private registerPlayer(
+    socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>,
+    username: string
+  ): PlayerId {
+    const playerId = this.socketToPlayer.get(socket.id) || uuidv4();
+    socket.data.playerId = playerId;
+    socket.data.username = username;
+
+    this.socketToPlayer.set(socket.id, playerId);
+    this.playerToSocket.set(playerId, socket.id);
+    return playerId;
+  }
+
+  /**
+   * Players can only wait in one place: a match, the queue or a private lobby.
+   */
+  private checkLobbyAvailable(socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>): boolean {
+    const playerId = socket.data.playerId;
+    if (playerId && this.gameManager.isPlayerInMatch(playerId)) {
+      this.emitLobbyError(socket, 'Already in a match');
+      return false;
+    }
+    if (socket.data.inQueue) {
+      this.emitLobbyError(socket, 'Leave the queue first');
+      return false;
+    }
+    return true;
+  }
+
+  private emitPrivateLobbyJoined(
+    socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>,
+    playerId: PlayerId,
+    username: string
+  ): void {
+    const lobby = this.lobbyManager.getPrivateLobbyState(playerId);
+    if (!lobby) return;
+
+    socket.emit('private_lobby_joined', {
+      playerId,
+      lobby,
+      sessionToken: this.sessionTokens.issue(playerId, username),
+    });
+
+    console.log(`[SocketHandler] ${username} (${playerId}) is in private lobby ${lobby.code}`);
+  }
+
+  private emitLobbyError(
+    socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>,
+    message: string | null
+  ): void {
+    if (message) socket.emit('error', { message, code: 'LOBBY_ERROR' });
+  }
+
   // ============================================================
   // Game State Broadcasting
   // ============================================================
@@ -369,7 +769,38 @@ export class SocketHandler {
     const socket = this.io.sockets.sockets.get(socketId);
     if (!socket) return;
 
-    socket.emit('game_state', snapshot);
+    let encoder = this.stateEncoders.get(socketId);
+    if (!encoder) {
+      encoder = new StateEncoder();
+      this.stateEncoders.set(socketId, encoder);
+    }
+
+    const delta = encoder.encode(snapshot);
+    const codec = this.binaryCodecs.get(socketId);
+    socket.emit('game_state', codec ? codec.encode(delta) : delta);
+  }
+
+  /**
+   * Unpack a message that may arrive binary-encoded. Returns null if it
+   * can't be decoded.
+   */
+  private decodeIncoming<T>(
+    socket: Socket<ClientToServerEvents, ServerToClientEvents, {}, SocketData>,
+    data: T | Uint8Array
+  ): T | null {
+    if (!(data instanceof Uint8Array)) return data ?? null;
+
+    const codec = this.binaryCodecs.get(socket.id);
+    if (!codec) return null;
+
+    try {
+      return codec.decode(data) as T;
+    } catch (err) {
+      // The intern tables can't be trusted after a bad message
+      console.error(`[SocketHandler] Undecodable binary message from ${socket.id}:`, err);
+      socket.disconnect(true);
+      return null;
+    }
   }
 
   private handlePhaseChange(matchId: MatchId, phase: MatchPhase, data?: any): void {
@@ -415,6 +846,12 @@ export class SocketHandler {
     }
   }
 
+  private broadcastPrivateLobbyUpdate(socketIds: string[], state: PrivateLobbyState): void {
+    for (const socketId of socketIds) {
+      this.io.sockets.sockets.get(socketId)?.emit('private_lobby_update', state);
+    }
+  }
+
   // ============================================================
   // Server Info Broadcasting
   // ============================================================
@@ -465,6 +902,13 @@ export class SocketHandler {
     this.lobbyManager.shutdown();
     this.gameManager.shutdown();
 
+    for (const [, session] of this.replaySessions) {
+      session.destroy();
+    }
+    this.replaySessions.clear();
+    this.stateEncoders.clear();
+    this.binaryCodecs.clear();
+
     // Close all connections
     this.io.disconnectSockets(true);
     await new Promise<void>((resolve) => {
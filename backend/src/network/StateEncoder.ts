@@ -0,0 +1,276 @@
+// ============================================================
+// Fractured Crowns — State Encoder
+// Turns per-tick snapshots into per-player deltas against the
+// state the client last acknowledged
+// ============================================================
+
+import {
+  PlayerId,
+  SquadId,
+  GameStateSnapshot,
+  GameStateDelta,
+  VisibleTile,
+  SquadSnapshot,
+  PlayerPublicInfo,
+  tileKey,
+} from '../types/game';
+
+// Send a full keyframe at least this often (ticks)
+const KEYFRAME_INTERVAL = 150;
+
+// Unacknowledged frames allowed before falling back to a keyframe
+const MAX_PENDING_FRAMES = 45;
+
+interface SentFrame {
+  tick: number;
+  tiles: Map<string, string>;
+  squads: Map<SquadId, string | null>; // null = removed
+  players: Map<PlayerId, string>;
+}
+
+export class StateEncoder {
+  // What the client is known to hold, as of `ackedTick`
+  private ackedTick: number = -1;
+  private ackedTiles: Map<string, string> = new Map();
+  private ackedSquads: Map<SquadId, string> = new Map();
+  private ackedPlayers: Map<PlayerId, string> = new Map();
+
+  // Frames sent but not yet acknowledged, oldest first
+  private pending: SentFrame[] = [];
+
+  private lastTick: number = -1;
+  private lastKeyframeTick: number = -1;
+  private keyframeRequested: boolean = true;
+
+  /**
+   * Build the patch to send for this snapshot and remember what was sent.
+   */
+  encode(snapshot: GameStateSnapshot): GameStateDelta {
+    // Tick went backwards — this is a new match on the same connection
+    if (snapshot.tick < this.lastTick) {
+      this.reset();
+    }
+    this.lastTick = snapshot.tick;
+
+    if (
+      this.keyframeRequested ||
+      snapshot.tick - this.lastKeyframeTick >= KEYFRAME_INTERVAL ||
+      this.pending.length >= MAX_PENDING_FRAMES
+    ) {
+      return this.encodeKeyframe(snapshot);
+    }
+
+    return this.encodeDelta(snapshot);
+  }
+
+  /**
+   * The client has applied every frame up to and including `tick`.
+   */
+  acknowledge(tick: number): void {
+    if (!Number.isFinite(tick) || tick <= this.ackedTick) return;
+
+    while (this.pending.length > 0 && this.pending[0].tick <= tick) {
+      const frame = this.pending.shift()!;
+
+      for (const [key, signature] of frame.tiles) {
+        this.ackedTiles.set(key, signature);
+      }
+      for (const [id, signature] of frame.squads) {
+        if (signature === null) {
+          this.ackedSquads.delete(id);
+        } else {
+          this.ackedSquads.set(id, signature);
+        }
+      }
+      for (const [id, signature] of frame.players) {
+        this.ackedPlayers.set(id, signature);
+      }
+
+      this.ackedTick = frame.tick;
+    }
+  }
+
+  /**
+   * Send a keyframe next, e.g. when the client lost track of its state.
+   */
+  requestKeyframe(): void {
+    this.keyframeRequested = true;
+  }
+
+  reset(): void {
+    this.ackedTick = -1;
+    this.ackedTiles.clear();
+    this.ackedSquads.clear();
+    this.ackedPlayers.clear();
+    this.pending = [];
+    this.lastTick = -1;
+    this.lastKeyframeTick = -1;
+    this.keyframeRequested = true;
+  }
+
+  // ============================================================
+  // Encoding
+  // ============================================================
+
+  /**
+   * Keyframes become the new baseline straight away: Socket.IO delivers in
+   * order, so every later delta reaches the client after this one.
+   */
+  private encodeKeyframe(snapshot: GameStateSnapshot): GameStateDelta {
+    this.ackedTiles.clear();
+    this.ackedSquads.clear();
+    this.ackedPlayers.clear();
+    this.pending = [];
+
+    for (const tile of snapshot.visibleTiles) {
+      this.ackedTiles.set(tileKey(tile.x, tile.y), tileSignature(tile));
+    }
+    for (const squad of snapshot.squads) {
+      this.ackedSquads.set(squad.id, squadSignature(squad));
+    }
+    for (const player of snapshot.players) {
+      this.ackedPlayers.set(player.id, playerSignature(player));
+    }
+
+    this.ackedTick = snapshot.tick;
+    this.lastKeyframeTick = snapshot.tick;
+    this.keyframeRequested = false;
+
+    return {
+      tick: snapshot.tick,
+      baseTick: snapshot.tick,
+      keyframe: true,
+      phase: snapshot.phase,
+      timeRemaining: snapshot.timeRemaining,
+      myGold: snapshot.myGold,
+      myGoldPerSecond: snapshot.myGoldPerSecond,
+      myResearch: snapshot.myResearch,
+      myDiplomacy: snapshot.myDiplomacy,
+      myRepairs: snapshot.myRepairs,
+      myDepots: snapshot.myDepots,
+      myTraining: snapshot.myTraining,
+      tiles: snapshot.visibleTiles,
+      squads: snapshot.squads,
+      removedSquadIds: [],
+      players: snapshot.players,
+      events: snapshot.events,
+    };
+  }
+
+  /**
+   * Diff against the acknowledged baseline. Anything touched by a frame
+   * still in flight is sent again, so the patch is correct no matter how
+   * many of those frames the client has already applied.
+   */
+  private encodeDelta(snapshot: GameStateSnapshot): GameStateDelta {
+    const inFlightTiles = new Set<string>();
+    const inFlightSquads = new Set<SquadId>();
+    const inFlightPlayers = new Set<PlayerId>();
+    for (const frame of this.pending) {
+      for (const key of frame.tiles.keys()) inFlightTiles.add(key);
+      for (const id of frame.squads.keys()) inFlightSquads.add(id);
+      for (const id of frame.players.keys()) inFlightPlayers.add(id);
+    }
+
+    const frame: SentFrame = {
+      tick: snapshot.tick,
+      tiles: new Map(),
+      squads: new Map(),
+      players: new Map(),
+    };
+
+    const tiles: VisibleTile[] = [];
+    for (const tile of snapshot.visibleTiles) {
+      const key = tileKey(tile.x, tile.y);
+      const signature = tileSignature(tile);
+      if (this.ackedTiles.get(key) === signature && !inFlightTiles.has(key)) continue;
+      frame.tiles.set(key, signature);
+      tiles.push(tile);
+    }
+
+    const squads: SquadSnapshot[] = [];
+    const present = new Set<SquadId>();
+    for (const squad of snapshot.squads) {
+      present.add(squad.id);
+      const signature = squadSignature(squad);
+      if (this.ackedSquads.get(squad.id) === signature && !inFlightSquads.has(squad.id)) continue;
+      frame.squads.set(squad.id, signature);
+      squads.push(squad);
+    }
+
+    const removedSquadIds: SquadId[] = [];
+    const removeIfGone = (id: SquadId) => {
+      if (present.has(id) || frame.squads.has(id)) return;
+      frame.squads.set(id, null);
+      removedSquadIds.push(id);
+    };
+    for (const id of this.ackedSquads.keys()) removeIfGone(id);
+    for (const id of inFlightSquads) removeIfGone(id);
+
+    const players: PlayerPublicInfo[] = [];
+    for (const player of snapshot.players) {
+      const signature = playerSignature(player);
+      if (this.ackedPlayers.get(player.id) === signature && !inFlightPlayers.has(player.id)) continue;
+      frame.players.set(player.id, signature);
+      players.push(player);
+    }
+
+    this.pending.push(frame);
+
+    return {
+      tick: snapshot.tick,
+      baseTick: this.ackedTick,
+      keyframe: false,
+      phase: snapshot.phase,
+      timeRemaining: snapshot.timeRemaining,
+      myGold: snapshot.myGold,
+      myGoldPerSecond: snapshot.myGoldPerSecond,
+      myResearch: snapshot.myResearch,
+      myDiplomacy: snapshot.myDiplomacy,
+      myRepairs: snapshot.myRepairs,
+      myDepots: snapshot.myDepots,
+      myTraining: snapshot.myTraining,
+      tiles,
+      squads,
+      removedSquadIds,
+      players,
+      events: snapshot.events,
+    };
+  }
+}
+
+// ============================================================
+// Signatures — cheap change detection for each entity
+// ============================================================
+
+function tileSignature(tile: VisibleTile): string {
+  // Whole-number precision is plenty for HP and capture bars
+  return (
+    `${tile.ownerId}|${tile.structureType}|${Math.round(tile.structureHp)}|` +
+    `${Math.round(tile.captureProgress)}|${tile.capturingPlayerId}|${Math.round(tile.constructionProgress * 100)}`
+  );
+}
+
+function squadSignature(squad: SquadSnapshot): string {
+  let composition = '';
+  for (const type in squad.composition) {
+    const ranks = squad.ranks[type as keyof typeof squad.ranks];
+    composition += `${type}:${squad.composition[type as keyof typeof squad.composition]}/${ranks?.join('.')},`;
+  }
+  let waypoints = '';
+  for (const w of squad.waypoints) {
+    waypoints += `${w.order}@${w.x},${w.y};`;
+  }
+  return (
+    `${squad.x}|${squad.y}|${squad.targetX}|${squad.targetY}|` +
+    `${squad.unitCount}|${squad.totalHp}|${squad.maxHp}|${composition}|${squad.stance}|${squad.order}|${waypoints}|` +
+    `${squad.supply}|${squad.unsuppliedFor}`
+  );
+}
+
+function playerSignature(player: PlayerPublicInfo): string {
+  return (
+    `${player.alive}|${player.isBot}|${player.score}|${player.territoryCount}|${player.color}|${player.username}|` +
+    `${player.allies.join(',')}|${player.nonAggression.join(',')}`
+  );
+}
@@ -0,0 +1,111 @@
+// ============================================================
+// Fractured Crowns — Replay Recorder
+// Captures everything needed to re-simulate a match: seed,
+// roster, tick timing and the player command stream
+// ============================================================
+
+import {
+  MatchId,
+  PlayerId,
+  BotDifficulty,
+  MatchRules,
+  TeamMode,
+  Player,
+  GameCommand,
+  MatchResult,
+  ReplayData,
+  ReplayRosterEntry,
+  ReplayCommand,
+  ReplayControlEvent,
+} from '../types/game';
+
+export const REPLAY_VERSION = 1;
+
+export class ReplayRecorder {
+  private roster: ReplayRosterEntry[] = [];
+  private rosterIndex: Map<PlayerId, number> = new Map();
+  private startTime: number = 0;
+  private tickDeltas: Array<[number, number]> = [];
+  private commands: ReplayCommand[] = [];
+  private controls: ReplayControlEvent[] = [];
+  private totalTicks: number = 0;
+
+  constructor(
+    private readonly matchId: MatchId,
+    private readonly seed: number,
+    private readonly botDifficulty: BotDifficulty,
+    private readonly rules: MatchRules,
+    private readonly teamMode: TeamMode
+  ) {}
+
+  /**
+   * Snapshot the roster at match start. Order matters: re-simulation adds
+   * players back in the same order so bot IDs and colors line up.
+   */
+  begin(players: Player[], startTime: number): void {
+    this.startTime = startTime;
+    this.roster = players.map(p => ({
+      id: p.id,
+      username: p.username,
+      isBot: p.isBot,
+      color: p.color,
+      team: p.team,
+    }));
+    this.rosterIndex.clear();
+    this.roster.forEach((entry, i) => this.rosterIndex.set(entry.id, i));
+  }
+
+  /**
+   * Record the clock delta that fed a tick. Consecutive equal deltas are
+   * run-length encoded, which keeps steady 15 Hz matches tiny.
+   */
+  recordTick(deltaMs: number): void {
+    this.totalTicks++;
+    const last = this.tickDeltas[this.tickDeltas.length - 1];
+    if (last && last[0] === deltaMs) {
+      last[1]++;
+    } else {
+      this.tickDeltas.push([deltaMs, 1]);
+    }
+  }
+
+  /**
+   * Record a player-issued command, keyed by the tick it was queued on.
+   */
+  recordCommand(tick: number, playerId: PlayerId, command: GameCommand): void {
+    const index = this.rosterIndex.get(playerId);
+    if (index === undefined) return;
+    this.commands.push([tick, index, command]);
+  }
+
+  /**
+   * Record a player being handed to or taken back from the bot AI.
+   */
+  recordControl(tick: number, playerId: PlayerId, change: 'disconnect' | 'reconnect'): void {
+    const index = this.rosterIndex.get(playerId);
+    if (index === undefined) return;
+    this.controls.push([tick, index, change]);
+  }
+
+  /**
+   * Produce the final replay once the match has ended.
+   */
+  finish(result: MatchResult, recordedAt: number): ReplayData {
+    return {
+      version: REPLAY_VERSION,
+      matchId: this.matchId,
+      seed: this.seed,
+      recordedAt,
+      startTime: this.startTime,
+      roster: this.roster,
+      tickDeltas: this.tickDeltas,
+      commands: this.commands,
+      controls: this.controls,
+      totalTicks: this.totalTicks,
+      result,
+      botDifficulty: this.botDifficulty,
+      rules: this.rules,
+      teamMode: this.teamMode,
+    };
+  }
+}
@@ -0,0 +1,311 @@
+// ============================================================
+// Fractured Crowns — Replay Session
+// Re-simulates a recorded match for one viewer, with playback
+// controls, scrubbing and switchable perspective
+// ============================================================
+
+import {
+  PlayerId,
+  GameStateSnapshot,
+  VisibleTile,
+  ReplayData,
+  ReplayStatus,
+  MATCH_CONFIG,
+  tileKey,
+} from '../types/game';
+import { Match, MatchCallbacks } from '../game/Match';
+import { ManualClock } from '../game/Clock';
+
+// Ticks simulated per frame while seeking — keeps the event loop responsive
+const SEEK_STEPS_PER_FRAME = 250;
+
+export interface ReplaySessionCallbacks {
+  onMapData: (data: { width: number; height: number; terrain: string[][] }) => void;
+  onState: (status: ReplayStatus, snapshot: GameStateSnapshot, full: boolean) => void;
+  onStatus: (status: ReplayStatus) => void;
+}
+
+export class ReplaySession {
+  private match: Match | null = null;
+  private clock: ManualClock = new ManualClock();
+  private frameInterval: ReturnType<typeof setInterval> | null = null;
+
+  // Playback
+  private playing: boolean = false;
+  private speed: number = 1;
+  private stepBudget: number = 0; // accumulates fractional steps at slow speeds
+  private perspective: PlayerId | null = null;
+  private seekTarget: number | null = null;
+
+  // Input cursors into the recording
+  private deltaIndex: number = 0;
+  private deltaUsed: number = 0;
+  private commandIndex: number = 0;
+  private controlIndex: number = 0;
+
+  // Tiles already sent to the viewer, so frames only carry changes
+  private sentTiles: Map<string, string> = new Map();
+  private needsFullState: boolean = true;
+
+  constructor(
+    private readonly replay: ReplayData,
+    private readonly callbacks: ReplaySessionCallbacks
+  ) {}
+
+  // ============================================================
+  // Lifecycle
+  // ============================================================
+
+  /**
+   * Build the simulation, send the map and start the frame loop (paused).
+   */
+  start(): void {
+    this.rebuild();
+    this.callbacks.onMapData(this.match!.getFullMapForSpawn());
+    this.emitState();
+
+    this.frameInterval = setInterval(() => {
+      try {
+        this.frame();
+      } catch (err) {
+        console.error(`[ReplaySession ${this.replay.matchId}] Frame error:`, err);
+        this.playing = false;
+        this.seekTarget = null;
+      }
+    }, 1000 / MATCH_CONFIG.TICK_RATE);
+  }
+
+  destroy(): void {
+    if (this.frameInterval) {
+      clearInterval(this.frameInterval);
+      this.frameInterval = null;
+    }
+    this.match?.destroy();
+    this.match = null;
+  }
+
+  // ============================================================
+  // Controls
+  // ============================================================
+
+  play(): void {
+    if (this.currentTick() >= this.replay.totalTicks) return;
+    this.playing = true;
+    this.callbacks.onStatus(this.getStatus());
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.stepBudget = 0;
+    this.callbacks.onStatus(this.getStatus());
+  }
+
+  setSpeed(speed: number): void {
+    if (!Number.isFinite(speed) || speed <= 0) return;
+    this.speed = Math.min(speed, 16);
+    this.callbacks.onStatus(this.getStatus());
+  }
+
+  /**
+   * Jump to a tick. Going backwards re-simulates from the start; both
+   * directions run in chunks across frames.
+   */
+  seek(tick: number): void {
+    if (!Number.isFinite(tick)) return;
+    const target = Math.max(0, Math.min(Math.floor(tick), this.replay.totalTicks));
+
+    if (target < this.currentTick()) {
+      this.rebuild();
+    }
+
+    this.seekTarget = target;
+    this.callbacks.onStatus(this.getStatus());
+  }
+
+  /**
+   * View the match through a player's fog of war, or the whole map (null).
+   */
+  setPerspective(playerId: PlayerId | null): void {
+    if (playerId !== null && !this.replay.roster.some(r => r.id === playerId)) return;
+    this.perspective = playerId;
+    this.needsFullState = true;
+    this.emitState();
+  }
+
+  getStatus(): ReplayStatus {
+    return {
+      matchId: this.replay.matchId,
+      tick: this.currentTick(),
+      totalTicks: this.replay.totalTicks,
+      playing: this.playing,
+      speed: this.speed,
+      perspective: this.perspective,
+      seeking: this.seekTarget !== null,
+    };
+  }
+
+  // ============================================================
+  // Simulation
+  // ============================================================
+
+  private rebuild(): void {
+    this.match?.destroy();
+
+    const noop: MatchCallbacks = {
+      onStateUpdate: () => {},
+      onMatchEnd: () => {},
+      onPhaseChange: () => {},
+    };
+
+    this.clock = new ManualClock(this.replay.startTime);
+    const match = new Match(this.replay.matchId, noop, {
+      seed: this.replay.seed,
+      clock: this.clock,
+      autoTick: false,
+      headless: true,
+      botDifficulty: this.replay.botDifficulty,
+      rules: this.replay.rules,
+      teamMode: this.replay.teamMode,
+    });
+
+    // Humans were added before the bots were filled in; bot IDs follow
+    for (const entry of this.replay.roster) {
+      if (!entry.isBot) match.addPlayer(entry.id, entry.username, entry.team);
+    }
+    match.fillWithBots(this.replay.roster.length);
+
+    const ids = Array.from(match.getPlayers().keys());
+    if (ids.some((id, i) => id !== this.replay.roster[i]?.id)) {
+      console.error(`[ReplaySession ${this.replay.matchId}] Roster mismatch — playback may diverge`);
+    }
+
+    match.startMatch();
+    this.match = match;
+
+    this.deltaIndex = 0;
+    this.deltaUsed = 0;
+    this.commandIndex = 0;
+    this.controlIndex = 0;
+    this.stepBudget = 0;
+    this.needsFullState = true;
+
+    this.applyInputs();
+  }
+
+  private frame(): void {
+    if (this.seekTarget !== null) {
+      let steps = 0;
+      while (this.currentTick() < this.seekTarget && steps < SEEK_STEPS_PER_FRAME && this.stepOnce()) {
+        steps++;
+      }
+
+      if (this.currentTick() >= this.seekTarget || steps < SEEK_STEPS_PER_FRAME) {
+        this.seekTarget = null;
+        this.needsFullState = true;
+        this.emitState();
+      }
+      return;
+    }
+
+    if (!this.playing) return;
+
+    this.stepBudget += this.speed;
+    let stepped = false;
+    while (this.stepBudget >= 1) {
+      this.stepBudget -= 1;
+      if (!this.stepOnce()) {
+        this.playing = false;
+        this.stepBudget = 0;
+        break;
+      }
+      stepped = true;
+    }
+
+    if (stepped || !this.playing) {
+      this.emitState();
+    }
+  }
+
+  /**
+   * Advance the simulation one recorded tick. Returns false at the end.
+   */
+  private stepOnce(): boolean {
+    if (!this.match || this.currentTick() >= this.replay.totalTicks) return false;
+
+    const run = this.replay.tickDeltas[this.deltaIndex];
+    if (!run) return false;
+
+    this.deltaUsed++;
+    if (this.deltaUsed >= run[1]) {
+      this.deltaIndex++;
+      this.deltaUsed = 0;
+    }
+
+    this.clock.advance(run[0]);
+    this.match.step();
+    this.applyInputs();
+    return true;
+  }
+
+  /**
+   * Feed the inputs that arrived after the current tick, exactly as the
+   * live match received them.
+   */
+  private applyInputs(): void {
+    if (!this.match) return;
+    const tick = this.match.getTick();
+    const { roster, controls, commands } = this.replay;
+
+    while (this.controlIndex < controls.length && controls[this.controlIndex][0] <= tick) {
+      const [, index, change] = controls[this.controlIndex++];
+      const playerId = roster[index]?.id;
+      if (!playerId) continue;
+
+      if (change === 'disconnect') {
+        this.match.playerDisconnected(playerId);
+      } else {
+        this.match.playerReconnected(playerId);
+      }
+    }
+
+    while (this.commandIndex < commands.length && commands[this.commandIndex][0] <= tick) {
+      const [, index, command] = commands[this.commandIndex++];
+      const playerId = roster[index]?.id;
+      if (playerId) this.match.queueCommand(playerId, command);
+    }
+  }
+
+  private currentTick(): number {
+    return this.match?.getTick() ?? 0;
+  }
+
+  // ============================================================
+  // Output
+  // ============================================================
+
+  private emitState(): void {
+    if (!this.match) return;
+
+    const snapshot = this.match.getSnapshot(this.perspective);
+    const full = this.needsFullState;
+    if (full) {
+      this.sentTiles.clear();
+      this.needsFullState = false;
+    }
+
+    // Only send tiles that changed since the viewer last saw them
+    const changed: VisibleTile[] = [];
+    for (const tile of snapshot.visibleTiles) {
+      const key = tileKey(tile.x, tile.y);
+      const signature =
+        `${tile.ownerId}|${tile.structureType}|${Math.round(tile.structureHp)}|` +
+        `${Math.round(tile.captureProgress)}|${tile.capturingPlayerId}|${Math.round(tile.constructionProgress * 100)}`;
+      if (this.sentTiles.get(key) === signature) continue;
+      this.sentTiles.set(key, signature);
+      changed.push(tile);
+    }
+    snapshot.visibleTiles = changed;
+
+    this.callbacks.onState(this.getStatus(), snapshot, full);
+  }
+}
@@ -0,0 +1,142 @@
+// ============================================================
+// Fractured Crowns — Replay Store
+// Persists finished-match replays as gzipped JSON on disk
+// ============================================================
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { gzip, gunzip } from 'zlib';
+import { promisify } from 'util';
+import { MatchId, ReplayData, ReplaySummary } from '../types/game';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const REPLAY_EXTENSION = '.replay.json.gz';
+const SUMMARY_EXTENSION = '.summary.json';
+const MEMORY_CACHE_SIZE = 8;
+const MAX_LISTED_REPLAYS = 50;
+
+export class ReplayStore {
+  private directory: string;
+  private summaries: Map<MatchId, ReplaySummary> = new Map();
+  private recent: Map<MatchId, ReplayData> = new Map(); // insertion-ordered LRU
+
+  constructor(directory: string = process.env.REPLAY_DIR || path.join(process.cwd(), 'replays')) {
+    this.directory = directory;
+  }
+
+  /**
+   * Create the replay directory and index any replays already on disk.
+   */
+  async init(): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      const files = await fs.readdir(this.directory);
+
+      for (const file of files) {
+        if (!file.endsWith(SUMMARY_EXTENSION)) continue;
+        try {
+          const raw = await fs.readFile(path.join(this.directory, file), 'utf8');
+          const summary = JSON.parse(raw) as ReplaySummary;
+          this.summaries.set(summary.matchId, summary);
+        } catch (err) {
+          console.error(`[ReplayStore] Skipping unreadable summary ${file}:`, err);
+        }
+      }
+
+      console.log(`[ReplayStore] Indexed ${this.summaries.size} replays in ${this.directory}`);
+    } catch (err) {
+      console.error('[ReplayStore] Failed to initialize replay directory:', err);
+    }
+  }
+
+  /**
+   * Store a replay. It is available from memory immediately; the disk write
+   * happens in the background.
+   */
+  async save(replay: ReplayData): Promise<void> {
+    const summary: ReplaySummary = {
+      matchId: replay.matchId,
+      recordedAt: replay.recordedAt,
+      duration: replay.result.duration,
+      totalTicks: replay.totalTicks,
+      roster: replay.roster,
+      winnerId: replay.result.winnerId,
+    };
+
+    this.summaries.set(replay.matchId, summary);
+    this.remember(replay);
+
+    const compressed = await gzipAsync(JSON.stringify(replay));
+    await fs.writeFile(this.replayPath(replay.matchId), compressed);
+    await fs.writeFile(this.summaryPath(replay.matchId), JSON.stringify(summary));
+
+    console.log(
+      `[ReplayStore] Saved replay ${replay.matchId} ` +
+      `(${replay.totalTicks} ticks, ${replay.commands.length} commands, ${compressed.length} bytes)`
+    );
+  }
+
+  /**
+   * Load a replay by match ID, or null if it doesn't exist.
+   */
+  async load(matchId: MatchId): Promise<ReplayData | null> {
+    if (!this.isValidId(matchId)) return null;
+
+    const cached = this.recent.get(matchId);
+    if (cached) return cached;
+
+    try {
+      const compressed = await fs.readFile(this.replayPath(matchId));
+      const replay = JSON.parse((await gunzipAsync(compressed)).toString('utf8')) as ReplayData;
+      this.remember(replay);
+      return replay;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Raw gzipped replay file, for downloads.
+   */
+  async loadCompressed(matchId: MatchId): Promise<Buffer | null> {
+    if (!this.isValidId(matchId)) return null;
+
+    try {
+      return await fs.readFile(this.replayPath(matchId));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Most recent replays first.
+   */
+  list(): ReplaySummary[] {
+    return Array.from(this.summaries.values())
+      .sort((a, b) => b.recordedAt - a.recordedAt)
+      .slice(0, MAX_LISTED_REPLAYS);
+  }
+
+  private remember(replay: ReplayData): void {
+    this.recent.delete(replay.matchId);
+    this.recent.set(replay.matchId, replay);
+    if (this.recent.size > MEMORY_CACHE_SIZE) {
+      const oldest = this.recent.keys().next().value;
+      if (oldest !== undefined) this.recent.delete(oldest);
+    }
+  }
+
+  private isValidId(matchId: MatchId): boolean {
+    return typeof matchId === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(matchId);
+  }
+
+  private replayPath(matchId: MatchId): string {
+    return path.join(this.directory, `${matchId}${REPLAY_EXTENSION}`);
+  }
+
+  private summaryPath(matchId: MatchId): string {
+    return path.join(this.directory, `${matchId}${SUMMARY_EXTENSION}`);
+  }
+}
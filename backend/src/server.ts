@@ -89,10 +89,39 @@ app.get('/api/info', (_req, res) => {
       'Bot AI opponents',
       'Fog of war',
       'WebSocket networking',
+      'Match replays',
     ],
   });
 });
 
+// ---- Replay Routes ----
+
+app.get('/api/replays', (_req, res) => {
+  if (!socketHandler) {
+    res.json({ error: 'Server not ready' });
+    return;
+  }
+
+  res.json(socketHandler.getGameManager().getReplayStore().list());
+});
+
+app.get('/api/replays/:matchId', async (req, res) => {
+  if (!socketHandler) {
+    res.json({ error: 'Server not ready' });
+    return;
+  }
+
+  const file = await socketHandler.getGameManager().getReplayStore().loadCompressed(req.params.matchId);
+  if (!file) {
+    res.status(404).json({ error: 'Replay not found' });
+    return;
+  }
+
+  res.setHeader('Content-Type', 'application/gzip');
+  res.setHeader('Content-Disposition', `attachment; filename="${req.params.matchId}.replay.json.gz"`);
+  res.send(file);
+});
+
 // ---- HTTP Server ----
 
 const httpServer = createServer(app);
@@ -124,6 +153,7 @@ httpServer.listen(PORT, HOST, () => {
   console.log('║  Health:  GET /api/health                             ║');
   console.log('║  Stats:   GET /api/stats                              ║');
   console.log('║  Info:    GET /api/info                               ║');
+  console.log('║  Replays: GET /api/replays                            ║');
   console.log('║                                                      ║');
   console.log('╚══════════════════════════════════════════════════════╝');
   console.log('');
@@ -0,0 +1,344 @@
+// ============================================================
+// Fractured Crowns — Balance Simulator
+// Runs bot-only matches headless on a manual clock, as fast as
+// the CPU allows, and aggregates balance statistics
+// ============================================================
+
+import {
+  PlayerId,
+  MatchPhase,
+  MatchResult,
+  MatchRules,
+  BotDifficulty,
+  TeamMode,
+  UnitType,
+  MATCH_CONFIG,
+} from '../types/game';
+import { Match } from '../game/Match';
+import { ManualClock } from '../game/Clock';
+
+export interface SimulationConfig {
+  matches: number;
+  seed: number; // match i uses seed + i
+  players: number;
+  rules: MatchRules;
+  teamMode: TeamMode;
+  botDifficulty: BotDifficulty;
+  sampleInterval: number; // seconds between income samples
+}
+
+export interface MatchSummary {
+  seed: number;
+  duration: number; // seconds from the end of spawn selection
+  ticks: number;
+  winnerId: PlayerId | null;
+  winnerSpawnRegion: string | null;
+  eliminations: number;
+  wallTimeMs: number;
+}
+
+export interface SpawnRegionStats {
+  spawns: number;
+  wins: number;
+  winRate: number;
+}
+
+export interface IncomeSample {
+  time: number; // seconds from the end of spawn selection
+  matches: number; // matches still running at this point
+  avgGoldPerSecond: number;
+  avgWinnerGoldPerSecond: number;
+  avgTerritory: number;
+}
+
+export interface UnitUsage {
+  fielded: number;
+  share: number;
+}
+
+export interface SimulationReport {
+  config: {
+    matches: number;
+    seed: number;
+    players: number;
+    teamMode: TeamMode;
+    botDifficulty: BotDifficulty;
+    sampleInterval: number;
+    rules: MatchRules;
+  };
+  matches: MatchSummary[];
+  duration: { average: number; min: number; max: number };
+  winRateBySpawn: Record<string, SpawnRegionStats>;
+  incomeCurve: IncomeSample[];
+  unitUsage: Record<UnitType, UnitUsage>;
+  eliminationTimes: { count: number; average: number; median: number; earliest: number; latest: number };
+}
+
+// One match's raw observations, folded into the report afterwards
+interface MatchObservations {
+  summary: MatchSummary;
+  spawnRegions: Map<PlayerId, string>;
+  // income[sample][player] = gold per second
+  income: Array<Map<PlayerId, number>>;
+  territory: Array<Map<PlayerId, number>>;
+  unitsFielded: Record<UnitType, number>;
+  eliminationTimes: number[]; // seconds from the end of spawn selection
+}
+
+const TICK_MS = 1000 / MATCH_CONFIG.TICK_RATE;
+
+export class BalanceSimulator {
+  constructor(private config: SimulationConfig) {}
+
+  /**
+   * Run every match in sequence. `onProgress` fires after each one.
+   */
+  run(onProgress?: (done: number, summary: MatchSummary) => void): SimulationReport {
+    const observations: MatchObservations[] = [];
+
+    for (let i = 0; i < this.config.matches; i++) {
+      const observed = this.runMatch(this.config.seed + i);
+      observations.push(observed);
+      onProgress?.(i + 1, observed.summary);
+    }
+
+    return this.buildReport(observations);
+  }
+
+  // ============================================================
+  // Running
+  // ============================================================
+
+  private runMatch(seed: number): MatchObservations {
+    const startedAt = Date.now();
+    const clock = new ManualClock(0);
+    let result: MatchResult | null = null;
+
+    const match = new Match(`sim-${seed}`, {
+      onStateUpdate: () => {},
+      onMatchEnd: (r) => { result = r; },
+      onPhaseChange: () => {},
+    }, {
+      seed,
+      clock,
+      autoTick: false,
+      headless: true,
+      rules: this.config.rules,
+      teamMode: this.config.teamMode,
+      botDifficulty: this.config.botDifficulty,
+    });
+
+    match.fillWithBots(this.config.players);
+    match.startMatch();
+
+    const spawnRegions = new Map<PlayerId, string>();
+    const income: Array<Map<PlayerId, number>> = [];
+    const territory: Array<Map<PlayerId, number>> = [];
+    const unitsFielded = emptyUnitCounts();
+    const seenUnits = new Set<string>();
+    const eliminationTimes: number[] = [];
+    const alive = new Set<PlayerId>(match.getPlayers().keys());
+
+    const ticksPerSample = Math.max(1, Math.round(this.config.sampleInterval * MATCH_CONFIG.TICK_RATE));
+
+    // Every time in the report counts from when play begins, so durations,
+    // samples and eliminations share one clock whatever spawn selection took
+    let playStartTick = -1;
+    let playStartMs = 0;
+    const elapsed = () => (playStartTick < 0 ? 0 : (clock.now() - playStartMs) / 1000);
+
+    while (match.getPhase() !== MatchPhase.Finished) {
+      clock.advance(TICK_MS);
+      match.step();
+      const tick = match.getTick();
+      if (playStartTick < 0 && match.getPhase() === MatchPhase.Playing) {
+        playStartTick = tick;
+        playStartMs = clock.now();
+      }
+
+      // Unit IDs are unique per match, so first sightings count units fielded
+      for (const squad of match.getSquads().values()) {
+        for (const unit of squad.units) {
+          if (seenUnits.has(unit.id)) continue;
+          seenUnits.add(unit.id);
+          unitsFielded[unit.type]++;
+        }
+      }
+
+      for (const [id, player] of match.getPlayers()) {
+        if (!spawnRegions.has(id) && player.capitalX >= 0) {
+          spawnRegions.set(id, this.spawnRegion(player.capitalX, player.capitalY));
+        }
+        if (alive.has(id) && !player.alive) {
+          alive.delete(id);
+          eliminationTimes.push(elapsed());
+        }
+      }
+
+      if (playStartTick >= 0 && tick > playStartTick && (tick - playStartTick) % ticksPerSample === 0) {
+        const incomeSample = new Map<PlayerId, number>();
+        const territorySample = new Map<PlayerId, number>();
+        for (const [id, player] of match.getPlayers()) {
+          if (!player.alive) continue;
+          incomeSample.set(id, player.goldPerSecond);
+          territorySample.set(id, player.territoryCount);
+        }
+        income.push(incomeSample);
+        territory.push(territorySample);
+      }
+    }
+
+    const final = result as MatchResult | null;
+    const winnerId = final?.winnerId ?? null;
+
+    return {
+      summary: {
+        seed,
+        duration: elapsed(),
+        ticks: match.getTick(),
+        winnerId,
+        winnerSpawnRegion: winnerId ? spawnRegions.get(winnerId) ?? null : null,
+        eliminations: eliminationTimes.length,
+        wallTimeMs: Date.now() - startedAt,
+      },
+      spawnRegions,
+      income,
+      territory,
+      unitsFielded,
+      eliminationTimes,
+    };
+  }
+
+  /**
+   * Coarse position label, comparable across maps: which side of the map
+   * and whether the capital is near the edge or the middle.
+   */
+  private spawnRegion(x: number, y: number): string {
+    const { mapWidth, mapHeight } = this.config.rules;
+    const nx = x / mapWidth - 0.5;
+    const ny = y / mapHeight - 0.5;
+
+    const ring = Math.max(Math.abs(nx), Math.abs(ny)) < 0.25 ? 'inner' : 'outer';
+    const side = (ny < 0 ? 'N' : 'S') + (nx < 0 ? 'W' : 'E');
+    return `${side}-${ring}`;
+  }
+
+  // ============================================================
+  // Aggregation
+  // ============================================================
+
+  private buildReport(observations: MatchObservations[]): SimulationReport {
+    const summaries = observations.map(o => o.summary);
+    const durations = summaries.map(s => s.duration);
+
+    // ---- Win rate by spawn region ----
+    const winRateBySpawn: Record<string, SpawnRegionStats> = {};
+    for (const o of observations) {
+      for (const region of o.spawnRegions.values()) {
+        winRateBySpawn[region] ??= { spawns: 0, wins: 0, winRate: 0 };
+        winRateBySpawn[region].spawns++;
+      }
+      if (o.summary.winnerSpawnRegion) {
+        winRateBySpawn[o.summary.winnerSpawnRegion].wins++;
+      }
+    }
+    for (const stats of Object.values(winRateBySpawn)) {
+      stats.winRate = round(stats.wins / stats.spawns, 3);
+    }
+
+    // ---- Income curve ----
+    const incomeCurve: IncomeSample[] = [];
+    const sampleCount = Math.max(0, ...observations.map(o => o.income.length));
+    for (let i = 0; i < sampleCount; i++) {
+      let running = 0;
+      let incomeSum = 0;
+      let incomeCount = 0;
+      let winnerSum = 0;
+      let winnerCount = 0;
+      let territorySum = 0;
+
+      for (const o of observations) {
+        const income = o.income[i];
+        if (!income) continue;
+        running++;
+        for (const [id, value] of income) {
+          incomeSum += value;
+          incomeCount++;
+          territorySum += o.territory[i].get(id) ?? 0;
+          if (id === o.summary.winnerId) {
+            winnerSum += value;
+            winnerCount++;
+          }
+        }
+      }
+
+      incomeCurve.push({
+        time: (i + 1) * this.config.sampleInterval,
+        matches: running,
+        avgGoldPerSecond: round(incomeCount ? incomeSum / incomeCount : 0, 2),
+        avgWinnerGoldPerSecond: round(winnerCount ? winnerSum / winnerCount : 0, 2),
+        avgTerritory: round(incomeCount ? territorySum / incomeCount : 0, 1),
+      });
+    }
+
+    // ---- Unit usage ----
+    const totals = emptyUnitCounts();
+    for (const o of observations) {
+      for (const type of Object.values(UnitType)) totals[type] += o.unitsFielded[type];
+    }
+    const allUnits = Object.values(totals).reduce((sum, n) => sum + n, 0);
+    const unitUsage = {} as Record<UnitType, UnitUsage>;
+    for (const type of Object.values(UnitType)) {
+      unitUsage[type] = {
+        fielded: totals[type],
+        share: round(allUnits ? totals[type] / allUnits : 0, 3),
+      };
+    }
+
+    // ---- Elimination times ----
+    const eliminations = observations.flatMap(o => o.eliminationTimes).sort((a, b) => a - b);
+
+    return {
+      config: {
+        matches: this.config.matches,
+        seed: this.config.seed,
+        players: this.config.players,
+        teamMode: this.config.teamMode,
+        botDifficulty: this.config.botDifficulty,
+        sampleInterval: this.config.sampleInterval,
+        rules: this.config.rules,
+      },
+      matches: summaries.map(s => ({ ...s, duration: round(s.duration, 1) })),
+      duration: {
+        average: round(average(durations), 1),
+        min: round(Math.min(...durations), 1),
+        max: round(Math.max(...durations), 1),
+      },
+      winRateBySpawn,
+      incomeCurve,
+      unitUsage,
+      eliminationTimes: {
+        count: eliminations.length,
+        average: round(average(eliminations), 1),
+        median: round(eliminations[Math.floor(eliminations.length / 2)] ?? 0, 1),
+        earliest: round(eliminations[0] ?? 0, 1),
+        latest: round(eliminations[eliminations.length - 1] ?? 0, 1),
+      },
+    };
+  }
+}
+
+function emptyUnitCounts(): Record<UnitType, number> {
+  const counts = {} as Record<UnitType, number>;
+  for (const type of Object.values(UnitType)) counts[type] = 0;
+  return counts;
+}
+
+function average(values: number[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -27,6 +27,7 @@ export enum StructureType {
   Tower = 'tower',
   MineUpgrade = 'mine_upgrade',
   Road = 'road',
+  Depot = 'depot',
 }
 
 export enum UnitType {
@@ -37,6 +38,14 @@ export enum UnitType {
   SiegeRam = 'siege_ram',
 }
 
+export enum ArmorType {
+  Unarmored = 'unarmored',
+  Light = 'light',
+  Heavy = 'heavy',
+  Mounted = 'mounted',
+  Siege = 'siege',
+}
+
 export enum MatchPhase {
   Waiting = 'waiting',
   SpawnSelection = 'spawn_selection',
@@ -50,27 +59,23 @@ export enum CommandType {
   BuildStructure = 'build_structure',
   TrainUnit = 'train_unit',
   RallyPoint = 'rally_point',
-}
-
-// ---- Map ----
-
-export interface Tile {
-  x: number;
-  y: number;
-  terrain: TerrainType;
-  ownerId: PlayerId | null;
-  structureType: StructureType | null;
-  structureHp: number;
-  captureProgress: number; // 0–100
-  capturingPlayerId: PlayerId | null;
-  connected: boolean; // supply line connectivity
-  mineLevel: number; // 0 = no mine / base mine, 1+ = upgraded
-}
-
-export interface GameMap {
-  width: number;
-  height: number;
-  tiles: Tile[][];
+  CancelConstruction = 'cancel_construction',
+  SplitSquad = 'split_squad',
+  MergeSquads = 'merge_squads',
+  TransferUnits = 'transfer_units',
+  SetStance = 'set_stance',
+  AttackMove = 'attack_move',
+  Patrol = 'patrol',
+  FollowSquad = 'follow_squad',
+  Retreat = 'retreat',
+  CaptureArea = 'capture_area',
+  Research = 'research',
+  ProposePact = 'propose_pact',
+  AcceptPact = 'accept_pact',
+  BreakPact = 'break_pact',
+  SendGold = 'send_gold',
+  RepairStructure = 'repair_structure',
+  DemolishStructure = 'demolish_structure',
 }
 
 // ---- Units & Squads ----
@@ -82,6 +87,7 @@ export interface UnitStats {
   cost: number;
   range: number; // 1 = melee, >1 = ranged
   trainTime: number; // seconds
+  armor: ArmorType;
 }
 
 export const UNIT_STATS: Record<UnitType, UnitStats> = {
@@ -92,6 +98,7 @@ export const UNIT_STATS: Record<UnitType, UnitStats> = {
     cost: 20,
     range: 1,
     trainTime: 3,
+    armor: ArmorType.Unarmored,
   },
   [UnitType.Soldier]: {
     maxHp: 70,
@@ -100,6 +107,7 @@ export const UNIT_STATS: Record<UnitType, UnitStats> = {
     cost: 50,
     range: 1,
     trainTime: 5,
+    armor: ArmorType.Heavy,
   },
   [UnitType.Knight]: {
     maxHp: 120,
@@ -108,6 +116,7 @@ export const UNIT_STATS: Record<UnitType, UnitStats> = {
     cost: 120,
     range: 1,
     trainTime: 8,
+    armor: ArmorType.Mounted,
   },
   [UnitType.Archer]: {
     maxHp: 35,
@@ -116,6 +125,7 @@ export const UNIT_STATS: Record<UnitType, UnitStats> = {
     cost: 60,
     range: 4,
     trainTime: 5,
+    armor: ArmorType.Light,
   },
   [UnitType.SiegeRam]: {
     maxHp: 200,
@@ -124,14 +134,145 @@ export const UNIT_STATS: Record<UnitType, UnitStats> = {
     cost: 200,
     range: 1,
     trainTime: 12,
+    armor: ArmorType.Siege,
   },
 };
 
+// Damage multiplier by attacker unit type and target armor. Knights ride
+// down archers, soldiers hold against knights, archers cut down militia,
+// and siege rams barely scratch anything but structures.
+export const DAMAGE_MODIFIERS: Record<UnitType, Record<ArmorType, number>> = {
+  [UnitType.Militia]: {
+    [ArmorType.Unarmored]: 1.0,
+    [ArmorType.Light]: 1.0,
+    [ArmorType.Heavy]: 0.75,
+    [ArmorType.Mounted]: 0.75,
+    [ArmorType.Siege]: 1.0,
+  },
+  [UnitType.Soldier]: {
+    [ArmorType.Unarmored]: 1.0,
+    [ArmorType.Light]: 1.0,
+    [ArmorType.Heavy]: 1.0,
+    [ArmorType.Mounted]: 1.75,
+    [ArmorType.Siege]: 1.0,
+  },
+  [UnitType.Knight]: {
+    [ArmorType.Unarmored]: 1.25,
+    [ArmorType.Light]: 2.0,
+    [ArmorType.Heavy]: 0.6,
+    [ArmorType.Mounted]: 1.0,
+    [ArmorType.Siege]: 1.0,
+  },
+  [UnitType.Archer]: {
+    [ArmorType.Unarmored]: 2.5,
+    [ArmorType.Light]: 1.0,
+    [ArmorType.Heavy]: 0.5,
+    [ArmorType.Mounted]: 0.75,
+    [ArmorType.Siege]: 0.25,
+  },
+  [UnitType.SiegeRam]: {
+    [ArmorType.Unarmored]: 0.25,
+    [ArmorType.Light]: 0.25,
+    [ArmorType.Heavy]: 0.25,
+    [ArmorType.Mounted]: 0.25,
+    [ArmorType.Siege]: 0.25,
+  },
+};
+
+// ---- Veterancy ----
+
+/**
+ * Bonuses are relative to the unit's base stats and replace, rather than
+ * add to, those of the rank below.
+ */
+export interface VeterancyRank {
+  xp: number; // experience needed to reach the rank
+  hpBonus: number; // 0.1 = +10% max HP
+  damageBonus: number;
+  speedBonus: number;
+}
+
+export interface VeterancyRules {
+  xpPerGold: number; // per gold's worth of enemy HP destroyed
+  killBonus: number; // extra experience for the killing blow
+  ranks: VeterancyRank[]; // rank 1 upwards; rank 0 is a fresh recruit
+}
+
+export const VETERANCY: VeterancyRules = {
+  xpPerGold: 1,
+  killBonus: 10,
+  ranks: [
+    { xp: 50, hpBonus: 0.1, damageBonus: 0.1, speedBonus: 0 },
+    { xp: 150, hpBonus: 0.2, damageBonus: 0.2, speedBonus: 0.05 },
+    { xp: 350, hpBonus: 0.3, damageBonus: 0.35, speedBonus: 0.1 },
+  ],
+};
+
+/**
+ * Squads heal on their own connected land (or an ally's) and wear down
+ * after too long in enemy or cut-off territory. Depots supply the land
+ * around them once a road chain links them to the capital or they have
+ * been held, supplied, for long enough.
+ */
+export interface SupplyRules {
+  healRate: number; // share of max HP regained per second while supplied and out of combat
+  attritionGrace: number; // seconds out of supply before attrition starts
+  attritionRate: number; // share of max HP lost per second after that
+  depotRadius: number; // tiles around an active depot that it keeps connected
+  depotEstablishTime: number; // seconds a depot must stay supplied before it supplies itself
+}
+
+export const SUPPLY: SupplyRules = {
+  healRate: 0.01,
+  attritionGrace: 30,
+  attritionRate: 0.02,
+  depotRadius: 6,
+  depotEstablishTime: 60,
+};
+
+export enum SupplyStatus {
+  Supplied = 'supplied', // own or allied connected land
+  Neutral = 'neutral', // unclaimed land; the attrition clock neither runs nor resets
+  Unsupplied = 'unsupplied', // enemy land, or own land cut off from the capital
+}
+
 export interface Unit {
   id: UnitId;
   type: UnitType;
   hp: number;
   maxHp: number;
+  xp: number;
+  rank: number; // index into the veterancy ranks, plus one; 0 = recruit
+}
+
+/**
+ * How a squad reacts to enemies when it has no order of its own.
+ */
+export enum SquadStance {
+  Aggressive = 'aggressive', // chases anything that comes near
+  Defensive = 'defensive', // chases nearby enemies, then returns to its post
+  HoldPosition = 'hold_position', // fights from where it stands
+  Passive = 'passive', // never attacks
+}
+
+export enum SquadOrder {
+  Idle = 'idle',
+  Move = 'move', // keeps walking, shooting at whatever is in range
+  AttackMove = 'attack_move', // stops to fight anything met on the way
+  Patrol = 'patrol',
+  Follow = 'follow',
+  Retreat = 'retreat', // ignores combat and moves faster
+  CaptureArea = 'capture_area', // takes every tile around a point, then ends
+}
+
+/**
+ * An order waiting in a squad's queue. Only orders with a destination
+ * (move, attack-move, capture area) can be queued.
+ */
+export interface SquadWaypoint {
+  order: SquadOrder;
+  x: number;
+  y: number;
 }
 
 export interface Squad {
@@ -145,6 +286,18 @@ export interface Squad {
   path: Array<{ x: number; y: number }>;
   pathIndex: number;
   moveProgress: number; // 0–1 between current tile and next
+  stance: SquadStance;
+  order: SquadOrder;
+  // Post an idle defensive squad returns to after a chase
+  anchorX: number;
+  anchorY: number;
+  patrolRoute: Array<{ x: number; y: number }>;
+  patrolIndex: number; // patrol point currently headed for
+  followSquadId: SquadId | null;
+  captureArea: { x: number; y: number } | null; // centre of the area being taken
+  orderQueue: SquadWaypoint[]; // started in turn once the current order ends
+  supply: SupplyStatus;
+  unsuppliedFor: number; // seconds out of supply, reset on supplied land
 }
 
 // ---- Buildings ----
@@ -161,6 +314,7 @@ export const BUILDING_COSTS: Record<StructureType, BuildingCost> = {
   [StructureType.Tower]: { gold: 100, buildTime: 6 },
   [StructureType.MineUpgrade]: { gold: 200, buildTime: 10 },
   [StructureType.Road]: { gold: 15, buildTime: 1 },
+  [StructureType.Depot]: { gold: 175, buildTime: 12 },
 };
 
 export const BUILDING_HP: Record<StructureType, number> = {
@@ -170,14 +324,76 @@ export const BUILDING_HP: Record<StructureType, number> = {
   [StructureType.Tower]: 150,
   [StructureType.MineUpgrade]: 100,
   [StructureType.Road]: 30,
+  [StructureType.Depot]: 250,
 };
 
-export const TOWER_STATS = {
+export const TOWER_STATS: TowerStats = {
   damage: 15,
   range: 3,
   fireRate: 1.0, // shots per second
 };
 
+// ---- Research ----
+
+export enum TechId {
+  Forging = 'forging',
+  Tempering = 'tempering',
+  ChainMail = 'chain_mail',
+  PlateArmor = 'plate_armor',
+  Horseshoes = 'horseshoes',
+  Masonry = 'masonry',
+  Ballistics = 'ballistics',
+  Heraldry = 'heraldry',
+  Scouting = 'scouting',
+  Administration = 'administration',
+  Bureaucracy = 'bureaucracy',
+}
+
+/**
+ * Modifiers a player's research applies on top of the match rules.
+ * Techs stack by adding their effects together.
+ */
+export interface TechEffects {
+  unitHp: number; // 0.1 = +10% max HP for every unit
+  unitDamage: number;
+  unitSpeed: number;
+  towerDamage: number;
+  towerRange: number; // extra tiles
+  captureRate: number;
+  visionRadius: number; // extra tiles of squad sight
+  expansionRelief: number; // 0.25 = the expansion penalty divisor grows by 25%
+}
+
+export interface TechStats {
+  cost: number;
+  researchTime: number; // seconds
+  requires: TechId[]; // techs that must be finished first
+  effects: Partial<TechEffects>;
+}
+
+export const TECHS: Record<TechId, TechStats> = {
+  [TechId.Forging]: { cost: 150, researchTime: 40, requires: [], effects: { unitDamage: 0.1 } },
+  [TechId.Tempering]: { cost: 300, researchTime: 60, requires: [TechId.Forging], effects: { unitDamage: 0.15 } },
+  [TechId.ChainMail]: { cost: 150, researchTime: 40, requires: [], effects: { unitHp: 0.1 } },
+  [TechId.PlateArmor]: { cost: 300, researchTime: 60, requires: [TechId.ChainMail], effects: { unitHp: 0.15 } },
+  [TechId.Horseshoes]: { cost: 200, researchTime: 45, requires: [], effects: { unitSpeed: 0.1 } },
+  [TechId.Masonry]: { cost: 150, researchTime: 40, requires: [], effects: { towerDamage: 0.25 } },
+  [TechId.Ballistics]: { cost: 250, researchTime: 60, requires: [TechId.Masonry], effects: { towerRange: 1 } },
+  [TechId.Heraldry]: { cost: 150, researchTime: 40, requires: [], effects: { captureRate: 0.25 } },
+  [TechId.Scouting]: { cost: 100, researchTime: 30, requires: [], effects: { visionRadius: 2 } },
+  [TechId.Administration]: { cost: 250, researchTime: 60, requires: [], effects: { expansionRelief: 0.25 } },
+  [TechId.Bureaucracy]: { cost: 400, researchTime: 90, requires: [TechId.Administration], effects: { expansionRelief: 0.25 } },
+};
+
+/**
+ * A player's research, as sent to that player.
+ */
+export interface ResearchState {
+  completed: TechId[];
+  current: TechId | null; // researched at the capital, one at a time
+  progress: number; // 0–1 through the current tech
+}
+
 // ---- Player ----
 
 export interface Player {
@@ -194,6 +410,53 @@ export interface Player {
   score: number;
   connected: boolean;
   spawnSelected: boolean;
+  team: number | null; // null in free-for-all
+}
+
+// ---- Teams ----
+
+export enum TeamMode {
+  FreeForAll = 'ffa',
+  TwoVsTwo = '2v2',
+  FourVsFour = '4v4',
+  FiveTeamsOfFour = '5x4',
+}
+
+export interface TeamLayout {
+  teams: number;
+  teamSize: number;
+}
+
+// Teammates are allied for the whole match; free-for-all has no teams
+export const TEAM_LAYOUTS: Record<TeamMode, TeamLayout | null> = {
+  [TeamMode.FreeForAll]: null,
+  [TeamMode.TwoVsTwo]: { teams: 2, teamSize: 2 },
+  [TeamMode.FourVsFour]: { teams: 2, teamSize: 4 },
+  [TeamMode.FiveTeamsOfFour]: { teams: 5, teamSize: 4 },
+};
+
+// ---- Diplomacy ----
+
+export enum DiplomaticStatus {
+  War = 'war', // the default between any two players
+  NonAggression = 'non_aggression', // no fighting, no capturing each other's land
+  Alliance = 'alliance', // as above, plus shared vision and passage through each other's walls
+}
+
+export interface PactProposal {
+  fromId: PlayerId;
+  toId: PlayerId;
+  pact: DiplomaticStatus;
+  expiresIn: number; // seconds
+}
+
+/**
+ * A player's pending proposals and betrayal cooldowns, as sent to that player.
+ */
+export interface DiplomacyState {
+  proposals: PactProposal[]; // made by or to the player
+  cooldowns: Array<{ playerId: PlayerId; remaining: number }>; // players this one broke a pact with, seconds left
+  tributeCooldown: number; // seconds until the player can send gold again
 }
 
 // ---- Economy Constants ----
@@ -205,6 +468,12 @@ export const ECONOMY = {
   STARTING_GOLD: 300,
   EXPANSION_PENALTY_DIVISOR: 50,
   EXPANSION_PENALTY_EXPONENT: 1.2,
+  CANCEL_REFUND_RATIO: 0.75, // share of the cost returned when construction is cancelled
+  REPAIR_RATE: 20, // structure HP restored per second
+  REPAIR_COST_PER_HP: 0.15, // gold per HP restored
+  DEMOLISH_REFUND_RATIO: 0.5, // share of the cost returned for demolishing an undamaged structure
+  TRIBUTE_INTERVAL: 30, // seconds between gold transfers from the same player
+  TRIBUTE_TAX: 0.2, // share of a transfer lost on the way
 };
 
 // ---- Match Config ----
@@ -223,8 +492,68 @@ export const MATCH_CONFIG = {
   QUEUE_MIN_PLAYERS: 2, // minimum to start (bots fill rest)
   FOG_OF_WAR_RADIUS: 8,
   SUPPLY_CHECK_INTERVAL: 5, // check supply every N ticks
+  MAX_SQUAD_SIZE: 20,
+  SQUAD_MERGE_DISTANCE: 2, // max tiles between squads that merge or trade units
+  PACT_PROPOSAL_TIMEOUT: 60, // seconds a pact proposal stays open
+  BETRAYAL_COOLDOWN: 180, // seconds before a pact breaker can propose to the same player again
 };
 
+// ---- Match Rules ----
+// Per-match tunables. The constants above are the Standard defaults;
+// presets and validation live in game/MatchRules.ts.
+
+export enum RulePreset {
+  Standard = 'standard',
+  Blitz = 'blitz',
+  Duel = 'duel',
+  EconomyHeavy = 'economy_heavy',
+}
+
+export interface EconomyRules {
+  baseMineIncome: number; // gold per second per mine
+  mineUpgradeBonus: number; // additional gold per upgrade level
+  passiveTerritoryIncome: number; // gold per tile per second
+  startingGold: number;
+  expansionPenaltyDivisor: number;
+  expansionPenaltyExponent: number;
+  cancelRefundRatio: number; // share of the cost returned when construction is cancelled
+  repairRate: number; // structure HP restored per second
+  repairCostPerHp: number; // gold per HP restored
+  demolishRefundRatio: number; // share of the cost returned for demolishing an undamaged structure
+  tributeInterval: number; // seconds between gold transfers from the same player
+  tributeTax: number; // share of a transfer lost on the way
+}
+
+export interface TowerStats {
+  damage: number;
+  range: number;
+  fireRate: number; // shots per second
+}
+
+export interface MatchRules {
+  maxPlayers: number;
+  mapWidth: number;
+  mapHeight: number;
+  spawnPhaseDuration: number; // seconds
+  matchDuration: number; // seconds
+  minSpawnDistance: number; // tiles between spawns
+  captureRate: number; // capture progress per second per unit
+  captureThreshold: number;
+  fogOfWarRadius: number;
+  supplyCheckInterval: number; // ticks
+  pactProposalTimeout: number; // seconds a pact proposal stays open
+  betrayalCooldown: number; // seconds before a pact breaker can propose to the same player again
+  economy: EconomyRules;
+  units: Record<UnitType, UnitStats>;
+  damageModifiers: Record<UnitType, Record<ArmorType, number>>; // attacker type -> target armor -> multiplier
+  buildingCosts: Record<StructureType, BuildingCost>;
+  buildingHp: Record<StructureType, number>;
+  tower: TowerStats;
+  veterancy: VeterancyRules;
+  supply: SupplyRules;
+  techs: Record<TechId, TechStats>;
+}
+
 // ---- Spatial Hash ----
 
 export const SPATIAL_HASH_CELL_SIZE = 8;
@@ -242,6 +571,7 @@ export interface MoveSquadCommand {
   squadId: SquadId;
   targetX: number;
   targetY: number;
+  queued?: boolean; // run after the squad's current orders instead of replacing them
 }
 
 export interface BuildStructureCommand {
@@ -266,12 +596,134 @@ export interface RallyPointCommand {
   rallyY: number;
 }
 
+export interface CancelConstructionCommand {
+  type: CommandType.CancelConstruction;
+  x: number;
+  y: number;
+}
+
+export interface RepairStructureCommand {
+  type: CommandType.RepairStructure;
+  x: number; // a finished, damaged structure; repeating the command stops the repair
+  y: number;
+}
+
+export interface DemolishStructureCommand {
+  type: CommandType.DemolishStructure;
+  x: number; // any finished structure except castles and mine upgrades
+  y: number;
+}
+
+// Units to move out of a squad, by type
+export type UnitCounts = Partial<Record<UnitType, number>>;
+
+export interface SplitSquadCommand {
+  type: CommandType.SplitSquad;
+  squadId: SquadId;
+  units: UnitCounts; // units that leave to form the new squad
+}
+
+export interface MergeSquadsCommand {
+  type: CommandType.MergeSquads;
+  squadIds: SquadId[]; // the first squad absorbs the rest
+}
+
+export interface TransferUnitsCommand {
+  type: CommandType.TransferUnits;
+  fromSquadId: SquadId;
+  toSquadId: SquadId;
+  units: UnitCounts;
+}
+
+export interface SetStanceCommand {
+  type: CommandType.SetStance;
+  squadId: SquadId;
+  stance: SquadStance;
+}
+
+export interface AttackMoveCommand {
+  type: CommandType.AttackMove;
+  squadId: SquadId;
+  targetX: number;
+  targetY: number;
+  queued?: boolean;
+}
+
+export interface CaptureAreaCommand {
+  type: CommandType.CaptureArea;
+  squadId: SquadId;
+  x: number;
+  y: number;
+  queued?: boolean;
+}
+
+export interface PatrolCommand {
+  type: CommandType.Patrol;
+  squadId: SquadId;
+  points: Array<{ x: number; y: number }>; // visited in order from the squad's position, then back
+}
+
+export interface FollowSquadCommand {
+  type: CommandType.FollowSquad;
+  squadId: SquadId;
+  targetSquadId: SquadId;
+}
+
+export interface RetreatCommand {
+  type: CommandType.Retreat;
+  squadId: SquadId; // falls back to the nearest own castle or barracks
+}
+
+export interface ResearchCommand {
+  type: CommandType.Research;
+  techId: TechId; // gold is paid up front; fails if something is already being researched
+}
+
+export interface ProposePactCommand {
+  type: CommandType.ProposePact;
+  targetPlayerId: PlayerId;
+  pact: DiplomaticStatus; // NonAggression or Alliance
+}
+
+export interface AcceptPactCommand {
+  type: CommandType.AcceptPact;
+  fromPlayerId: PlayerId;
+}
+
+export interface BreakPactCommand {
+  type: CommandType.BreakPact;
+  targetPlayerId: PlayerId; // back to war at once
+}
+
+export interface SendGoldCommand {
+  type: CommandType.SendGold;
+  targetPlayerId: PlayerId;
+  amount: number; // whole gold taken from the sender; the recipient gets it less economy.tributeTax
+}
+
 export type GameCommand =
   | SelectSpawnCommand
   | MoveSquadCommand
   | BuildStructureCommand
   | TrainUnitCommand
-  | RallyPointCommand;
+  | RallyPointCommand
+  | CancelConstructionCommand
+  | RepairStructureCommand
+  | DemolishStructureCommand
+  | SplitSquadCommand
+  | MergeSquadsCommand
+  | TransferUnitsCommand
+  | SetStanceCommand
+  | AttackMoveCommand
+  | PatrolCommand
+  | FollowSquadCommand
+  | RetreatCommand
+  | CaptureAreaCommand
+  | ResearchCommand
+  | ProposePactCommand
+  | AcceptPactCommand
+  | BreakPactCommand
+  | SendGoldCommand;
 
 // ---- Network Events (Server → Client) ----
 
@@ -290,6 +742,9 @@ export interface PlayerPublicInfo {
   score: number;
   isBot: boolean;
   territoryCount: number;
+  allies: PlayerId[]; // teammates included
+  nonAggression: PlayerId[]; // players with a non-aggression pact
+  team: number | null;
 }
 
 export interface GameStateSnapshot {
@@ -299,11 +754,40 @@ export interface GameStateSnapshot {
   players: PlayerPublicInfo[];
   myGold: number;
   myGoldPerSecond: number;
+  myResearch: ResearchState | null; // null for spectators
+  myDiplomacy: DiplomacyState | null;
+  myRepairs: Array<{ x: number; y: number }>; // structures this player is repairing
+  myDepots: DepotInfo[]; // this player's finished depots
+  myTraining: TrainingQueueInfo[]; // this player's non-empty training queues
   visibleTiles: VisibleTile[];
   squads: SquadSnapshot[];
   events: GameEvent[];
 }
 
+/**
+ * Per-player game state patch. Applies on top of the state the client had
+ * at `baseTick`; keyframes replace squads and players outright.
+ */
+export interface GameStateDelta {
+  tick: number;
+  baseTick: number;
+  keyframe: boolean;
+  phase: MatchPhase;
+  timeRemaining: number;
+  myGold: number;
+  myGoldPerSecond: number;
+  myResearch: ResearchState | null;
+  myDiplomacy: DiplomacyState | null;
+  myRepairs: Array<{ x: number; y: number }>;
+  myDepots: DepotInfo[];
+  myTraining: TrainingQueueInfo[];
+  tiles: VisibleTile[]; // changed tiles
+  squads: SquadSnapshot[]; // added or changed squads
+  removedSquadIds: SquadId[]; // destroyed or out of sight
+  players: PlayerPublicInfo[]; // changed players
+  events: GameEvent[];
+}
+
 export interface VisibleTile {
   x: number;
   y: number;
@@ -313,6 +797,7 @@ export interface VisibleTile {
   structureHp: number;
   captureProgress: number;
   capturingPlayerId: PlayerId | null;
+  constructionProgress: number; // 0–1, 1 = complete
 }
 
 export interface SquadSnapshot {
@@ -326,11 +811,18 @@ export interface SquadSnapshot {
   totalHp: number;
   maxHp: number;
   composition: Partial<Record<UnitType, number>>;
+  ranks: Partial<Record<UnitType, number[]>>; // units of each type per rank, index 0 = recruits
+  stance: SquadStance;
+  order: SquadOrder | null; // null for other players' squads
+  waypoints: SquadWaypoint[]; // queued orders; empty for other players' squads
+  supply: SupplyStatus | null; // null for other players' squads
+  unsuppliedFor: number; // whole seconds; 0 for other players' squads
 }
 
 export interface GameEvent {
   type: string;
   data: Record<string, unknown>;
+  recipients?: PlayerId[]; // only these players (and spectators) see it; everyone when omitted
 }
 
 // ---- Training Queue ----
@@ -342,6 +834,31 @@ export interface TrainingOrder {
   buildingY: number;
 }
 
+export interface TrainingQueueInfo {
+  x: number;
+  y: number;
+  units: UnitType[]; // paid for, the one in training first
+}
+
+// ---- Construction ----
+
+export interface ConstructionSite {
+  playerId: PlayerId;
+  structureType: StructureType;
+  elapsed: number; // seconds spent building so far
+  buildTime: number;
+  goldPaid: number;
+}
+
+// ---- Supply Depot ----
+
+export interface DepotInfo {
+  x: number;
+  y: number;
+  heldFor: number; // whole seconds
+  active: boolean;
+}
+
 // ---- Rally Point ----
 
 export interface RallyPoint {
@@ -364,6 +881,35 @@ export interface LobbyState {
   timeUntilStart: number;
 }
 
+// ---- Private Lobbies ----
+
+export enum BotDifficulty {
+  Easy = 'easy',
+  Normal = 'normal',
+  Hard = 'hard',
+}
+
+export interface PrivateLobbySettings {
+  botCount: number;
+  botDifficulty: BotDifficulty;
+  rulePreset: RulePreset;
+  teamMode: TeamMode;
+}
+
+export interface PrivateLobbyMember {
+  playerId: PlayerId;
+  username: string;
+  team: number | null; // bots fill whichever teams are short
+}
+
+export interface PrivateLobbyState {
+  code: string;
+  hostId: PlayerId;
+  members: PrivateLobbyMember[];
+  settings: PrivateLobbySettings;
+  maxPlayers: number;
+}
+
 // ---- Scoreboard ----
 
 export interface ScoreEntry {
@@ -375,17 +921,91 @@ export interface ScoreEntry {
   unitsKilled: number;
   unitsLost: number;
   goldEarned: number;
+  goldSent: number; // before tax
+  goldReceived: number; // after tax
   alive: boolean;
   placement: number;
+  team: number | null;
+}
+
+export interface TeamScore {
+  team: number;
+  playerIds: PlayerId[];
+  score: number; // members' scores added up
+  alive: boolean; // any member still standing
+  placement: number;
 }
 
 export interface MatchResult {
   matchId: MatchId;
   duration: number;
-  scores: ScoreEntry[];
+  scores: ScoreEntry[]; // in team modes, grouped by team placement
+  teams: TeamScore[]; // empty in free-for-all
+  winnerId: PlayerId | null; // in team modes, the winning team's top scorer
+  winningTeam: number | null;
+}
+
+// ---- Replays ----
+
+export interface ReplayRosterEntry {
+  id: PlayerId;
+  username: string;
+  isBot: boolean;
+  color: string;
+  team?: number | null; // absent in replays recorded before team modes existed
+}
+
+/** [tick the command was queued on, roster index, command] */
+export type ReplayCommand = [number, number, GameCommand];
+
+/** [tick, roster index, change] — a human handed to (or taken back from) the bot AI */
+export type ReplayControlEvent = [number, number, 'disconnect' | 'reconnect'];
+
+export interface ReplayData {
+  version: number;
+  matchId: MatchId;
+  seed: number;
+  recordedAt: number;
+  startTime: number; // simulation clock at match start (ms)
+  roster: ReplayRosterEntry[];
+  tickDeltas: Array<[number, number]>; // run-length encoded [deltaMs, repeat]
+  commands: ReplayCommand[];
+  controls: ReplayControlEvent[];
+  totalTicks: number;
+  result: MatchResult;
+  botDifficulty?: BotDifficulty; // absent in replays recorded before difficulties existed
+  rules?: MatchRules; // absent in replays recorded before rule sets existed
+  teamMode?: TeamMode; // absent in replays recorded before team modes existed
+}
+
+export interface ReplaySummary {
+  matchId: MatchId;
+  recordedAt: number;
+  duration: number;
+  totalTicks: number;
+  roster: ReplayRosterEntry[];
   winnerId: PlayerId | null;
 }
 
+export interface ReplayStatus {
+  matchId: MatchId;
+  tick: number;
+  totalTicks: number;
+  playing: boolean;
+  speed: number;
+  perspective: PlayerId | null; // null = whole map
+  seeking: boolean;
+}
+
+export interface ReplayControl {
+  action: 'play' | 'pause' | 'seek' | 'speed' | 'perspective';
+  tick?: number;
+  speed?: number;
+  perspective?: PlayerId | null;
+}
+
+export const REPLAY_SPEEDS: number[] = [0.25, 0.5, 1, 2, 4, 8];
+
 // ---- Player Colors ----
 
 export const PLAYER_COLORS: string[] = [
@@ -9,11 +9,14 @@ import type {
   PlayerPublicInfo,
   PlayerId,
   SquadId,
+  GameEvent,
+  DepotInfo,
 } from "../types/game";
 import {
   TerrainType,
   StructureType,
   UnitType,
+  SquadOrder,
   MATCH_CONFIG,
 } from "../types/game";
 
@@ -22,6 +25,8 @@ import {
 const TILE_SIZE = 32; // Base tile size in pixels
 const MIN_ZOOM = 0.15;
 const MAX_ZOOM = 4.0;
+const PROJECTILE_FLIGHT_TIME = 0.45; // seconds from bow to target
+const MAX_ARROWS_PER_VOLLEY = 3;
 
 // ---- Terrain Colors ----
 
@@ -50,6 +55,7 @@ const STRUCTURE_SYMBOLS: Record<string, string> = {
   [StructureType.Tower]: "⬆",
   [StructureType.MineUpgrade]: "⛏",
   [StructureType.Road]: "·",
+  [StructureType.Depot]: "⛺",
 };
 
 // ---- Unit Symbols ----
@@ -62,6 +68,14 @@ const UNIT_SYMBOLS: Record<string, string> = {
   [UnitType.SiegeRam]: "♜",
 };
 
+// ---- Queued Route Colors ----
+
+const WAYPOINT_COLORS: Partial<Record<SquadOrder, string>> = {
+  [SquadOrder.Move]: "#00ff88",
+  [SquadOrder.AttackMove]: "#ff6644",
+  [SquadOrder.CaptureArea]: "#ffd166",
+};
+
 // ---- Types ----
 
 export interface RenderState {
@@ -81,6 +95,17 @@ export interface RenderState {
   myGold: number;
   myGoldPerSecond: number;
   phase: string | null;
+  myDepots: DepotInfo[];
+  depotRadius: number;
+}
+
+interface Projectile {
+  fromX: number;
+  fromY: number;
+  toX: number;
+  toY: number;
+  color: string;
+  age: number; // seconds since launch; negative while waiting to launch
 }
 
 export interface CameraState {
@@ -90,7 +115,7 @@ export interface CameraState {
 }
 
 export interface RendererCallbacks {
-  onTileClick: (x: number, y: number, button: number) => void;
+  onTileClick: (x: number, y: number, button: number, shift: boolean) => void;
   onTileHover: (x: number, y: number) => void;
   onSquadClick: (squadId: SquadId, append: boolean) => void;
   onDragSelect: (
@@ -155,6 +180,9 @@ export class Renderer {
   // FOW explored tiles cache
   private exploredTiles: Set<string> = new Set();
 
+  // Arrows in flight
+  private projectiles: Projectile[] = [];
+
   constructor(canvas: HTMLCanvasElement, callbacks: RendererCallbacks) {
     this.canvas = canvas;
     this.ctx = canvas.getContext("2d", { alpha: false })!;
@@ -242,6 +270,47 @@ export class Renderer {
     }
   }
 
+  /**
+   * Start animations for a snapshot's events. Call once per snapshot.
+   */
+  playEvents(events: GameEvent[]): void {
+    for (const event of events) {
+      if (event.type !== "ranged_attack") continue;
+
+      const data = event.data as {
+        playerId: PlayerId;
+        x: number;
+        y: number;
+        targetX: number;
+        targetY: number;
+        shooters: number;
+      };
+      const color = this.playerColorMap.get(data.playerId) || "#ffffff";
+      const arrows = Math.min(data.shooters, MAX_ARROWS_PER_VOLLEY);
+
+      for (let i = 0; i < arrows; i++) {
+        // Stagger and scatter the arrows a little so a volley reads as several shots
+        this.projectiles.push({
+          fromX: data.x + (Math.random() - 0.5) * 0.4,
+          fromY: data.y + (Math.random() - 0.5) * 0.4,
+          toX: data.targetX + (Math.random() - 0.5) * 0.5,
+          toY: data.targetY + (Math.random() - 0.5) * 0.5,
+          color,
+          age: -i * 0.08,
+        });
+      }
+    }
+  }
+
+  /**
+   * Forget which tiles have been explored (e.g. when a replay switches
+   * to another player's perspective).
+   */
+  resetExplored(): void {
+    this.exploredTiles.clear();
+    this.minimapDirty = true;
+  }
+
   /**
    * Update camera position.
    */
@@ -354,7 +423,7 @@ export class Renderer {
       } else if (e.button === 2) {
         // Right click → context action (move/attack)
         const { tx, ty } = this.getTileAt(sx, sy);
-        this.callbacks.onTileClick(tx, ty, 2);
+        this.callbacks.onTileClick(tx, ty, 2, e.shiftKey);
       }
     };
 
@@ -419,7 +488,7 @@ export class Renderer {
           if (clickedSquad) {
             this.callbacks.onSquadClick(clickedSquad.id, e.shiftKey);
           } else {
-            this.callbacks.onTileClick(tx, ty, 0);
+            this.callbacks.onTileClick(tx, ty, 0, e.shiftKey);
           }
         } else {
           // Box selection
@@ -564,7 +633,7 @@ export class Renderer {
     this.animationFrameId = requestAnimationFrame(() => this.animate());
   }
 
-  private render(_dt: number): void {
+  private render(dt: number): void {
     const ctx = this.ctx;
     const w = this.width;
     const h = this.height;
@@ -650,6 +719,11 @@ export class Renderer {
       }
     }
 
+    // ---- Draw Depot Supply Radii ----
+    for (const depot of state.myDepots) {
+      this.drawDepotRadius(ctx, depot.x, depot.y, depot.active, state, tilePixelSize);
+    }
+
     // ---- Draw Squads ----
     for (const squad of state.squads) {
       this.drawSquad(
@@ -661,6 +735,9 @@ export class Renderer {
       );
     }
 
+    // ---- Draw Projectiles ----
+    this.drawProjectiles(ctx, dt, tilePixelSize);
+
     // ---- Draw Box Selection ----
     if (this.isBoxSelecting) {
       const bx = Math.min(this.boxStartScreenX, this.boxCurrentScreenX);
@@ -698,6 +775,10 @@ export class Renderer {
         ctx.textBaseline = "middle";
         ctx.fillText(symbol, sx + tilePixelSize / 2, sy + tilePixelSize / 2);
       }
+
+      if (state.buildStructureType === StructureType.Depot) {
+        this.drawDepotRadius(ctx, tx, ty, true, state, tilePixelSize);
+      }
     }
 
     // ---- Draw Hovered Tile Highlight ----
@@ -806,6 +887,11 @@ export class Renderer {
       ? this.playerColorMap.get(tile.ownerId) || "#888888"
       : "#888888";
 
+    if (tile.constructionProgress < 1) {
+      this.drawScaffold(ctx, tile, ownerColor, sx, sy, size);
+      return;
+    }
+
     // Structure background
     if (tile.structureType === StructureType.Wall) {
       ctx.fillStyle = this.hexToRgba(ownerColor, 0.7);
@@ -825,6 +911,9 @@ export class Renderer {
     } else if (tile.structureType === StructureType.Road) {
       ctx.fillStyle = "#b8a87a";
       ctx.fillRect(sx + size * 0.2, sy + size * 0.35, size * 0.6, size * 0.3);
+    } else if (tile.structureType === StructureType.Depot) {
+      ctx.fillStyle = this.hexToRgba(ownerColor, 0.4);
+      ctx.fillRect(sx + size * 0.1, sy + size * 0.1, size * 0.8, size * 0.8);
     }
 
     // Structure symbol (skip at very low zoom except for castle)
@@ -861,6 +950,86 @@ export class Renderer {
     }
   }
 
+  /**
+   * Unfinished structure: dashed frame, faded symbol, build progress bar.
+   */
+  private drawScaffold(
+    ctx: CanvasRenderingContext2D,
+    tile: VisibleTile,
+    ownerColor: string,
+    sx: number,
+    sy: number,
+    size: number,
+  ): void {
+    if (!tile.structureType) return;
+
+    ctx.save();
+    ctx.strokeStyle = this.hexToRgba(ownerColor, 0.8);
+    ctx.lineWidth = 1;
+    ctx.setLineDash([3, 2]);
+    ctx.strokeRect(sx + size * 0.15, sy + size * 0.15, size * 0.7, size * 0.7);
+    ctx.restore();
+
+    if (this.camera.zoom > 0.4) {
+      const symbol = STRUCTURE_SYMBOLS[tile.structureType] || "?";
+      ctx.fillStyle = "rgba(255, 255, 255, 0.4)";
+      ctx.font = `${Math.max(8, size * 0.4)}px sans-serif`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(symbol, sx + size / 2, sy + size / 2);
+    }
+
+    // Build progress along the top edge
+    if (this.camera.zoom > 0.3) {
+      const barWidth = size * 0.8;
+      const barX = sx + size * 0.1;
+      const barY = sy + 2;
+
+      ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+      ctx.fillRect(barX, barY, barWidth, 3);
+      ctx.fillStyle = "#4fc3f7";
+      ctx.fillRect(barX, barY, barWidth * tile.constructionProgress, 3);
+    }
+  }
+
+  /**
+   * Circle around a depot showing the land it supplies: solid while the
+   * depot is active, dashed and grey while it is cut off.
+   */
+  private drawDepotRadius(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    active: boolean,
+    state: RenderState,
+    tilePixelSize: number,
+  ): void {
+    const { sx, sy } = this.worldToScreen(x, y);
+    const color = active
+      ? (state.myPlayerId && this.playerColorMap.get(state.myPlayerId)) || "#ffffff"
+      : "#888888";
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(
+      sx + tilePixelSize / 2,
+      sy + tilePixelSize / 2,
+      (state.depotRadius + 0.5) * tilePixelSize,
+      0,
+      Math.PI * 2,
+    );
+    if (active) {
+      ctx.fillStyle = this.hexToRgba(color, 0.06);
+      ctx.fill();
+    } else {
+      ctx.setLineDash([6, 4]);
+    }
+    ctx.strokeStyle = this.hexToRgba(color, 0.6);
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+    ctx.restore();
+  }
+
   private getStructureMaxHp(structureType: StructureType): number {
     const hpMap: Record<string, number> = {
       [StructureType.Castle]: 500,
@@ -869,6 +1038,7 @@ export class Renderer {
       [StructureType.Tower]: 150,
       [StructureType.MineUpgrade]: 100,
       [StructureType.Road]: 30,
+      [StructureType.Depot]: 250,
     };
     return hpMap[structureType] || 100;
   }
@@ -877,6 +1047,59 @@ export class Renderer {
   // Squad Drawing
   // ============================================================
 
+  /**
+   * Dashed legs from the squad's current destination through each queued
+   * order, with capture areas outlined.
+   */
+  private drawQueuedRoute(
+    ctx: CanvasRenderingContext2D,
+    squad: SquadSnapshot,
+    tilePixelSize: number,
+  ): void {
+    const half = tilePixelSize / 2;
+    let from = this.worldToScreen(
+      squad.targetX ?? squad.x,
+      squad.targetY ?? squad.y,
+    );
+
+    for (const waypoint of squad.waypoints) {
+      const to = this.worldToScreen(waypoint.x, waypoint.y);
+      const color = WAYPOINT_COLORS[waypoint.order] ?? "#00ff88";
+
+      ctx.beginPath();
+      ctx.moveTo(from.sx + half, from.sy + half);
+      ctx.lineTo(to.sx + half, to.sy + half);
+      ctx.strokeStyle = color;
+      ctx.globalAlpha = 0.4;
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([3, 5]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.globalAlpha = 1;
+
+      if (waypoint.order === SquadOrder.CaptureArea) {
+        ctx.beginPath();
+        ctx.arc(
+          to.sx + half,
+          to.sy + half,
+          (MATCH_CONFIG.CAPTURE_AREA_RADIUS + 0.5) * tilePixelSize,
+          0,
+          Math.PI * 2,
+        );
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+      }
+
+      ctx.beginPath();
+      ctx.arc(to.sx + half, to.sy + half, 3, 0, Math.PI * 2);
+      ctx.fillStyle = color;
+      ctx.fill();
+
+      from = to;
+    }
+  }
+
   private drawSquad(
     ctx: CanvasRenderingContext2D,
     squad: SquadSnapshot,
@@ -931,6 +1154,8 @@ export class Renderer {
         ctx.fillStyle = "#00ff88";
         ctx.fill();
       }
+
+      this.drawQueuedRoute(ctx, squad, tilePixelSize);
     }
 
     // Unit circle
@@ -977,6 +1202,26 @@ export class Renderer {
       ctx.fillRect(barX, barY, barWidth * hpRatio, barHeight);
     }
 
+    // Veterancy chevrons for the squad's average rank
+    const rank = this.averageRank(squad);
+    if (this.camera.zoom > 0.4 && rank > 0) {
+      const chevronWidth = Math.max(4, radius * 0.6);
+      const chevronHeight = chevronWidth / 2;
+      const cx = sx + tilePixelSize / 2 + radius + chevronWidth / 2 + 2;
+      const top = sy + tilePixelSize / 2 - radius;
+
+      ctx.strokeStyle = "#ffd700";
+      ctx.lineWidth = 1.5;
+      for (let i = 0; i < rank; i++) {
+        const y = top + i * (chevronHeight + 2);
+        ctx.beginPath();
+        ctx.moveTo(cx - chevronWidth / 2, y);
+        ctx.lineTo(cx, y + chevronHeight);
+        ctx.lineTo(cx + chevronWidth / 2, y);
+        ctx.stroke();
+      }
+    }
+
     // Unit type icons (at high zoom)
     if (this.camera.zoom > 1.0 && squad.composition) {
       const types = Object.entries(squad.composition).filter(
@@ -998,6 +1243,60 @@ export class Renderer {
     }
   }
 
+  // ============================================================
+  // Projectile Drawing
+  // ============================================================
+
+  private drawProjectiles(
+    ctx: CanvasRenderingContext2D,
+    dt: number,
+    tilePixelSize: number,
+  ): void {
+    const half = tilePixelSize / 2;
+
+    this.projectiles = this.projectiles.filter((p) => {
+      p.age += dt;
+      return p.age < PROJECTILE_FLIGHT_TIME;
+    });
+
+    ctx.lineCap = "round";
+    for (const p of this.projectiles) {
+      if (p.age < 0) continue;
+
+      // Position along the shot, lifted into a shallow arc
+      const t = p.age / PROJECTILE_FLIGHT_TIME;
+      const lift = Math.sin(t * Math.PI) * 0.6;
+      const x = p.fromX + (p.toX - p.fromX) * t;
+      const y = p.fromY + (p.toY - p.fromY) * t - lift;
+      const tail = Math.max(0, t - 0.12);
+      const tailX = p.fromX + (p.toX - p.fromX) * tail;
+      const tailY =
+        p.fromY + (p.toY - p.fromY) * tail - Math.sin(tail * Math.PI) * 0.6;
+
+      const head = this.worldToScreen(x, y);
+      const back = this.worldToScreen(tailX, tailY);
+
+      ctx.beginPath();
+      ctx.moveTo(back.sx + half, back.sy + half);
+      ctx.lineTo(head.sx + half, head.sy + half);
+      ctx.strokeStyle = p.color;
+      ctx.lineWidth = Math.max(1, tilePixelSize * 0.06);
+      ctx.stroke();
+
+      ctx.beginPath();
+      ctx.arc(
+        head.sx + half,
+        head.sy + half,
+        Math.max(1, tilePixelSize * 0.05),
+        0,
+        Math.PI * 2,
+      );
+      ctx.fillStyle = "#f5f0e0";
+      ctx.fill();
+    }
+    ctx.lineCap = "butt";
+  }
+
   // ============================================================
   // Minimap
   // ============================================================
@@ -1204,6 +1503,18 @@ export class Renderer {
   // Utility
   // ============================================================
 
+  private averageRank(squad: SquadSnapshot): number {
+    let units = 0;
+    let total = 0;
+    for (const counts of Object.values(squad.ranks ?? {})) {
+      counts?.forEach((count, rank) => {
+        units += count;
+        total += count * rank;
+      });
+    }
+    return units > 0 ? Math.round(total / units) : 0;
+  }
+
   private hexToRgba(hex: string, alpha: number): string {
     const r = parseInt(hex.slice(1, 3), 16);
     const g = parseInt(hex.slice(3, 5), 16);
@@ -10,23 +10,40 @@ import type {
   MatchPhase,
   GameCommand,
   GameStateSnapshot,
+  GameStateDelta,
   LobbyState,
+  PrivateLobbyState,
+  PrivateLobbySettings,
   MatchResult,
   ServerInfo,
+  ReplaySummary,
+  ReplayStatus,
+  ReplayRosterEntry,
+  ReplayControl,
 } from '../types/game';
+import { BinaryCodec } from './BinaryCodec';
+import type { WireEncoding } from './BinaryCodec';
 
 // ---- Event Types ----
 
 export interface SocketEvents {
-  onQueueJoined: (data: { playerId: PlayerId; lobbyState: LobbyState }) => void;
+  onQueueJoined: (data: { playerId: PlayerId; lobbyState: LobbyState; sessionToken: string }) => void;
   onLobbyUpdate: (state: LobbyState) => void;
-  onMatchStarting: (data: { matchId: MatchId; playerId: PlayerId }) => void;
+  onPrivateLobbyJoined: (data: { playerId: PlayerId; lobby: PrivateLobbyState; sessionToken: string }) => void;
+  onPrivateLobbyUpdate: (state: PrivateLobbyState) => void;
+  onPrivateLobbyKicked: () => void;
+  onMatchStarting: (data: { matchId: MatchId; playerId: PlayerId; sessionToken: string }) => void;
+  onSessionResumed: (data: { playerId: PlayerId; username: string; matchId: MatchId | null; keptLobbySpot: boolean; sessionToken: string }) => void;
   onPhaseChange: (data: { matchId: MatchId; phase: MatchPhase; data?: any }) => void;
-  onGameState: (snapshot: GameStateSnapshot) => void;
+  onGameState: (delta: GameStateDelta) => void;
   onMatchEnded: (result: MatchResult) => void;
   onMapData: (data: { width: number; height: number; terrain: string[][] }) => void;
   onError: (data: { message: string; code?: string }) => void;
   onServerInfo: (data: ServerInfo) => void;
+  onReplayList: (replays: ReplaySummary[]) => void;
+  onReplayOpened: (data: { status: ReplayStatus; roster: ReplayRosterEntry[]; result: MatchResult }) => void;
+  onReplayState: (data: { status: ReplayStatus; snapshot: GameStateSnapshot; full: boolean }) => void;
+  onReplayStatus: (status: ReplayStatus) => void;
   onConnect: () => void;
   onDisconnect: (reason: string) => void;
 }
@@ -41,6 +58,8 @@ class SocketClient {
   private _matchId: MatchId | null = null;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 10;
+  private encoding: WireEncoding = 'binary';
+  private codec: BinaryCodec | null = null;
 
   /**
    * Connect to the game server.
@@ -54,9 +73,12 @@ class SocketClient {
     // Determine server URL
     const serverUrl = url || this.getServerUrl();
 
-    console.log(`[Socket] Connecting to ${serverUrl}...`);
+    this.encoding = this.getWireEncoding();
+
+    console.log(`[Socket] Connecting to ${serverUrl} (${this.encoding})...`);
 
     this.socket = io(serverUrl, {
+      auth: { encoding: this.encoding },
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionAttempts: this.maxReconnectAttempts,
@@ -83,6 +105,17 @@ class SocketClient {
     return backendUrl;
   }
 
+  /**
+   * Binary unless JSON is asked for, via `?wire=json` or VITE_WIRE_ENCODING,
+   * which is handy when inspecting traffic in devtools.
+   */
+  private getWireEncoding(): WireEncoding {
+    const requested =
+      new URLSearchParams(window.location.search).get('wire') ||
+      import.meta.env.VITE_WIRE_ENCODING;
+    return requested === 'json' ? 'json' : 'binary';
+  }
+
   /**
    * Set up all Socket.IO event handlers.
    */
@@ -94,6 +127,8 @@ class SocketClient {
     this.socket.on('connect', () => {
       console.log('[Socket] Connected');
       this._connected = true;
+      // The server starts fresh intern tables for every connection
+      this.codec = this.encoding === 'binary' ? new BinaryCodec() : null;
       this.reconnectAttempts = 0;
       this.listeners.onConnect?.();
     });
@@ -111,7 +146,7 @@ class SocketClient {
 
     // ---- Queue/Lobby Events ----
 
-    this.socket.on('queue_joined', (data: { playerId: PlayerId; lobbyState: LobbyState }) => {
+    this.socket.on('queue_joined', (data: { playerId: PlayerId; lobbyState: LobbyState; sessionToken: string }) => {
       this._playerId = data.playerId;
       console.log(`[Socket] Joined queue as ${data.playerId}`);
       this.listeners.onQueueJoined?.(data);
@@ -121,22 +156,61 @@ class SocketClient {
       this.listeners.onLobbyUpdate?.(state);
     });
 
+    // ---- Private Lobby Events ----
+
+    this.socket.on('private_lobby_joined', (data: { playerId: PlayerId; lobby: PrivateLobbyState; sessionToken: string }) => {
+      this._playerId = data.playerId;
+      console.log(`[Socket] Joined private lobby ${data.lobby.code} as ${data.playerId}`);
+      this.listeners.onPrivateLobbyJoined?.(data);
+    });
+
+    this.socket.on('private_lobby_update', (state: PrivateLobbyState) => {
+      this.listeners.onPrivateLobbyUpdate?.(state);
+    });
+
+    this.socket.on('private_lobby_kicked', () => {
+      console.log('[Socket] Kicked from private lobby');
+      this.listeners.onPrivateLobbyKicked?.();
+    });
+
     // ---- Match Events ----
 
-    this.socket.on('match_starting', (data: { matchId: MatchId; playerId: PlayerId }) => {
+    this.socket.on('match_starting', (data: { matchId: MatchId; playerId: PlayerId; sessionToken: string }) => {
       this._matchId = data.matchId;
       this._playerId = data.playerId;
       console.log(`[Socket] Match starting: ${data.matchId}`);
       this.listeners.onMatchStarting?.(data);
     });
 
+    this.socket.on('session_resumed', (data: { playerId: PlayerId; username: string; matchId: MatchId | null; keptLobbySpot: boolean; sessionToken: string }) => {
+      this._matchId = data.matchId;
+      this._playerId = data.playerId;
+      console.log(`[Socket] Session resumed as ${data.playerId}${data.matchId ? ` in match ${data.matchId}` : ''}`);
+      this.listeners.onSessionResumed?.(data);
+    });
+
     this.socket.on('phase_change', (data: { matchId: MatchId; phase: MatchPhase; data?: any }) => {
       console.log(`[Socket] Phase change: ${data.phase}`);
       this.listeners.onPhaseChange?.(data);
     });
 
-    this.socket.on('game_state', (snapshot: GameStateSnapshot) => {
-      this.listeners.onGameState?.(snapshot);
+    this.socket.on('game_state', (data: GameStateDelta | ArrayBuffer) => {
+      if (!(data instanceof ArrayBuffer)) {
+        this.listeners.onGameState?.(data);
+        return;
+      }
+
+      if (!this.codec) return;
+      try {
+        this.listeners.onGameState?.(this.codec.decode(data) as GameStateDelta);
+      } catch (err) {
+        // Our intern tables and state baseline can't be trusted after a bad
+        // message. A fresh connection starts both ends' tables over, and the
+        // session resumed on connect begins with a keyframe.
+        console.error('[Socket] Failed to decode game state, reconnecting:', err);
+        this.codec = null;
+        this.socket?.disconnect().connect();
+      }
     });
 
     this.socket.on('match_ended', (result: MatchResult) => {
@@ -163,12 +237,39 @@ class SocketClient {
     this.socket.on('server_info', (data: ServerInfo) => {
       this.listeners.onServerInfo?.(data);
     });
+
+    // ---- Replays ----
+
+    this.socket.on('replay_list', (replays: ReplaySummary[]) => {
+      this.listeners.onReplayList?.(replays);
+    });
+
+    this.socket.on('replay_opened', (data: { status: ReplayStatus; roster: ReplayRosterEntry[]; result: MatchResult }) => {
+      console.log(`[Socket] Replay opened: ${data.status.matchId}`);
+      this.listeners.onReplayOpened?.(data);
+    });
+
+    this.socket.on('replay_state', (data: { status: ReplayStatus; snapshot: GameStateSnapshot; full: boolean }) => {
+      this.listeners.onReplayState?.(data);
+    });
+
+    this.socket.on('replay_status', (status: ReplayStatus) => {
+      this.listeners.onReplayStatus?.(status);
+    });
   }
 
   // ============================================================
   // Client-to-Server Actions
   // ============================================================
 
+  /**
+   * Reclaim a previous identity (and match) after reconnecting.
+   */
+  resumeSession(token: string): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('resume_session', { token });
+  }
+
   /**
    * Join the matchmaking queue with a username.
    */
@@ -189,6 +290,62 @@ class SocketClient {
     this.socket.emit('leave_queue');
   }
 
+  /**
+   * Host a new private lobby.
+   */
+  createPrivateLobby(username: string): void {
+    if (!this.socket?.connected) {
+      console.error('[Socket] Not connected');
+      return;
+    }
+
+    this.socket.emit('create_private_lobby', { username });
+  }
+
+  /**
+   * Join a private lobby by its invite code.
+   */
+  joinPrivateLobby(username: string, code: string): void {
+    if (!this.socket?.connected) {
+      console.error('[Socket] Not connected');
+      return;
+    }
+
+    this.socket.emit('join_private_lobby', { username, code });
+  }
+
+  /**
+   * Leave the current private lobby.
+   */
+  leavePrivateLobby(): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('leave_private_lobby');
+  }
+
+  /**
+   * Host only: remove a player from the private lobby.
+   */
+  kickFromPrivateLobby(playerId: PlayerId): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('private_lobby_kick', { playerId });
+  }
+
+  /**
+   * Host only: change the private lobby's bot settings.
+   */
+  updatePrivateLobbySettings(settings: Partial<PrivateLobbySettings>): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('private_lobby_settings', settings);
+  }
+
+  /**
+   * Host only: start the private lobby's match.
+   */
+  startPrivateLobby(): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('private_lobby_start');
+  }
+
   /**
    * Send a game command to the server.
    */
@@ -198,7 +355,7 @@ class SocketClient {
       return;
     }
 
-    this.socket.emit('game_command', { command });
+    this.socket.emit('game_command', this.codec ? this.codec.encode({ command }) : { command });
   }
 
   /**
@@ -209,6 +366,58 @@ class SocketClient {
     this.socket.emit('request_map');
   }
 
+  /**
+   * Tell the server the client has applied state up to this tick.
+   */
+  ackState(tick: number): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('state_ack', { tick });
+  }
+
+  /**
+   * Ask for a full state keyframe when a delta can't be applied.
+   */
+  requestKeyframe(): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('request_keyframe');
+  }
+
+  /**
+   * Request the list of recorded replays.
+   */
+  listReplays(): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('list_replays');
+  }
+
+  /**
+   * Start watching a recorded match.
+   */
+  openReplay(matchId: MatchId): void {
+    if (!this.socket?.connected) {
+      console.error('[Socket] Not connected');
+      return;
+    }
+
+    this.socket.emit('open_replay', { matchId });
+  }
+
+  /**
+   * Control playback of the open replay.
+   */
+  controlReplay(control: ReplayControl): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('replay_control', control);
+  }
+
+  /**
+   * Stop watching the open replay.
+   */
+  closeReplay(): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('close_replay');
+  }
+
   /**
    * Ping the server and get latency.
    */
@@ -10,20 +10,51 @@ import type {
   MatchId,
   MatchPhase,
   GameStateSnapshot,
+  GameStateDelta,
   VisibleTile,
   SquadSnapshot,
   PlayerPublicInfo,
   GameEvent,
   LobbyState,
+  PrivateLobbyState,
+  PrivateLobbySettings,
+  MatchRules,
+  UnitStats,
+  BuildingCost,
   MatchResult,
   ServerInfo,
   SquadId,
   TerrainType,
+  ReplaySummary,
+  ReplayStatus,
+  ReplayRosterEntry,
+  ReplayControl,
+  UnitCounts,
+  TechStats,
+  ResearchState,
+  DiplomacyState,
+  SupplyRules,
+  DepotInfo,
+  TrainingQueueInfo,
 } from '../types/game';
 import {
   CommandType,
   StructureType,
   UnitType,
+  ArmorType,
+  SquadStance,
+  UNIT_STATS,
+  UNIT_NAMES,
+  RANK_NAMES,
+  TechId,
+  TECHS,
+  TECH_NAMES,
+  DiplomaticStatus,
+  PACT_NAMES,
+  DAMAGE_MODIFIERS,
+  BUILDING_COSTS,
+  BUILDING_HP,
+  SUPPLY,
 } from '../types/game';
 import { socketClient } from '../network/socket';
 
@@ -32,9 +63,39 @@ import { socketClient } from '../network/socket';
 export enum AppScreen {
   Landing = 'landing',
   Queue = 'queue',
+  PrivateLobby = 'private_lobby',
   SpawnSelection = 'spawn_selection',
   Game = 'game',
   Scoreboard = 'scoreboard',
+  Replay = 'replay',
+}
+
+// ---- Session Persistence ----
+
+const SESSION_STORAGE_KEY = 'fracturedCrowns.session';
+
+function loadSessionToken(): string | null {
+  try {
+    return localStorage.getItem(SESSION_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function saveSessionToken(token: string): void {
+  try {
+    localStorage.setItem(SESSION_STORAGE_KEY, token);
+  } catch {
+    // Storage unavailable (private mode) — resuming just won't work
+  }
+}
+
+function clearSessionToken(): void {
+  try {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  } catch {
+    // Ignore
+  }
 }
 
 // ---- Build Mode State ----
@@ -75,6 +136,9 @@ export const useGameStore = defineStore('game', () => {
     timeUntilStart: 180,
   });
 
+  // ---- Private Lobby State ----
+  const privateLobby = ref<PrivateLobbyState | null>(null);
+
   // ---- Server Info ----
   const serverInfo = ref<ServerInfo>({
     activeMatches: 0,
@@ -86,11 +150,26 @@ export const useGameStore = defineStore('game', () => {
   const phase = ref<MatchPhase | null>(null);
   const tick = ref<number>(0);
   const timeRemaining = ref<number>(0);
+  let stateTick = -1; // last game_state applied; -1 until the first keyframe
+
+  // ---- Match Rules (null until the server sends them; Standard applies) ----
+  const rules = ref<MatchRules | null>(null);
 
   // ---- Economy ----
   const myGold = ref<number>(0);
   const myGoldPerSecond = ref<number>(0);
 
+  // ---- Research ----
+  const myResearch = ref<ResearchState | null>(null);
+
+  // ---- Diplomacy ----
+  const myDiplomacy = ref<DiplomacyState | null>(null);
+
+  // ---- Repairs ----
+  const myRepairs = ref<Array<{ x: number; y: number }>>([]);
+  const myDepots = ref<DepotInfo[]>([]);
+  const myTraining = ref<TrainingQueueInfo[]>([]);
+
   // ---- Players ----
   const players = ref<PlayerPublicInfo[]>([]);
 
@@ -119,6 +198,11 @@ export const useGameStore = defineStore('game', () => {
   // ---- Match Result ----
   const matchResult = ref<MatchResult | null>(null);
 
+  // ---- Replays ----
+  const replayList = ref<ReplaySummary[]>([]);
+  const replayStatus = ref<ReplayStatus | null>(null);
+  const replayRoster = ref<ReplayRosterEntry[]>([]);
+
   // ---- UI State ----
   const buildMode = ref<BuildMode>({ active: false, structureType: null });
   const trainUnitType = ref<UnitType | null>(null);
@@ -186,6 +270,34 @@ export const useGameStore = defineStore('game', () => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   });
 
+  const unitStats = computed<Record<UnitType, UnitStats>>(() => {
+    return rules.value?.units ?? UNIT_STATS;
+  });
+
+  const damageModifiers = computed<Record<UnitType, Record<ArmorType, number>>>(() => {
+    return rules.value?.damageModifiers ?? DAMAGE_MODIFIERS;
+  });
+
+  const buildingCosts = computed<Record<StructureType, BuildingCost>>(() => {
+    return rules.value?.buildingCosts ?? BUILDING_COSTS;
+  });
+
+  const buildingHp = computed<Record<StructureType, number>>(() => {
+    return rules.value?.buildingHp ?? BUILDING_HP;
+  });
+
+  const supplyRules = computed<SupplyRules>(() => {
+    return rules.value?.supply ?? SUPPLY;
+  });
+
+  const techs = computed<Record<TechId, TechStats>>(() => {
+    return rules.value?.techs ?? TECHS;
+  });
+
+  const isLobbyHost = computed<boolean>(() => {
+    return !!privateLobby.value && privateLobby.value.hostId === playerId.value;
+  });
+
   const hoveredTile = computed<VisibleTile | undefined>(() => {
     const { hoveredTileX: hx, hoveredTileY: hy } = selection.value;
     if (hx < 0 || hy < 0) return undefined;
@@ -203,6 +315,12 @@ export const useGameStore = defineStore('game', () => {
       onConnect: () => {
         connected.value = true;
         clearError();
+
+        // Reclaim our player (and match) after a refresh or dropped connection
+        const token = loadSessionToken();
+        if (token) {
+          socketClient.resumeSession(token);
+        }
       },
 
       onDisconnect: (_reason: string) => {
@@ -210,6 +328,7 @@ export const useGameStore = defineStore('game', () => {
       },
 
       onQueueJoined: (data) => {
+        saveSessionToken(data.sessionToken);
         playerId.value = data.playerId;
         lobbyState.value = data.lobbyState;
         screen.value = AppScreen.Queue;
@@ -220,16 +339,69 @@ export const useGameStore = defineStore('game', () => {
         lobbyState.value = state;
       },
 
+      onPrivateLobbyJoined: (data) => {
+        saveSessionToken(data.sessionToken);
+        playerId.value = data.playerId;
+        privateLobby.value = data.lobby;
+        screen.value = AppScreen.PrivateLobby;
+        clearError();
+      },
+
+      onPrivateLobbyUpdate: (state) => {
+        privateLobby.value = state;
+      },
+
+      onPrivateLobbyKicked: () => {
+        privateLobby.value = null;
+        screen.value = AppScreen.Landing;
+        setError('You were removed from the lobby');
+      },
+
       onMatchStarting: (data) => {
+        saveSessionToken(data.sessionToken);
         matchId.value = data.matchId;
         playerId.value = data.playerId;
+        privateLobby.value = null;
         // Request map data for spawn selection
         socketClient.requestMap();
       },
 
+      onSessionResumed: (data) => {
+        playerId.value = data.playerId;
+        username.value = data.username;
+
+        if (!data.matchId) {
+          // queue_joined or private_lobby_joined follows with the spot
+          if (data.keptLobbySpot) return;
+
+          clearSessionToken();
+          if (screen.value === AppScreen.Queue) {
+            screen.value = AppScreen.Landing;
+            setError('Lost your place in the queue — please rejoin');
+          } else if (screen.value === AppScreen.PrivateLobby) {
+            privateLobby.value = null;
+            screen.value = AppScreen.Landing;
+            setError('Lost your place in the lobby — please rejoin');
+          }
+          return;
+        }
+
+        saveSessionToken(data.sessionToken);
+        if (matchId.value !== data.matchId) {
+          resetMatchView();
+        }
+        matchId.value = data.matchId;
+        clearError();
+        // Map, phase and a full state follow from the server
+      },
+
       onPhaseChange: (data) => {
         phase.value = data.phase as MatchPhase;
 
+        if (data.data?.rules) {
+          rules.value = data.data.rules;
+        }
+
         if (data.phase === 'spawn_selection') {
           screen.value = AppScreen.SpawnSelection;
           spawnSelected.value = false;
@@ -244,11 +416,16 @@ export const useGameStore = defineStore('game', () => {
         }
       },
 
-      onGameState: (snapshot) => {
-        applyGameState(snapshot);
+      onGameState: (delta) => {
+        if (!applyStateDelta(delta)) {
+          socketClient.requestKeyframe();
+          return;
+        }
+        socketClient.ackState(delta.tick);
       },
 
       onMatchEnded: (result) => {
+        clearSessionToken();
         matchResult.value = result;
         screen.value = AppScreen.Scoreboard;
         phase.value = 'finished' as MatchPhase;
@@ -261,12 +438,42 @@ export const useGameStore = defineStore('game', () => {
       },
 
       onError: (data) => {
+        if (data.code === 'SESSION_INVALID') {
+          // Stale token from an old session; nothing to tell the player
+          clearSessionToken();
+          return;
+        }
         setError(data.message);
       },
 
       onServerInfo: (data) => {
         serverInfo.value = data;
       },
+
+      onReplayList: (replays) => {
+        replayList.value = replays;
+      },
+
+      onReplayOpened: (data) => {
+        resetMatchView();
+        replayStatus.value = data.status;
+        replayRoster.value = data.roster;
+        matchResult.value = data.result;
+        screen.value = AppScreen.Replay;
+        clearError();
+      },
+
+      onReplayState: (data) => {
+        replayStatus.value = data.status;
+        if (data.full) {
+          visibleTiles.value = new Map();
+        }
+        applyGameState(data.snapshot);
+      },
+
+      onReplayStatus: (status) => {
+        replayStatus.value = status;
+      },
     });
   }
 
@@ -289,6 +496,52 @@ export const useGameStore = defineStore('game', () => {
     screen.value = AppScreen.Landing;
   }
 
+  // ============================================================
+  // Actions — Private Lobbies
+  // ============================================================
+
+  function createPrivateLobby(name: string): void {
+    if (!name.trim()) {
+      setError('Please enter a username');
+      return;
+    }
+
+    username.value = name.trim();
+    socketClient.createPrivateLobby(username.value);
+  }
+
+  function joinPrivateLobby(name: string, code: string): void {
+    if (!name.trim()) {
+      setError('Please enter a username');
+      return;
+    }
+    if (!code.trim()) {
+      setError('Please enter an invite code');
+      return;
+    }
+
+    username.value = name.trim();
+    socketClient.joinPrivateLobby(username.value, code.trim().toUpperCase());
+  }
+
+  function leavePrivateLobby(): void {
+    socketClient.leavePrivateLobby();
+    privateLobby.value = null;
+    screen.value = AppScreen.Landing;
+  }
+
+  function kickFromPrivateLobby(id: PlayerId): void {
+    socketClient.kickFromPrivateLobby(id);
+  }
+
+  function updatePrivateLobbySettings(settings: Partial<PrivateLobbySettings>): void {
+    socketClient.updatePrivateLobbySettings(settings);
+  }
+
+  function startPrivateLobby(): void {
+    socketClient.startPrivateLobby();
+  }
+
   // ============================================================
   // Actions — Spawn Selection
   // ============================================================
@@ -311,13 +564,80 @@ export const useGameStore = defineStore('game', () => {
   // Actions — Game Commands
   // ============================================================
 
-  function moveSelectedSquads(targetX: number, targetY: number): void {
+  // `queued` orders run after the squads' current ones instead of replacing them
+
+  function moveSelectedSquads(targetX: number, targetY: number, queued: boolean = false): void {
     for (const squadId of selection.value.selectedSquadIds) {
       socketClient.sendCommand({
         type: CommandType.MoveSquad,
         squadId,
         targetX,
         targetY,
+        queued,
+      });
+    }
+  }
+
+  function attackMoveSelectedSquads(targetX: number, targetY: number, queued: boolean = false): void {
+    for (const squadId of selection.value.selectedSquadIds) {
+      socketClient.sendCommand({
+        type: CommandType.AttackMove,
+        squadId,
+        targetX,
+        targetY,
+        queued,
+      });
+    }
+  }
+
+  function captureAreaWithSelectedSquads(x: number, y: number, queued: boolean = false): void {
+    for (const squadId of selection.value.selectedSquadIds) {
+      socketClient.sendCommand({
+        type: CommandType.CaptureArea,
+        squadId,
+        x,
+        y,
+        queued,
+      });
+    }
+  }
+
+  function patrolSelectedSquads(x: number, y: number): void {
+    for (const squadId of selection.value.selectedSquadIds) {
+      socketClient.sendCommand({
+        type: CommandType.Patrol,
+        squadId,
+        points: [{ x, y }],
+      });
+    }
+  }
+
+  function followWithSelectedSquads(targetSquadId: SquadId): void {
+    for (const squadId of selection.value.selectedSquadIds) {
+      if (squadId === targetSquadId) continue;
+      socketClient.sendCommand({
+        type: CommandType.FollowSquad,
+        squadId,
+        targetSquadId,
+      });
+    }
+  }
+
+  function retreatSelectedSquads(): void {
+    for (const squadId of selection.value.selectedSquadIds) {
+      socketClient.sendCommand({
+        type: CommandType.Retreat,
+        squadId,
+      });
+    }
+  }
+
+  function setSelectedStance(stance: SquadStance): void {
+    for (const squadId of selection.value.selectedSquadIds) {
+      socketClient.sendCommand({
+        type: CommandType.SetStance,
+        squadId,
+        stance,
       });
     }
   }
@@ -336,6 +656,54 @@ export const useGameStore = defineStore('game', () => {
     }
   }
 
+  function cancelConstruction(x: number, y: number): void {
+    socketClient.sendCommand({
+      type: CommandType.CancelConstruction,
+      x,
+      y,
+    });
+  }
+
+  function repairStructure(x: number, y: number): void {
+    socketClient.sendCommand({
+      type: CommandType.RepairStructure,
+      x,
+      y,
+    });
+  }
+
+  function demolishStructure(x: number, y: number): void {
+    socketClient.sendCommand({
+      type: CommandType.DemolishStructure,
+      x,
+      y,
+    });
+  }
+
+  function splitSquad(squadId: SquadId, units: UnitCounts): void {
+    socketClient.sendCommand({
+      type: CommandType.SplitSquad,
+      squadId,
+      units,
+    });
+  }
+
+  function mergeSquads(squadIds: SquadId[]): void {
+    socketClient.sendCommand({
+      type: CommandType.MergeSquads,
+      squadIds,
+    });
+  }
+
+  function transferUnits(fromSquadId: SquadId, toSquadId: SquadId, units: UnitCounts): void {
+    socketClient.sendCommand({
+      type: CommandType.TransferUnits,
+      fromSquadId,
+      toSquadId,
+      units,
+    });
+  }
+
   function trainUnit(unitType: UnitType, buildingX: number, buildingY: number): void {
     socketClient.sendCommand({
       type: CommandType.TrainUnit,
@@ -345,6 +713,43 @@ export const useGameStore = defineStore('game', () => {
     });
   }
 
+  function research(techId: TechId): void {
+    socketClient.sendCommand({
+      type: CommandType.Research,
+      techId,
+    });
+  }
+
+  function proposePact(targetPlayerId: PlayerId, pact: DiplomaticStatus): void {
+    socketClient.sendCommand({
+      type: CommandType.ProposePact,
+      targetPlayerId,
+      pact,
+    });
+  }
+
+  function acceptPact(fromPlayerId: PlayerId): void {
+    socketClient.sendCommand({
+      type: CommandType.AcceptPact,
+      fromPlayerId,
+    });
+  }
+
+  function breakPact(targetPlayerId: PlayerId): void {
+    socketClient.sendCommand({
+      type: CommandType.BreakPact,
+      targetPlayerId,
+    });
+  }
+
+  function sendGold(targetPlayerId: PlayerId, amount: number): void {
+    socketClient.sendCommand({
+      type: CommandType.SendGold,
+      targetPlayerId,
+      amount,
+    });
+  }
+
   function setRallyPoint(buildingX: number, buildingY: number, rallyX: number, rallyY: number): void {
     socketClient.sendCommand({
       type: CommandType.RallyPoint,
@@ -355,6 +760,27 @@ export const useGameStore = defineStore('game', () => {
     });
   }
 
+  // ============================================================
+  // Actions — Replays
+  // ============================================================
+
+  function listReplays(): void {
+    socketClient.listReplays();
+  }
+
+  function openReplay(id: MatchId): void {
+    socketClient.openReplay(id);
+  }
+
+  function controlReplay(control: ReplayControl): void {
+    socketClient.controlReplay(control);
+  }
+
+  function closeReplay(): void {
+    socketClient.closeReplay();
+    goToLanding();
+  }
+
   // ============================================================
   // Actions — UI State
   // ============================================================
@@ -410,12 +836,59 @@ export const useGameStore = defineStore('game', () => {
   // Actions — State Application
   // ============================================================
 
+  /**
+   * Patch the current state with a delta from the server. Returns false if
+   * the delta builds on state this client never received.
+   */
+  function applyStateDelta(delta: GameStateDelta): boolean {
+    if (!delta.keyframe && stateTick < delta.baseTick) return false;
+
+    let nextSquads = delta.squads;
+    let nextPlayers = delta.players;
+
+    if (!delta.keyframe) {
+      const squadMap = new Map(squads.value.map(s => [s.id, s]));
+      for (const id of delta.removedSquadIds) squadMap.delete(id);
+      for (const squad of delta.squads) squadMap.set(squad.id, squad);
+      nextSquads = Array.from(squadMap.values());
+
+      const playerMap = new Map(players.value.map(p => [p.id, p]));
+      for (const player of delta.players) playerMap.set(player.id, player);
+      nextPlayers = Array.from(playerMap.values());
+    }
+
+    applyGameState({
+      tick: delta.tick,
+      phase: delta.phase,
+      timeRemaining: delta.timeRemaining,
+      players: nextPlayers,
+      myGold: delta.myGold,
+      myGoldPerSecond: delta.myGoldPerSecond,
+      myResearch: delta.myResearch,
+      myDiplomacy: delta.myDiplomacy,
+      myRepairs: delta.myRepairs,
+      myDepots: delta.myDepots,
+      myTraining: delta.myTraining,
+      visibleTiles: delta.tiles,
+      squads: nextSquads,
+      events: delta.events,
+    });
+
+    stateTick = delta.tick;
+    return true;
+  }
+
   function applyGameState(snapshot: GameStateSnapshot): void {
     tick.value = snapshot.tick;
     phase.value = snapshot.phase;
     timeRemaining.value = snapshot.timeRemaining;
     myGold.value = snapshot.myGold;
     myGoldPerSecond.value = snapshot.myGoldPerSecond;
+    myResearch.value = snapshot.myResearch;
+    myDiplomacy.value = snapshot.myDiplomacy;
+    myRepairs.value = snapshot.myRepairs;
+    myDepots.value = snapshot.myDepots;
+    myTraining.value = snapshot.myTraining;
     players.value = snapshot.players;
     squads.value = snapshot.squads;
     gameEvents.value = snapshot.events;
@@ -437,6 +910,8 @@ export const useGameStore = defineStore('game', () => {
       id => existingIds.has(id)
     );
 
+    const nameOf = (id: unknown) => snapshot.players.find(p => p.id === id)?.username ?? 'Someone';
+
     // Process events into log
     for (const event of snapshot.events) {
       let message = '';
@@ -448,12 +923,99 @@ export const useGameStore = defineStore('game', () => {
           message = `A structure was destroyed at (${event.data.x}, ${event.data.y})`;
           break;
         case 'build':
+          if (event.data.playerId === playerId.value) {
+            message = `Started building ${event.data.structureType}`;
+          }
+          break;
+        case 'construction_complete':
           if (event.data.playerId === playerId.value) {
             message = `Built ${event.data.structureType}`;
           }
           break;
+        case 'construction_cancelled':
+          if (event.data.playerId === playerId.value) {
+            message = `Cancelled ${event.data.structureType} (+${event.data.refund} gold)`;
+          }
+          break;
+        case 'repair_started':
+          if (event.data.playerId === playerId.value) {
+            message = `Repairing ${event.data.structureType}`;
+          }
+          break;
+        case 'repair_complete':
+          if (event.data.playerId === playerId.value) {
+            message = `Repaired ${event.data.structureType} at (${event.data.x}, ${event.data.y})`;
+          }
+          break;
+        case 'structure_demolished':
+          if (event.data.playerId === playerId.value) {
+            message = `Demolished ${event.data.structureType} (+${event.data.refund} gold)`;
+          }
+          break;
+        case 'order_failed':
+          if (event.data.playerId === playerId.value) {
+            message = `Can't reach (${event.data.x}, ${event.data.y})`;
+          }
+          break;
+        case 'research_started':
+          if (event.data.playerId === playerId.value) {
+            message = `Researching ${TECH_NAMES[event.data.techId as TechId]}`;
+          }
+          break;
+        case 'research_complete':
+          if (event.data.playerId === playerId.value) {
+            message = `Researched ${TECH_NAMES[event.data.techId as TechId]}`;
+          }
+          break;
+        case 'pact_proposed': {
+          const pact = PACT_NAMES[event.data.pact as DiplomaticStatus];
+          if (event.data.toId === playerId.value) {
+            message = `${nameOf(event.data.fromId)} offers you a ${pact.toLowerCase()} pact`;
+          } else if (event.data.fromId === playerId.value) {
+            message = `Offered a ${pact.toLowerCase()} pact to ${nameOf(event.data.toId)}`;
+          }
+          break;
+        }
+        case 'pact_formed':
+          message = `${nameOf(event.data.fromId)} and ${nameOf(event.data.toId)} formed a ${PACT_NAMES[event.data.pact as DiplomaticStatus].toLowerCase()} pact`;
+          break;
+        case 'pact_broken':
+          message = `${nameOf(event.data.breakerId)} broke their pact with ${nameOf(event.data.otherId)}!`;
+          break;
+        case 'tribute_received':
+          if (event.data.toId === playerId.value) {
+            message = `${nameOf(event.data.fromId)} sent you ${event.data.amount} gold`;
+          } else if (event.data.fromId === playerId.value) {
+            message = `Sent ${event.data.amount} gold to ${nameOf(event.data.toId)} (${(event.data.sent as number) - (event.data.amount as number)} lost to tax)`;
+          } else {
+            message = `${nameOf(event.data.fromId)} sent gold to ${nameOf(event.data.toId)}`;
+          }
+          break;
+        case 'unit_promoted':
+          if (event.data.playerId === playerId.value) {
+            const unitType = event.data.unitType as UnitType;
+            message = `${UNIT_NAMES[unitType]} promoted to ${RANK_NAMES[event.data.rank as number] ?? `rank ${event.data.rank}`}`;
+          }
+          break;
+        case 'depot_established':
+          if (event.data.playerId === playerId.value) {
+            message = `Depot at (${event.data.x}, ${event.data.y}) established`;
+          }
+          break;
+        case 'depot_cut':
+          if (event.data.playerId === playerId.value) {
+            message = `Depot at (${event.data.x}, ${event.data.y}) cut off from supply`;
+          }
+          break;
+        case 'attrition':
+          if (event.data.playerId === playerId.value) {
+            const lost = event.data.lost as number;
+            message = `Lost ${lost} unit${lost === 1 ? '' : 's'} to attrition at (${event.data.x}, ${event.data.y})`;
+          }
+          break;
         case 'tower_fire':
-          // Don't log tower fires, too noisy
+        case 'ranged_attack':
+          // Don't log tower fires or volleys, too noisy
           continue;
         default:
           message = `${event.type}`;
@@ -506,10 +1068,25 @@ export const useGameStore = defineStore('game', () => {
   function goToLanding(): void {
     screen.value = AppScreen.Landing;
     matchId.value = null;
-    phase.value = null;
     matchResult.value = null;
+    resetMatchView();
+    socketClient.resetMatchState();
+  }
+
+  /**
+   * Clear everything the game and replay views render from.
+   */
+  function resetMatchView(): void {
+    stateTick = -1;
+    phase.value = null;
+    rules.value = null;
     myGold.value = 0;
     myGoldPerSecond.value = 0;
+    myResearch.value = null;
+    myDiplomacy.value = null;
+    myRepairs.value = [];
+    myDepots.value = [];
+    myTraining.value = [];
     players.value = [];
     squads.value = [];
     visibleTiles.value = new Map();
@@ -523,7 +1100,8 @@ export const useGameStore = defineStore('game', () => {
     cameraX.value = 60;
     cameraY.value = 60;
     cameraZoom.value = 1;
-    socketClient.resetMatchState();
+    replayStatus.value = null;
+    replayRoster.value = [];
   }
 
   // ============================================================
@@ -555,12 +1133,19 @@ export const useGameStore = defineStore('game', () => {
     playerId,
     matchId,
     lobbyState,
+    privateLobby,
     serverInfo,
     phase,
     tick,
     timeRemaining,
+    rules,
     myGold,
     myGoldPerSecond,
+    myResearch,
+    myDiplomacy,
+    myRepairs,
+    myDepots,
+    myTraining,
     players,
     mapWidth,
     mapHeight,
@@ -572,6 +1157,9 @@ export const useGameStore = defineStore('game', () => {
     spawnLocations,
     spawnSelected,
     matchResult,
+    replayList,
+    replayStatus,
+    replayRoster,
     buildMode,
     trainUnitType,
     selection,
@@ -592,17 +1180,51 @@ export const useGameStore = defineStore('game', () => {
     myTerritory,
     sortedPlayers,
     formattedTimeRemaining,
+    unitStats,
+    damageModifiers,
+    buildingCosts,
+    buildingHp,
+    supplyRules,
+    techs,
+    isLobbyHost,
     hoveredTile,
 
     // Actions
     initializeSocket,
     joinQueue,
     leaveQueue,
+    createPrivateLobby,
+    joinPrivateLobby,
+    leavePrivateLobby,
+    kickFromPrivateLobby,
+    updatePrivateLobbySettings,
+    startPrivateLobby,
     selectSpawn,
     moveSelectedSquads,
+    attackMoveSelectedSquads,
+    captureAreaWithSelectedSquads,
+    patrolSelectedSquads,
+    followWithSelectedSquads,
+    retreatSelectedSquads,
+    setSelectedStance,
     buildStructure,
+    cancelConstruction,
+    repairStructure,
+    demolishStructure,
+    splitSquad,
+    mergeSquads,
+    transferUnits,
     trainUnit,
+    research,
+    proposePact,
+    acceptPact,
+    breakPact,
+    sendGold,
     setRallyPoint,
+    listReplays,
+    openReplay,
+    controlReplay,
+    closeReplay,
     enterBuildMode,
     exitBuildMode,
     selectSquad,
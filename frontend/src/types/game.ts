@@ -26,6 +26,7 @@ export enum StructureType {
   Tower = "tower",
   MineUpgrade = "mine_upgrade",
   Road = "road",
+  Depot = "depot",
 }
 
 export enum UnitType {
@@ -36,6 +37,31 @@ export enum UnitType {
   SiegeRam = "siege_ram",
 }
 
+export enum ArmorType {
+  Unarmored = "unarmored",
+  Light = "light",
+  Heavy = "heavy",
+  Mounted = "mounted",
+  Siege = "siege",
+}
+
+export enum SquadStance {
+  Aggressive = "aggressive",
+  Defensive = "defensive",
+  HoldPosition = "hold_position",
+  Passive = "passive",
+}
+
+export enum SquadOrder {
+  Idle = "idle",
+  Move = "move",
+  AttackMove = "attack_move",
+  Patrol = "patrol",
+  Follow = "follow",
+  Retreat = "retreat",
+  CaptureArea = "capture_area",
+}
+
 export enum MatchPhase {
   Waiting = "waiting",
   SpawnSelection = "spawn_selection",
@@ -49,6 +75,29 @@ export enum CommandType {
   BuildStructure = "build_structure",
   TrainUnit = "train_unit",
   RallyPoint = "rally_point",
+  CancelConstruction = "cancel_construction",
+  RepairStructure = "repair_structure",
+  DemolishStructure = "demolish_structure",
+  SplitSquad = "split_squad",
+  MergeSquads = "merge_squads",
+  TransferUnits = "transfer_units",
+  SetStance = "set_stance",
+  AttackMove = "attack_move",
+  Patrol = "patrol",
+  FollowSquad = "follow_squad",
+  Retreat = "retreat",
+  CaptureArea = "capture_area",
+  Research = "research",
+  ProposePact = "propose_pact",
+  AcceptPact = "accept_pact",
+  BreakPact = "break_pact",
+  SendGold = "send_gold",
+}
+
+export interface SquadWaypoint {
+  order: SquadOrder;
+  x: number;
+  y: number;
 }
 
 // ---- Unit Stats ----
@@ -60,6 +109,7 @@ export interface UnitStats {
   cost: number;
   range: number;
   trainTime: number;
+  armor: ArmorType;
 }
 
 export const UNIT_STATS: Record<UnitType, UnitStats> = {
@@ -70,6 +120,7 @@ export const UNIT_STATS: Record<UnitType, UnitStats> = {
     cost: 20,
     range: 1,
     trainTime: 3,
+    armor: ArmorType.Unarmored,
   },
   [UnitType.Soldier]: {
     maxHp: 70,
@@ -78,6 +129,7 @@ export const UNIT_STATS: Record<UnitType, UnitStats> = {
     cost: 50,
     range: 1,
     trainTime: 5,
+    armor: ArmorType.Heavy,
   },
   [UnitType.Knight]: {
     maxHp: 120,
@@ -86,6 +138,7 @@ export const UNIT_STATS: Record<UnitType, UnitStats> = {
     cost: 120,
     range: 1,
     trainTime: 8,
+    armor: ArmorType.Mounted,
   },
   [UnitType.Archer]: {
     maxHp: 35,
@@ -94,6 +147,7 @@ export const UNIT_STATS: Record<UnitType, UnitStats> = {
     cost: 60,
     range: 4,
     trainTime: 5,
+    armor: ArmorType.Light,
   },
   [UnitType.SiegeRam]: {
     maxHp: 200,
@@ -102,9 +156,121 @@ export const UNIT_STATS: Record<UnitType, UnitStats> = {
     cost: 200,
     range: 1,
     trainTime: 12,
+    armor: ArmorType.Siege,
   },
 };
 
+// Damage multiplier by attacker unit type and target armor
+export const DAMAGE_MODIFIERS: Record<UnitType, Record<ArmorType, number>> = {
+  [UnitType.Militia]: {
+    [ArmorType.Unarmored]: 1.0,
+    [ArmorType.Light]: 1.0,
+    [ArmorType.Heavy]: 0.75,
+    [ArmorType.Mounted]: 0.75,
+    [ArmorType.Siege]: 1.0,
+  },
+  [UnitType.Soldier]: {
+    [ArmorType.Unarmored]: 1.0,
+    [ArmorType.Light]: 1.0,
+    [ArmorType.Heavy]: 1.0,
+    [ArmorType.Mounted]: 1.75,
+    [ArmorType.Siege]: 1.0,
+  },
+  [UnitType.Knight]: {
+    [ArmorType.Unarmored]: 1.25,
+    [ArmorType.Light]: 2.0,
+    [ArmorType.Heavy]: 0.6,
+    [ArmorType.Mounted]: 1.0,
+    [ArmorType.Siege]: 1.0,
+  },
+  [UnitType.Archer]: {
+    [ArmorType.Unarmored]: 2.5,
+    [ArmorType.Light]: 1.0,
+    [ArmorType.Heavy]: 0.5,
+    [ArmorType.Mounted]: 0.75,
+    [ArmorType.Siege]: 0.25,
+  },
+  [UnitType.SiegeRam]: {
+    [ArmorType.Unarmored]: 0.25,
+    [ArmorType.Light]: 0.25,
+    [ArmorType.Heavy]: 0.25,
+    [ArmorType.Mounted]: 0.25,
+    [ArmorType.Siege]: 0.25,
+  },
+};
+
+// ---- Veterancy ----
+
+/**
+ * Bonuses are relative to the unit's base stats and replace, rather than
+ * add to, those of the rank below.
+ */
+export interface VeterancyRank {
+  xp: number; // experience needed to reach the rank
+  hpBonus: number; // 0.1 = +10% max HP
+  damageBonus: number;
+  speedBonus: number;
+}
+
+export interface VeterancyRules {
+  xpPerGold: number; // per gold's worth of enemy HP destroyed
+  killBonus: number; // extra experience for the killing blow
+  ranks: VeterancyRank[]; // rank 1 upwards; rank 0 is a fresh recruit
+}
+
+export const VETERANCY: VeterancyRules = {
+  xpPerGold: 1,
+  killBonus: 10,
+  ranks: [
+    { xp: 50, hpBonus: 0.1, damageBonus: 0.1, speedBonus: 0 },
+    { xp: 150, hpBonus: 0.2, damageBonus: 0.2, speedBonus: 0.05 },
+    { xp: 350, hpBonus: 0.3, damageBonus: 0.35, speedBonus: 0.1 },
+  ],
+};
+
+// ---- Supply ----
+
+/**
+ * Squads heal on their own connected land (or an ally's) and wear down
+ * after too long in enemy or cut-off territory. Depots supply the land
+ * around them once a road chain links them to the capital or they have
+ * been held, supplied, for long enough.
+ */
+export interface SupplyRules {
+  healRate: number; // share of max HP regained per second while supplied and out of combat
+  attritionGrace: number; // seconds out of supply before attrition starts
+  attritionRate: number; // share of max HP lost per second after that
+  depotRadius: number; // tiles around an active depot that it keeps connected
+  depotEstablishTime: number; // seconds a depot must stay supplied before it supplies itself
+}
+
+export const SUPPLY: SupplyRules = {
+  healRate: 0.01,
+  attritionGrace: 30,
+  attritionRate: 0.02,
+  depotRadius: 6,
+  depotEstablishTime: 60,
+};
+
+export interface DepotInfo {
+  x: number;
+  y: number;
+  heldFor: number; // whole seconds
+  active: boolean; // supplying the land around it
+}
+
+export interface TrainingQueueInfo {
+  x: number;
+  y: number;
+  units: UnitType[]; // paid for, the one in training first
+}
+
+export enum SupplyStatus {
+  Supplied = "supplied", // own or allied connected land
+  Neutral = "neutral", // unclaimed land; the attrition clock neither runs nor resets
+  Unsupplied = "unsupplied", // enemy land, or own land cut off from the capital
+}
+
 // ---- Building Costs ----
 
 export interface BuildingCost {
@@ -119,6 +285,7 @@ export const BUILDING_COSTS: Record<StructureType, BuildingCost> = {
   [StructureType.Tower]: { gold: 100, buildTime: 6 },
   [StructureType.MineUpgrade]: { gold: 200, buildTime: 10 },
   [StructureType.Road]: { gold: 15, buildTime: 1 },
+  [StructureType.Depot]: { gold: 175, buildTime: 12 },
 };
 
 export const BUILDING_HP: Record<StructureType, number> = {
@@ -128,8 +295,105 @@ export const BUILDING_HP: Record<StructureType, number> = {
   [StructureType.Tower]: 150,
   [StructureType.MineUpgrade]: 100,
   [StructureType.Road]: 30,
+  [StructureType.Depot]: 250,
 };
 
+// ---- Research ----
+
+export enum TechId {
+  Forging = "forging",
+  Tempering = "tempering",
+  ChainMail = "chain_mail",
+  PlateArmor = "plate_armor",
+  Horseshoes = "horseshoes",
+  Masonry = "masonry",
+  Ballistics = "ballistics",
+  Heraldry = "heraldry",
+  Scouting = "scouting",
+  Administration = "administration",
+  Bureaucracy = "bureaucracy",
+}
+
+export interface TechEffects {
+  unitHp: number;
+  unitDamage: number;
+  unitSpeed: number;
+  towerDamage: number;
+  towerRange: number;
+  captureRate: number;
+  visionRadius: number;
+  expansionRelief: number;
+}
+
+export interface TechStats {
+  cost: number;
+  researchTime: number;
+  requires: TechId[];
+  effects: Partial<TechEffects>;
+}
+
+export const TECHS: Record<TechId, TechStats> = {
+  [TechId.Forging]: { cost: 150, researchTime: 40, requires: [], effects: { unitDamage: 0.1 } },
+  [TechId.Tempering]: { cost: 300, researchTime: 60, requires: [TechId.Forging], effects: { unitDamage: 0.15 } },
+  [TechId.ChainMail]: { cost: 150, researchTime: 40, requires: [], effects: { unitHp: 0.1 } },
+  [TechId.PlateArmor]: { cost: 300, researchTime: 60, requires: [TechId.ChainMail], effects: { unitHp: 0.15 } },
+  [TechId.Horseshoes]: { cost: 200, researchTime: 45, requires: [], effects: { unitSpeed: 0.1 } },
+  [TechId.Masonry]: { cost: 150, researchTime: 40, requires: [], effects: { towerDamage: 0.25 } },
+  [TechId.Ballistics]: { cost: 250, researchTime: 60, requires: [TechId.Masonry], effects: { towerRange: 1 } },
+  [TechId.Heraldry]: { cost: 150, researchTime: 40, requires: [], effects: { captureRate: 0.25 } },
+  [TechId.Scouting]: { cost: 100, researchTime: 30, requires: [], effects: { visionRadius: 2 } },
+  [TechId.Administration]: { cost: 250, researchTime: 60, requires: [], effects: { expansionRelief: 0.25 } },
+  [TechId.Bureaucracy]: { cost: 400, researchTime: 90, requires: [TechId.Administration], effects: { expansionRelief: 0.25 } },
+};
+
+export interface ResearchState {
+  completed: TechId[];
+  current: TechId | null;
+  progress: number; // 0–1 through the current tech
+}
+
+// ---- Teams ----
+
+export enum TeamMode {
+  FreeForAll = "ffa",
+  TwoVsTwo = "2v2",
+  FourVsFour = "4v4",
+  FiveTeamsOfFour = "5x4",
+}
+
+export interface TeamLayout {
+  teams: number;
+  teamSize: number;
+}
+
+export const TEAM_LAYOUTS: Record<TeamMode, TeamLayout | null> = {
+  [TeamMode.FreeForAll]: null,
+  [TeamMode.TwoVsTwo]: { teams: 2, teamSize: 2 },
+  [TeamMode.FourVsFour]: { teams: 2, teamSize: 4 },
+  [TeamMode.FiveTeamsOfFour]: { teams: 5, teamSize: 4 },
+};
+
+// ---- Diplomacy ----
+
+export enum DiplomaticStatus {
+  War = "war",
+  NonAggression = "non_aggression",
+  Alliance = "alliance",
+}
+
+export interface PactProposal {
+  fromId: PlayerId;
+  toId: PlayerId;
+  pact: DiplomaticStatus;
+  expiresIn: number; // seconds
+}
+
+export interface DiplomacyState {
+  proposals: PactProposal[]; // made by or to this player
+  cooldowns: Array<{ playerId: PlayerId; remaining: number }>; // players we broke a pact with, seconds left
+  tributeCooldown: number; // seconds until we can send gold again
+}
+
 // ---- Network Events (Server → Client) ----
 
 export interface PlayerPublicInfo {
@@ -140,6 +404,9 @@ export interface PlayerPublicInfo {
   score: number;
   isBot: boolean;
   territoryCount: number;
+  allies: PlayerId[];
+  nonAggression: PlayerId[];
+  team: number | null; // null in free-for-all
 }
 
 export interface VisibleTile {
@@ -151,6 +418,7 @@ export interface VisibleTile {
   structureHp: number;
   captureProgress: number;
   capturingPlayerId: PlayerId | null;
+  constructionProgress: number; // 0–1, 1 = complete
 }
 
 export interface SquadSnapshot {
@@ -164,11 +432,18 @@ export interface SquadSnapshot {
   totalHp: number;
   maxHp: number;
   composition: Partial<Record<UnitType, number>>;
+  ranks: Partial<Record<UnitType, number[]>>; // units of each type per rank, index 0 = recruits
+  stance: SquadStance;
+  order: SquadOrder | null; // null for other players' squads
+  waypoints: SquadWaypoint[]; // queued orders; empty for other players' squads
+  supply: SupplyStatus | null; // null for other players' squads
+  unsuppliedFor: number; // whole seconds; 0 for other players' squads
 }
 
 export interface GameEvent {
   type: string;
   data: Record<string, unknown>;
+  recipients?: PlayerId[];
 }
 
 export interface GameStateSnapshot {
@@ -178,11 +453,40 @@ export interface GameStateSnapshot {
   players: PlayerPublicInfo[];
   myGold: number;
   myGoldPerSecond: number;
+  myResearch: ResearchState | null; // null for spectators
+  myDiplomacy: DiplomacyState | null; // null for spectators
+  myRepairs: Array<{ x: number; y: number }>; // structures we are repairing
+  myDepots: DepotInfo[]; // our finished depots
+  myTraining: TrainingQueueInfo[]; // our non-empty training queues
   visibleTiles: VisibleTile[];
   squads: SquadSnapshot[];
   events: GameEvent[];
 }
 
+/**
+ * Per-player game state patch. Applies on top of the state the client had
+ * at `baseTick`; keyframes replace squads and players outright.
+ */
+export interface GameStateDelta {
+  tick: number;
+  baseTick: number;
+  keyframe: boolean;
+  phase: MatchPhase;
+  timeRemaining: number;
+  myGold: number;
+  myGoldPerSecond: number;
+  myResearch: ResearchState | null;
+  myDiplomacy: DiplomacyState | null;
+  myRepairs: Array<{ x: number; y: number }>;
+  myDepots: DepotInfo[];
+  myTraining: TrainingQueueInfo[];
+  tiles: VisibleTile[];
+  squads: SquadSnapshot[];
+  removedSquadIds: SquadId[];
+  players: PlayerPublicInfo[];
+  events: GameEvent[];
+}
+
 // ---- Commands (Client → Server) ----
 
 export interface SelectSpawnCommand {
@@ -196,6 +500,7 @@ export interface MoveSquadCommand {
   squadId: SquadId;
   targetX: number;
   targetY: number;
+  queued?: boolean;
 }
 
 export interface BuildStructureCommand {
@@ -220,12 +525,134 @@ export interface RallyPointCommand {
   rallyY: number;
 }
 
+export interface CancelConstructionCommand {
+  type: CommandType.CancelConstruction;
+  x: number;
+  y: number;
+}
+
+export interface RepairStructureCommand {
+  type: CommandType.RepairStructure;
+  x: number;
+  y: number;
+}
+
+export interface DemolishStructureCommand {
+  type: CommandType.DemolishStructure;
+  x: number;
+  y: number;
+}
+
+// Units to move out of a squad, by type
+export type UnitCounts = Partial<Record<UnitType, number>>;
+
+export interface SplitSquadCommand {
+  type: CommandType.SplitSquad;
+  squadId: SquadId;
+  units: UnitCounts; // units that leave to form the new squad
+}
+
+export interface MergeSquadsCommand {
+  type: CommandType.MergeSquads;
+  squadIds: SquadId[]; // the first squad absorbs the rest
+}
+
+export interface TransferUnitsCommand {
+  type: CommandType.TransferUnits;
+  fromSquadId: SquadId;
+  toSquadId: SquadId;
+  units: UnitCounts;
+}
+
+export interface SetStanceCommand {
+  type: CommandType.SetStance;
+  squadId: SquadId;
+  stance: SquadStance;
+}
+
+export interface AttackMoveCommand {
+  type: CommandType.AttackMove;
+  squadId: SquadId;
+  targetX: number;
+  targetY: number;
+  queued?: boolean;
+}
+
+export interface CaptureAreaCommand {
+  type: CommandType.CaptureArea;
+  squadId: SquadId;
+  x: number;
+  y: number;
+  queued?: boolean;
+}
+
+export interface PatrolCommand {
+  type: CommandType.Patrol;
+  squadId: SquadId;
+  points: Array<{ x: number; y: number }>;
+}
+
+export interface FollowSquadCommand {
+  type: CommandType.FollowSquad;
+  squadId: SquadId;
+  targetSquadId: SquadId;
+}
+
+export interface RetreatCommand {
+  type: CommandType.Retreat;
+  squadId: SquadId;
+}
+
+export interface ResearchCommand {
+  type: CommandType.Research;
+  techId: TechId;
+}
+
+export interface ProposePactCommand {
+  type: CommandType.ProposePact;
+  targetPlayerId: PlayerId;
+  pact: DiplomaticStatus;
+}
+
+export interface AcceptPactCommand {
+  type: CommandType.AcceptPact;
+  fromPlayerId: PlayerId;
+}
+
+export interface BreakPactCommand {
+  type: CommandType.BreakPact;
+  targetPlayerId: PlayerId;
+}
+
+export interface SendGoldCommand {
+  type: CommandType.SendGold;
+  targetPlayerId: PlayerId;
+  amount: number;
+}
+
 export type GameCommand =
   | SelectSpawnCommand
   | MoveSquadCommand
   | BuildStructureCommand
   | TrainUnitCommand
-  | RallyPointCommand;
+  | RallyPointCommand
+  | CancelConstructionCommand
+  | RepairStructureCommand
+  | DemolishStructureCommand
+  | SplitSquadCommand
+  | MergeSquadsCommand
+  | TransferUnitsCommand
+  | SetStanceCommand
+  | AttackMoveCommand
+  | PatrolCommand
+  | FollowSquadCommand
+  | RetreatCommand
+  | CaptureAreaCommand
+  | ResearchCommand
+  | ProposePactCommand
+  | AcceptPactCommand
+  | BreakPactCommand
+  | SendGoldCommand;
 
 // ---- Lobby / Queue ----
 
@@ -235,6 +662,89 @@ export interface LobbyState {
   timeUntilStart: number;
 }
 
+// ---- Match Rules ----
+
+export enum RulePreset {
+  Standard = "standard",
+  Blitz = "blitz",
+  Duel = "duel",
+  EconomyHeavy = "economy_heavy",
+}
+
+export interface EconomyRules {
+  baseMineIncome: number;
+  mineUpgradeBonus: number;
+  passiveTerritoryIncome: number;
+  startingGold: number;
+  expansionPenaltyDivisor: number;
+  expansionPenaltyExponent: number;
+  cancelRefundRatio: number;
+  repairRate: number;
+  repairCostPerHp: number;
+  demolishRefundRatio: number;
+  tributeInterval: number;
+  tributeTax: number;
+}
+
+export interface TowerStats {
+  damage: number;
+  range: number;
+  fireRate: number;
+}
+
+export interface MatchRules {
+  maxPlayers: number;
+  mapWidth: number;
+  mapHeight: number;
+  spawnPhaseDuration: number;
+  matchDuration: number;
+  minSpawnDistance: number;
+  captureRate: number;
+  captureThreshold: number;
+  fogOfWarRadius: number;
+  supplyCheckInterval: number;
+  pactProposalTimeout: number;
+  betrayalCooldown: number;
+  economy: EconomyRules;
+  units: Record<UnitType, UnitStats>;
+  damageModifiers: Record<UnitType, Record<ArmorType, number>>;
+  veterancy: VeterancyRules;
+  buildingCosts: Record<StructureType, BuildingCost>;
+  buildingHp: Record<StructureType, number>;
+  tower: TowerStats;
+  supply: SupplyRules;
+  techs: Record<TechId, TechStats>;
+}
+
+// ---- Private Lobbies ----
+
+export enum BotDifficulty {
+  Easy = "easy",
+  Normal = "normal",
+  Hard = "hard",
+}
+
+export interface PrivateLobbySettings {
+  botCount: number;
+  botDifficulty: BotDifficulty;
+  rulePreset: RulePreset;
+  teamMode: TeamMode;
+}
+
+export interface PrivateLobbyMember {
+  playerId: PlayerId;
+  username: string;
+  team: number | null;
+}
+
+export interface PrivateLobbyState {
+  code: string;
+  hostId: PlayerId;
+  members: PrivateLobbyMember[];
+  settings: PrivateLobbySettings;
+  maxPlayers: number;
+}
+
 // ---- Scoreboard ----
 
 export interface ScoreEntry {
@@ -246,6 +756,17 @@ export interface ScoreEntry {
   unitsKilled: number;
   unitsLost: number;
   goldEarned: number;
+  goldSent: number;
+  goldReceived: number;
+  alive: boolean;
+  placement: number;
+  team: number | null;
+}
+
+export interface TeamScore {
+  team: number;
+  playerIds: PlayerId[];
+  score: number;
   alive: boolean;
   placement: number;
 }
@@ -254,9 +775,49 @@ export interface MatchResult {
   matchId: MatchId;
   duration: number;
   scores: ScoreEntry[];
+  teams: TeamScore[]; // empty in free-for-all
+  winnerId: PlayerId | null;
+  winningTeam: number | null;
+}
+
+// ---- Replays ----
+
+export interface ReplayRosterEntry {
+  id: PlayerId;
+  username: string;
+  isBot: boolean;
+  color: string;
+  team?: number | null;
+}
+
+export interface ReplaySummary {
+  matchId: MatchId;
+  recordedAt: number;
+  duration: number;
+  totalTicks: number;
+  roster: ReplayRosterEntry[];
   winnerId: PlayerId | null;
 }
 
+export interface ReplayStatus {
+  matchId: MatchId;
+  tick: number;
+  totalTicks: number;
+  playing: boolean;
+  speed: number;
+  perspective: PlayerId | null; // null = whole map
+  seeking: boolean;
+}
+
+export interface ReplayControl {
+  action: "play" | "pause" | "seek" | "speed" | "perspective";
+  tick?: number;
+  speed?: number;
+  perspective?: PlayerId | null;
+}
+
+export const REPLAY_SPEEDS: number[] = [0.25, 0.5, 1, 2, 4, 8];
+
 // ---- Match Config (client-side constants) ----
 
 export const MATCH_CONFIG = {
@@ -267,6 +828,9 @@ export const MATCH_CONFIG = {
   SPAWN_PHASE_DURATION: 15,
   MATCH_DURATION: 25 * 60,
   FOG_OF_WAR_RADIUS: 8,
+  MAX_SQUAD_SIZE: 20,
+  SQUAD_MERGE_DISTANCE: 2,
+  CAPTURE_AREA_RADIUS: 2,
 };
 
 // ---- Player Colors ----
@@ -303,6 +867,7 @@ export const STRUCTURE_NAMES: Record<StructureType, string> = {
   [StructureType.Tower]: "Tower",
   [StructureType.MineUpgrade]: "Mine Upgrade",
   [StructureType.Road]: "Road",
+  [StructureType.Depot]: "Depot",
 };
 
 // ---- Unit Display Names ----
@@ -315,6 +880,112 @@ export const UNIT_NAMES: Record<UnitType, string> = {
   [UnitType.SiegeRam]: "Siege Ram",
 };
 
+// ---- Veterancy Rank Names ----
+
+// Index 0 is an unpromoted recruit
+export const RANK_NAMES: string[] = ["Recruit", "Veteran", "Elite", "Champion"];
+
+// ---- Armor Display Names ----
+
+export const ARMOR_NAMES: Record<ArmorType, string> = {
+  [ArmorType.Unarmored]: "Unarmored",
+  [ArmorType.Light]: "Light",
+  [ArmorType.Heavy]: "Heavy",
+  [ArmorType.Mounted]: "Mounted",
+  [ArmorType.Siege]: "Siege",
+};
+
+// ---- Squad Stance / Order Display Names ----
+
+export const STANCE_NAMES: Record<SquadStance, string> = {
+  [SquadStance.Aggressive]: "Aggressive",
+  [SquadStance.Defensive]: "Defensive",
+  [SquadStance.HoldPosition]: "Hold Position",
+  [SquadStance.Passive]: "Passive",
+};
+
+export const ORDER_NAMES: Record<SquadOrder, string> = {
+  [SquadOrder.Idle]: "Idle",
+  [SquadOrder.Move]: "Moving",
+  [SquadOrder.AttackMove]: "Attack-moving",
+  [SquadOrder.Patrol]: "Patrolling",
+  [SquadOrder.Follow]: "Following",
+  [SquadOrder.Retreat]: "Retreating",
+  [SquadOrder.CaptureArea]: "Capturing",
+};
+
+// ---- Tech Display Names ----
+
+export const TECH_NAMES: Record<TechId, string> = {
+  [TechId.Forging]: "Forging",
+  [TechId.Tempering]: "Tempering",
+  [TechId.ChainMail]: "Chain Mail",
+  [TechId.PlateArmor]: "Plate Armor",
+  [TechId.Horseshoes]: "Horseshoes",
+  [TechId.Masonry]: "Masonry",
+  [TechId.Ballistics]: "Ballistics",
+  [TechId.Heraldry]: "Heraldry",
+  [TechId.Scouting]: "Scouting",
+  [TechId.Administration]: "Administration",
+  [TechId.Bureaucracy]: "Bureaucracy",
+};
+
+/**
+ * One-line summary of what a tech does, built from its effects.
+ */
+export function describeTech(tech: TechStats): string {
+  const parts: string[] = [];
+  const percent = (value: number) => `+${Math.round(value * 100)}%`;
+  const { effects } = tech;
+  if (effects.unitHp) parts.push(`${percent(effects.unitHp)} unit HP`);
+  if (effects.unitDamage) parts.push(`${percent(effects.unitDamage)} unit damage`);
+  if (effects.unitSpeed) parts.push(`${percent(effects.unitSpeed)} unit speed`);
+  if (effects.towerDamage) parts.push(`${percent(effects.towerDamage)} tower damage`);
+  if (effects.towerRange) parts.push(`+${effects.towerRange} tower range`);
+  if (effects.captureRate) parts.push(`${percent(effects.captureRate)} capture speed`);
+  if (effects.visionRadius) parts.push(`+${effects.visionRadius} squad vision`);
+  if (effects.expansionRelief) parts.push(`${percent(effects.expansionRelief)} territory before the expansion penalty`);
+  return parts.join(", ");
+}
+
+// ---- Team Display Names ----
+
+export const TEAM_MODE_NAMES: Record<TeamMode, string> = {
+  [TeamMode.FreeForAll]: "Free-for-all",
+  [TeamMode.TwoVsTwo]: "2 vs 2",
+  [TeamMode.FourVsFour]: "4 vs 4",
+  [TeamMode.FiveTeamsOfFour]: "5 teams of 4",
+};
+
+export function teamName(team: number): string {
+  return `Team ${team + 1}`;
+}
+
+// ---- Diplomacy Display Names ----
+
+export const PACT_NAMES: Record<DiplomaticStatus, string> = {
+  [DiplomaticStatus.War]: "War",
+  [DiplomaticStatus.NonAggression]: "Non-aggression",
+  [DiplomaticStatus.Alliance]: "Alliance",
+};
+
+// ---- Bot Difficulty Display Names ----
+
+export const BOT_DIFFICULTY_NAMES: Record<BotDifficulty, string> = {
+  [BotDifficulty.Easy]: "Easy",
+  [BotDifficulty.Normal]: "Normal",
+  [BotDifficulty.Hard]: "Hard",
+};
+
+// ---- Rule Preset Display Names ----
+
+export const RULE_PRESET_NAMES: Record<RulePreset, string> = {
+  [RulePreset.Standard]: "Standard",
+  [RulePreset.Blitz]: "Blitz · 10 min",
+  [RulePreset.Duel]: "Duel · 60×60",
+  [RulePreset.EconomyHeavy]: "Economy Heavy",
+};
+
 // ---- Utility ----
 
 export function tileKey(x: number, y: number): TileKey {
@@ -334,6 +1005,7 @@ export const BUILDABLE_STRUCTURES: StructureType[] = [
   StructureType.Tower,
   StructureType.MineUpgrade,
   StructureType.Road,
+  StructureType.Depot,
 ];
 
 // ---- Trainable Units ----